@@ -1,6 +1,36 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Page, SwapDeal, PricingResult, CashflowRow } from './types';
-import { analyzeSwapDeal, generatePricingCode } from './services/aiService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Page, AppSettings, DealAnalysis, NumberFormat, PricingRun, RiskFlagSeverity, SwapDeal, DealRecord, DealTemplate, DealStatus, LifecycleEvent, MarketSnapshot, Scenario, ScenarioShock, PricingResult, BusinessDayConvention, DayCountConvention, DateGeneration, StubType, NotionalStep, SwapLeg, MarketData, CurveDefinition, CurveQuote, CurveInstrument, InterpolationMethod, YieldCurve } from './types';
+import { analyzeSwapDeal } from './services/aiService';
+import { AI_PROVIDER_LABELS, aiProviderLabel } from './services/aiProviders';
+import { DEFAULT_MARKET_DATA, getDiscountCurve } from './services/marketData';
+import { addTenor, daysBetween, formatDate, parseDate } from './services/dateUtils';
+import { fxForward } from './services/fx';
+import { priceSwapWithRisk } from './services/risk';
+import { downloadFile, pricingReportCsv, pricingReportXlsx, printDocument, termSheetHtml, toCsv } from './services/reportExport';
+import { XLSX_MIME_TYPE, zip } from './services/xlsx';
+import { MODEL_EXPORT_FORMATS, ModelExportFormat, exportModel } from './services/modelExport';
+import { solveParRate, applyParSolution, ParSolution } from './services/parSolver';
+import { dealRepository, nextDealId } from './services/dealRepository';
+import { LIFECYCLE_EVENT_LABELS, amendDeal, bookDeal, confirmDeal, isConfirmed, novateDeal, partialUnwind, terminateDeal, withLifecycleStatus } from './services/lifecycle';
+import { snapshotRepository } from './services/marketSnapshots';
+import { EMPTY_MARKET_DATA, ImportIssue, MarketImportResult, applyMarketPatch, marketCsvRows, parseMarketFile, summarizePatch, validateCurves } from './services/marketImport';
+import { DealPnl, PNL_CATEGORY_LABELS, PnlCategory, PnlExplain, explainPnl } from './services/pnlExplain';
+import { LadderGranularity, PortfolioValuation, aggregatePortfolio, liveDeals, valuePortfolio } from './services/portfolio';
+import { DEAL_PAGE_SIZE, DEFAULT_DEAL_QUERY, DealQuery, DealSortKey, LEG_STRUCTURES, currencyPair, dealQueryFromSearchParams, dealQueryToSearchParams, queryDeals } from './services/dealQuery';
+import { TradeImportResult, TradeIssue, assignImportIds, dealsCsvRows, dealsToJson, parseTradeFile } from './services/tradeFormats';
+import { dealsToFpml, fpmlExportIssues } from './services/fpml';
+import { ALL_CURRENCIES, SHOCK_TYPE_LABELS, ScenarioRun, describeShock, runScenarios } from './services/scenarios';
+import { scenarioRepository } from './services/scenarioRepository';
+import { DealIssue, STUB_TYPES, SUPPORTED_CURRENCIES, hasErrors, validateDeal } from './services/dealValidation';
+import { BUILT_IN_TEMPLATES, applyLegPreset, applyTemplate, dealFromTemplate, templateFromDeal } from './services/dealTemplates';
+import { templateRepository } from './services/templateRepository';
+import { AI_MODELS, DEFAULT_SETTINGS, NUMBER_LOCALES, VALUATION_DATE_RULE_LABELS, applyDefaultCurves, formatAmount, resolveValuationDate } from './services/settings';
+import { settingsRepository } from './services/settingsRepository';
+import { RunFieldDiff, createPricingRun, diffRuns } from './services/pricingRuns';
+import { runRepository } from './services/runRepository';
+import { DAY_COUNT_CONVENTIONS } from './services/dayCount';
+import { RATE_INDICES, indicesForCurrency } from './services/indices';
+import { CALENDAR_CODES, calendarName, defaultCalendar, jointCalendar } from './services/calendars';
 import { 
   LineChart, 
   Line, 
@@ -8,77 +38,21 @@ import {
   Tooltip, 
   AreaChart, 
   Area,
+  BarChart,
+  Bar,
+  Cell,
+  Legend,
   XAxis,
   YAxis,
   CartesianGrid
 } from 'recharts';
 
-// --- Utilities & Calculation Logic ---
+// --- Chart Helpers ---
 
-const formatDate = (date: Date): string => {
-  return date.toISOString().split('T')[0];
-};
-
-const addMonths = (date: Date, months: number): Date => {
-  const newDate = new Date(date);
-  newDate.setMonth(newDate.getMonth() + months);
-  return newDate;
-};
-
-const getFrequencyMonths = (freq: string): number => {
-  switch (freq) {
-    case 'Monthly': return 1;
-    case 'Quarterly': return 3;
-    case 'Semi-Annual': return 6;
-    case 'Annual': return 12;
-    default: return 3;
-  }
-};
-
-// Dynamic Cashflow Generator
-const generateSmartCashflows = (deal: SwapDeal): CashflowRow[] => {
-  const rows: CashflowRow[] = [];
-  const start = new Date(deal.startDate);
-  const end = new Date(deal.endDate);
-  let currentDate = new Date(start);
-
-  // Determine frequency in months (using Leg 1 as driver for row generation for simplicity)
-  const monthsToAdd = getFrequencyMonths(deal.leg1.frequency);
-
-  // Advance to first payment
-  currentDate = addMonths(currentDate, monthsToAdd);
-
-  let period = 1;
-
-  while (currentDate <= end) {
-    const dateStr = formatDate(currentDate);
-    
-    // Calculate crude interest flows
-    // Simple Interest = Notional * Rate% * (Months/12)
-    const timeFraction = monthsToAdd / 12;
-    
-    const leg1Rate = deal.leg1.type === 'Floating' ? deal.leg1.rate + (Math.random() * 0.5 - 0.25) : deal.leg1.rate;
-    const leg2Rate = deal.leg2.type === 'Floating' ? deal.leg2.rate + (Math.random() * 0.5 - 0.25) : deal.leg2.rate;
-
-    const leg1Interest = deal.leg1.notional * (leg1Rate / 100) * timeFraction;
-    const leg2Interest = deal.leg2.notional * (leg2Rate / 100) * timeFraction;
-
-    // Discount factor (simple decay)
-    const discountFactor = 1 / Math.pow(1.04, period * timeFraction); // Assuming 4% discount rate
-
-    rows.push({
-      date: dateStr,
-      leg1Flow: Number(leg1Interest.toFixed(2)),
-      leg2Flow: Number((-leg2Interest).toFixed(2)), 
-      discountFactor: Number(discountFactor.toFixed(4)),
-      presentValue: Number((Math.abs(leg1Interest) - Math.abs(leg2Interest) * discountFactor).toFixed(2))
-    });
-
-    currentDate = addMonths(currentDate, monthsToAdd);
-    period++;
-  }
-  return rows;
-};
+const CURVE_TENORS = [
+  { label: '3M', t: 0.25 }, { label: '6M', t: 0.5 }, { label: '1Y', t: 1 }, { label: '2Y', t: 2 },
+  { label: '3Y', t: 3 }, { label: '5Y', t: 5 }, { label: '7Y', t: 7 }, { label: '10Y', t: 10 }
+];
 
 // --- Components ---
 
@@ -109,13 +83,40 @@ const Sidebar = ({ currentPage, setPage }: { currentPage: Page, setPage: (p: Pag
           <span className={`material-symbols-outlined ${currentPage === Page.PRICER ? 'material-symbols-filled' : ''}`}>calculate</span>
           <p className="text-sm leading-normal">Pricing Tools</p>
         </button>
-        <button className="flex items-center gap-3 px-3 py-2 rounded-lg text-gray-600 hover:bg-gray-50 hover:text-gray-900 transition-all duration-200">
-          <span className="material-symbols-outlined">history</span>
-          <p className="text-sm font-medium leading-normal">History</p>
+        <button 
+           onClick={() => setPage(Page.CURVES)}
+           className={`flex items-center gap-3 px-3 py-2 rounded-lg transition-all duration-200 ${currentPage === Page.CURVES ? 'bg-primary/10 text-primary font-bold shadow-sm' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'}`}
+        >
+          <span className={`material-symbols-outlined ${currentPage === Page.CURVES ? 'material-symbols-filled' : ''}`}>show_chart</span>
+          <p className="text-sm leading-normal">Curves</p>
+        </button>
+        <button 
+           onClick={() => setPage(Page.MARKET_DATA)}
+           className={`flex items-center gap-3 px-3 py-2 rounded-lg transition-all duration-200 ${currentPage === Page.MARKET_DATA ? 'bg-primary/10 text-primary font-bold shadow-sm' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'}`}
+        >
+          <span className={`material-symbols-outlined ${currentPage === Page.MARKET_DATA ? 'material-symbols-filled' : ''}`}>database</span>
+          <p className="text-sm leading-normal">Market Data</p>
+        </button>
+        <button 
+           onClick={() => setPage(Page.PNL)}
+           className={`flex items-center gap-3 px-3 py-2 rounded-lg transition-all duration-200 ${currentPage === Page.PNL ? 'bg-primary/10 text-primary font-bold shadow-sm' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'}`}
+        >
+          <span className={`material-symbols-outlined ${currentPage === Page.PNL ? 'material-symbols-filled' : ''}`}>account_balance</span>
+          <p className="text-sm leading-normal">P&amp;L Explain</p>
+        </button>
+        <button 
+           onClick={() => setPage(Page.HISTORY)}
+           className={`flex items-center gap-3 px-3 py-2 rounded-lg transition-all duration-200 ${currentPage === Page.HISTORY ? 'bg-primary/10 text-primary font-bold shadow-sm' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'}`}
+        >
+          <span className={`material-symbols-outlined ${currentPage === Page.HISTORY ? 'material-symbols-filled' : ''}`}>history</span>
+          <p className="text-sm leading-normal">History</p>
         </button>
-        <button className="flex items-center gap-3 px-3 py-2 rounded-lg text-gray-600 hover:bg-gray-50 hover:text-gray-900 transition-all duration-200">
-          <span className="material-symbols-outlined">settings</span>
-          <p className="text-sm font-medium leading-normal">Settings</p>
+        <button 
+           onClick={() => setPage(Page.SETTINGS)}
+           className={`flex items-center gap-3 px-3 py-2 rounded-lg transition-all duration-200 ${currentPage === Page.SETTINGS ? 'bg-primary/10 text-primary font-bold shadow-sm' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'}`}
+        >
+          <span className={`material-symbols-outlined ${currentPage === Page.SETTINGS ? 'material-symbols-filled' : ''}`}>settings</span>
+          <p className="text-sm leading-normal">Settings</p>
         </button>
       </nav>
     </div>
@@ -153,7 +154,571 @@ const MobileHeader = ({ setPage }: { setPage: (p: Page) => void }) => (
 
 // --- Pages ---
 
-const Dashboard = ({ setPage, deals }: { setPage: (p: Page) => void, deals: SwapDeal[] }) => {
+interface DashboardActions {
+  onEdit: (deal: SwapDeal) => void;
+  onDuplicate: (deal: SwapDeal) => void;
+  onDelete: (deal: SwapDeal) => Promise<void>;
+  onReprice: (deal: SwapDeal) => Promise<void>;
+  // Stores a record after a lifecycle event has been applied to it
+  onLifecycleEvent: (record: DealRecord) => Promise<void>;
+  onImport: (deals: SwapDeal[]) => Promise<void>;
+}
+
+const RISK_FLAG_STYLES: Record<RiskFlagSeverity, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-700'
+};
+
+const STATUS_STYLES: Record<DealStatus, string> = {
+  Active: 'bg-green-100 text-green-800',
+  Pending: 'bg-yellow-100 text-yellow-800',
+  Matured: 'bg-gray-100 text-gray-600',
+  Terminated: 'bg-red-100 text-red-700'
+};
+
+const SortableHeader = ({ label, sortKey, query, onSort, align = 'left' }: { label: string, sortKey: DealSortKey, query: DealQuery, onSort: (key: DealSortKey) => void, align?: 'left' | 'right' }) => {
+  const active = query.sort === sortKey;
+  return (
+    <th className={`px-6 py-4 ${align === 'right' ? 'text-right' : ''}`}>
+      <button onClick={() => onSort(sortKey)} className={`inline-flex items-center gap-1 uppercase font-semibold tracking-wide hover:text-primary transition-colors ${active ? 'text-primary' : ''}`}>
+        {label}
+        <span className="material-symbols-outlined text-sm">{active ? (query.direction === 'asc' ? 'arrow_upward' : 'arrow_downward') : 'unfold_more'}</span>
+      </button>
+    </th>
+  );
+};
+
+const PortfolioPanel = ({ records, market, reportingCurrency, numberFormat }: { records: DealRecord[], market: MarketData, reportingCurrency: string, numberFormat: NumberFormat }) => {
+  const [valuations, setValuations] = useState<PortfolioValuation[] | null>(null);
+  const [granularity, setGranularity] = useState<LadderGranularity>('Quarter');
+  const [ladderCurrency, setLadderCurrency] = useState('');
+
+  // Revaluing the book is synchronous and can take a moment, so let the loading state paint first
+  useEffect(() => {
+    setValuations(null);
+    const timer = window.setTimeout(() => setValuations(valuePortfolio(records, market, reportingCurrency)), 0);
+    return () => window.clearTimeout(timer);
+  }, [records, market, reportingCurrency]);
+
+  if (!valuations) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 mb-6 flex items-center gap-3 text-gray-500">
+        <span className="animate-spin material-symbols-outlined">progress_activity</span>
+        Revaluing portfolio...
+      </div>
+    );
+  }
+
+  const analytics = aggregatePortfolio(valuations, reportingCurrency, market.asOf, granularity);
+  const ladderCurrencies = Array.from(new Set(analytics.cashflowLadder.map(r => r.currency))).sort();
+  const activeLadderCurrency = ladderCurrencies.includes(ladderCurrency) ? ladderCurrency : ladderCurrencies[0];
+  const ladderRows = analytics.cashflowLadder.filter(r => r.currency === activeLadderCurrency);
+  const format = (value: number) => formatAmount(value, numberFormat);
+  const valueClass = (value: number) => `font-mono ${value < 0 ? 'text-negative' : 'text-gray-900'}`;
+
+  return (
+    <section className="mb-6 flex flex-col gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+          <p className="text-gray-500 font-medium text-sm">Portfolio NPV</p>
+          <p className={`text-2xl font-bold tracking-tight mt-1 ${analytics.npvTotal < 0 ? 'text-negative' : 'text-gray-900'}`}>{reportingCurrency} {format(analytics.npvTotal)}</p>
+          <p className="text-xs text-gray-400 mt-1">Market data as of {analytics.valuationDate}</p>
+        </div>
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+          <p className="text-gray-500 font-medium text-sm">Portfolio PV01 (+1bp)</p>
+          <p className={`text-2xl font-bold tracking-tight mt-1 ${analytics.pv01Total < 0 ? 'text-negative' : 'text-gray-900'}`}>{reportingCurrency} {format(analytics.pv01Total)}</p>
+          <p className="text-xs text-gray-400 mt-1">Parallel shift of every curve</p>
+        </div>
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+          <p className="text-gray-500 font-medium text-sm">Live Deals Priced</p>
+          <p className="text-2xl font-bold tracking-tight mt-1 text-gray-900">{analytics.dealCount}</p>
+          {analytics.errors.length > 0
+            ? <p className="text-xs text-negative mt-1" title={analytics.errors.map(e => `${e.id}: ${e.message}`).join('\n')}>{analytics.errors.length} deal(s) could not be priced</p>
+            : <p className="text-xs text-gray-400 mt-1">Matured and terminated deals excluded</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+          <h3 className="font-bold text-gray-900 p-4 border-b border-gray-100">NPV by Currency</h3>
+          <table className="w-full text-sm text-left">
+            <tbody className="divide-y divide-gray-100">
+              {analytics.npvByCurrency.map(r => (
+                <tr key={r.currency}>
+                  <td className="px-4 py-2 font-medium text-gray-700">{r.currency}</td>
+                  <td className={`px-4 py-2 text-right ${valueClass(r.value)}`}>{format(r.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+          <h3 className="font-bold text-gray-900 p-4 border-b border-gray-100">NPV by Counterparty</h3>
+          <table className="w-full text-sm text-left">
+            <tbody className="divide-y divide-gray-100">
+              {analytics.npvByCounterparty.map(r => (
+                <tr key={r.counterparty}>
+                  <td className="px-4 py-2 font-medium text-gray-700">{r.counterparty} <span className="text-xs text-gray-400">({r.dealCount})</span></td>
+                  <td className={`px-4 py-2 text-right ${valueClass(r.value)}`}>{format(r.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+          <h3 className="font-bold text-gray-900 p-4 border-b border-gray-100">DV01 Buckets ({reportingCurrency})</h3>
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-sm text-left">
+              <tbody className="divide-y divide-gray-100">
+                {analytics.dv01Buckets.map(r => (
+                  <tr key={`${r.currency}-${r.instrument}-${r.tenor}`}>
+                    <td className="px-4 py-2 font-medium text-gray-700">{r.currency}</td>
+                    <td className="px-4 py-2 text-gray-600">{r.instrument} {r.tenor}</td>
+                    <td className={`px-4 py-2 text-right ${valueClass(r.value)}`}>{format(r.value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <div>
+            <h3 className="font-bold text-lg text-gray-900">Cashflow Ladder</h3>
+            <p className="text-sm text-gray-500">Undiscounted future flows in {activeLadderCurrency ?? 'each currency'}</p>
+          </div>
+          <div className="flex gap-2">
+            <select value={activeLadderCurrency ?? ''} onChange={e => setLadderCurrency(e.target.value)} className="form-select rounded-lg border-gray-200 text-sm font-medium">
+              {ladderCurrencies.map(ccy => <option key={ccy} value={ccy}>{ccy}</option>)}
+            </select>
+            <select value={granularity} onChange={e => setGranularity(e.target.value as LadderGranularity)} className="form-select rounded-lg border-gray-200 text-sm font-medium">
+              <option value="Month">Monthly</option>
+              <option value="Quarter">Quarterly</option>
+            </select>
+          </div>
+        </div>
+        {ladderRows.length === 0 ? (
+          <p className="text-sm text-gray-500">No future cashflows in the book.</p>
+        ) : (
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={ladderRows} stackOffset="sign" margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+                <XAxis dataKey="period" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v: number) => v.toLocaleString(undefined, { notation: 'compact' })} />
+                <Tooltip formatter={(v: number) => format(v)} />
+                <Legend />
+                <Bar dataKey="inflow" name="Inflows" stackId="flows" fill="#28a745" />
+                <Bar dataKey="outflow" name="Outflows" stackId="flows" fill="#dc3545" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+type ShockForm = { type: ScenarioShock['type'], currency: string, tenor: string, bp: number, shortBp: number, longBp: number, pct: number };
+
+const DEFAULT_SHOCK_FORM: ShockForm = { type: 'Parallel', currency: ALL_CURRENCIES, tenor: '5Y', bp: 25, shortBp: 25, longBp: -25, pct: -10 };
+
+const shockFromForm = (form: ShockForm): ScenarioShock => {
+  const { type, currency } = form;
+  switch (type) {
+    case 'Parallel': return { type, currency, bp: form.bp };
+    case 'Tenor': return { type, currency, tenor: form.tenor.trim().toUpperCase(), bp: form.bp };
+    case 'Twist': return { type, currency, shortBp: form.shortBp, longBp: form.longBp };
+    case 'Basis': return { type, currency, bp: form.bp };
+    case 'FxSpot': return { type, currency, pct: form.pct };
+  }
+};
+
+// Reprices the given deals under built-in and user-defined shocks; used for one deal on the
+// results page and for the live book on the Dashboard
+const ScenarioPanel = ({ deals, market, reportingCurrency, numberFormat, subtitle }: { deals: SwapDeal[], market: MarketData, reportingCurrency: string, numberFormat: NumberFormat, subtitle: string }) => {
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [selected, setSelected] = useState<string[] | null>(null);
+  const [run, setRun] = useState<ScenarioRun | null>(null);
+  const [detailId, setDetailId] = useState('');
+  const [building, setBuilding] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const [draftShocks, setDraftShocks] = useState<ScenarioShock[]>([]);
+  const [shockForm, setShockForm] = useState<ShockForm>(DEFAULT_SHOCK_FORM);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    scenarioRepository.list()
+      .then(setScenarios)
+      .catch(e => console.error("Failed to load scenarios:", e));
+  }, []);
+
+  // Results describe one set of deals and market data; any change makes them stale
+  useEffect(() => setRun(null), [deals, market, reportingCurrency]);
+
+  const selectedIds = selected ?? scenarios.map(s => s.id);
+  const toggle = (id: string) => setSelected(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  const currencies = Object.keys(market.curves).sort();
+
+  const handleRun = () => {
+    try {
+      setRun(runScenarios(deals, market, scenarios.filter(s => selectedIds.includes(s.id)), reportingCurrency));
+      setDetailId('');
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unable to run the scenarios.');
+    }
+  };
+
+  const handleAddShock = () => {
+    if (shockForm.type === 'Tenor' && !/^\d+[DWMY]$/i.test(shockForm.tenor.trim())) {
+      setError(`Invalid tenor "${shockForm.tenor}", expected e.g. 6M or 5Y`);
+      return;
+    }
+    setDraftShocks(prev => [...prev, shockFromForm(shockForm)]);
+    setError('');
+  };
+
+  const handleSaveScenario = async () => {
+    try {
+      const saved = await scenarioRepository.save({ name: draftName, shocks: draftShocks });
+      setScenarios(await scenarioRepository.list());
+      setSelected([...selectedIds, saved.id]);
+      setDraftName('');
+      setDraftShocks([]);
+      setBuilding(false);
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unable to save the scenario.');
+    }
+  };
+
+  const handleRemoveScenario = async (id: string) => {
+    try {
+      await scenarioRepository.remove(id);
+      setScenarios(await scenarioRepository.list());
+      setSelected(selectedIds.filter(s => s !== id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unable to delete the scenario.');
+    }
+  };
+
+  const format = (value: number) => formatAmount(value, numberFormat);
+  const valueClass = (value: number) => `font-mono ${value < 0 ? 'text-negative' : 'text-gray-900'}`;
+  const detail = run?.results.find(r => r.scenario.id === detailId);
+  const inputClass = "form-input rounded-lg border-gray-200 text-sm font-medium focus:border-primary focus:ring-primary/20";
+  const numberField = (key: 'bp' | 'shortBp' | 'longBp' | 'pct', label: string) => (
+    <label>
+      <span className="text-xs font-medium text-gray-500 mb-1 block">{label}</span>
+      <input type="number" className={`${inputClass} w-24 font-mono text-right`} value={shockForm[key]} onChange={e => setShockForm({ ...shockForm, [key]: Number(e.target.value) })} />
+    </label>
+  );
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 mb-8 flex flex-col gap-6">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h3 className="font-bold text-lg text-gray-900">Scenario Analysis</h3>
+          <p className="text-gray-500 text-sm">{subtitle}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={() => setBuilding(!building)} className="px-4 py-2 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors">
+            {building ? 'Cancel' : 'New Scenario'}
+          </button>
+          <button onClick={handleRun} disabled={selectedIds.length === 0 || deals.length === 0} className="px-4 py-2 rounded-lg bg-primary text-white text-sm font-bold shadow-sm hover:bg-blue-600 flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+            <span className="material-symbols-outlined text-sm">bolt</span>
+            Run {selectedIds.length} Scenario(s)
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {scenarios.map(s => (
+          <label key={s.id} title={s.shocks.map(describeShock).join('\n')} className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm cursor-pointer transition-colors ${selectedIds.includes(s.id) ? 'border-primary bg-primary/5 text-primary font-semibold' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}>
+            <input type="checkbox" className="hidden" checked={selectedIds.includes(s.id)} onChange={() => toggle(s.id)} />
+            {s.name}
+            {!s.builtIn && (
+              <button onClick={e => { e.preventDefault(); handleRemoveScenario(s.id); }} title="Delete scenario" className="text-gray-400 hover:text-negative"><span className="material-symbols-outlined text-sm">close</span></button>
+            )}
+          </label>
+        ))}
+      </div>
+
+      {building && (
+        <div className="bg-gray-50 rounded-lg p-4 flex flex-col gap-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <label>
+              <span className="text-xs font-medium text-gray-500 mb-1 block">Shock</span>
+              <select className={inputClass} value={shockForm.type} onChange={e => setShockForm({ ...shockForm, type: e.target.value as ShockForm['type'] })}>
+                {(Object.keys(SHOCK_TYPE_LABELS) as ShockForm['type'][]).map(type => <option key={type} value={type}>{SHOCK_TYPE_LABELS[type]}</option>)}
+              </select>
+            </label>
+            <label>
+              <span className="text-xs font-medium text-gray-500 mb-1 block">Currency</span>
+              <select className={inputClass} value={shockForm.currency} onChange={e => setShockForm({ ...shockForm, currency: e.target.value })}>
+                <option value={ALL_CURRENCIES}>All</option>
+                {currencies.map(ccy => <option key={ccy} value={ccy}>{ccy}</option>)}
+              </select>
+            </label>
+            {shockForm.type === 'Tenor' && (
+              <label>
+                <span className="text-xs font-medium text-gray-500 mb-1 block">Tenor</span>
+                <input type="text" className={`${inputClass} w-20`} value={shockForm.tenor} onChange={e => setShockForm({ ...shockForm, tenor: e.target.value })} />
+              </label>
+            )}
+            {(shockForm.type === 'Parallel' || shockForm.type === 'Tenor' || shockForm.type === 'Basis') && numberField('bp', 'Shift (bp)')}
+            {shockForm.type === 'Twist' && numberField('shortBp', 'Short end (bp)')}
+            {shockForm.type === 'Twist' && numberField('longBp', 'Long end (bp)')}
+            {shockForm.type === 'FxSpot' && numberField('pct', shockForm.currency === 'USD' ? 'Move vs all (%)' : 'Move vs USD (%)')}
+            <button onClick={handleAddShock} className="px-3 py-2 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-white transition-colors flex items-center gap-1">
+              <span className="material-symbols-outlined text-sm">add</span>
+              Add Shock
+            </button>
+          </div>
+          {draftShocks.length > 0 && (
+            <ul className="text-sm text-gray-700 flex flex-col gap-1">
+              {draftShocks.map((shock, i) => (
+                <li key={i} className="flex items-center gap-2">
+                  <span className="font-mono">{describeShock(shock)}</span>
+                  <button onClick={() => setDraftShocks(draftShocks.filter((_, j) => j !== i))} className="text-gray-400 hover:text-negative"><span className="material-symbols-outlined text-sm">close</span></button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex flex-wrap items-end gap-3">
+            <label>
+              <span className="text-xs font-medium text-gray-500 mb-1 block">Scenario Name</span>
+              <input type="text" className={`${inputClass} w-64`} value={draftName} onChange={e => setDraftName(e.target.value)} placeholder="e.g. BRL selloff" />
+            </label>
+            <button onClick={handleSaveScenario} disabled={!draftName.trim() || draftShocks.length === 0} className="px-4 py-2 rounded-lg bg-primary text-white text-sm font-bold shadow-sm hover:bg-blue-600 flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+              <span className="material-symbols-outlined text-sm">save</span>
+              Save Scenario
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-negative text-sm font-medium">{error}</p>}
+
+      {run && (
+        <>
+          {run.errors.length > 0 && (
+            <p className="text-negative text-sm font-medium">{run.errors.length} deal(s) could not be priced and are excluded: {run.errors.map(e => `${e.id} (${e.message})`).join('; ')}</p>
+          )}
+          {run.warnings.map(w => <p key={w} className="text-yellow-800 text-sm font-medium">{w}</p>)}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-gray-50 text-xs uppercase text-gray-500 font-semibold tracking-wide">
+                  <tr>
+                    <th className="px-4 py-2">Scenario</th>
+                    <th className="px-4 py-2 text-right">Base NPV</th>
+                    <th className="px-4 py-2 text-right">Stressed NPV</th>
+                    <th className="px-4 py-2 text-right">Δ NPV</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {run.results.map(r => (
+                    <tr key={r.scenario.id} onClick={() => setDetailId(r.scenario.id === detailId ? '' : r.scenario.id)} title={r.scenario.description ?? r.scenario.shocks.map(describeShock).join('\n')} className={`cursor-pointer hover:bg-gray-50 ${r.scenario.id === detailId ? 'bg-primary/5' : ''}`}>
+                      <td className="px-4 py-2 font-medium text-gray-900">{r.scenario.name}</td>
+                      <td className={`px-4 py-2 text-right ${valueClass(r.baseNpv)}`}>{format(r.baseNpv)}</td>
+                      <td className={`px-4 py-2 text-right ${valueClass(r.stressedNpv)}`}>{format(r.stressedNpv)}</td>
+                      <td className={`px-4 py-2 text-right font-bold ${valueClass(r.delta)}`}>{format(r.delta)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-400 mt-2">Values in {run.reportingCurrency}. Click a scenario for its shocks{deals.length > 1 ? ' and the impact per deal' : ''}.</p>
+            </div>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={run.results.map(r => ({ name: r.scenario.name, delta: r.delta }))} layout="vertical" margin={{ top: 0, right: 10, left: 10, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f0f0f0" />
+                  <XAxis type="number" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v: number) => v.toLocaleString(undefined, { notation: 'compact' })} />
+                  <YAxis type="category" dataKey="name" width={140} fontSize={12} tickLine={false} axisLine={false} />
+                  <Tooltip formatter={(v: number) => `${run.reportingCurrency} ${format(v)}`} />
+                  <Bar dataKey="delta" name="Δ NPV">
+                    {run.results.map(r => <Cell key={r.scenario.id} fill={r.delta < 0 ? '#dc3545' : '#28a745'} />)}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+          {detail && (
+            <div className="bg-gray-50 rounded-lg p-4 flex flex-col gap-3">
+              <p className="text-sm text-gray-700"><span className="font-bold text-gray-900">{detail.scenario.name}:</span> {detail.scenario.shocks.map(describeShock).join(' · ')}</p>
+              {detail.byDeal.length > 1 && (
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs uppercase text-gray-500 font-semibold tracking-wide">
+                    <tr>
+                      <th className="px-4 py-2">Deal</th>
+                      <th className="px-4 py-2 text-right">Base NPV</th>
+                      <th className="px-4 py-2 text-right">Stressed NPV</th>
+                      <th className="px-4 py-2 text-right">Δ NPV</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {detail.byDeal.map(d => (
+                      <tr key={d.id}>
+                        <td className="px-4 py-2 font-medium text-gray-900">{d.id}</td>
+                        <td className={`px-4 py-2 text-right ${valueClass(d.baseNpv)}`}>{format(d.baseNpv)}</td>
+                        <td className={`px-4 py-2 text-right ${valueClass(d.stressedNpv)}`}>{format(d.stressedNpv)}</td>
+                        <td className={`px-4 py-2 text-right ${valueClass(d.delta)}`}>{format(d.delta)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+const TradeIssuesTable = ({ issues }: { issues: TradeIssue[] }) => (
+  <div className="border border-gray-200 rounded-lg overflow-hidden max-h-64 overflow-y-auto">
+    <table className="w-full text-sm text-left">
+      <thead className="bg-gray-50 text-xs uppercase text-gray-500 font-semibold tracking-wide">
+        <tr>
+          <th className="px-4 py-2">Severity</th>
+          <th className="px-4 py-2">Location</th>
+          <th className="px-4 py-2">Message</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {issues.map((issue, i) => (
+          <tr key={i}>
+            <td className="px-4 py-2">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${issue.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>{issue.severity === 'error' ? 'Error' : 'Warning'}</span>
+            </td>
+            <td className="px-4 py-2 font-mono text-gray-700 whitespace-nowrap">{issue.location}</td>
+            <td className={`px-4 py-2 ${issue.severity === 'error' ? 'text-negative' : 'text-gray-600'}`}>{issue.message}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Parses a trade file into a validation report; nothing is booked until the user confirms
+const TradeImportPanel = ({ existing, onImport, onClose }: { existing: SwapDeal[], onImport: (deals: SwapDeal[]) => Promise<void>, onClose: () => void }) => {
+  const [fileName, setFileName] = useState('');
+  const [report, setReport] = useState<TradeImportResult | null>(null);
+  const [message, setMessage] = useState('');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setReport(assignImportIds(parseTradeFile(file.name, await file.text()), existing));
+    setMessage('');
+  };
+
+  const handleImport = async () => {
+    if (!report || report.deals.length === 0) return;
+    try {
+      await onImport(report.deals);
+      setMessage(`Imported ${report.deals.length} deal(s) from ${fileName}.`);
+      setReport(null);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Unable to import the deals.');
+    }
+  };
+
+  const errors = report?.issues.filter(i => i.severity === 'error').length ?? 0;
+
+  return (
+    <div className="p-4 border-b border-gray-200 bg-gray-50/50 flex flex-col gap-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-gray-900">Import Trades</h3>
+        <button onClick={onClose} className="p-1 rounded-md text-gray-400 hover:text-gray-600"><span className="material-symbols-outlined">close</span></button>
+      </div>
+      <label>
+        <span className="text-sm font-medium text-gray-600 mb-1 block">File (.csv, .json or FpML .xml)</span>
+        <input type="file" accept=".csv,.json,.xml,text/csv,application/json,application/xml,text/xml" className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-bold file:bg-primary/10 file:text-primary hover:file:bg-primary/20" onChange={e => handleFile(e.target.files?.[0])} />
+      </label>
+      {report && (
+        <>
+          <p className="text-sm text-gray-600">
+            <span className="font-bold text-gray-900">{fileName}:</span> {report.deals.length} valid deal(s) · {errors} error(s) · {report.issues.length - errors} warning(s).
+            {errors > 0 && ' Deals with errors are skipped.'}
+          </p>
+          {report.issues.length > 0 && <TradeIssuesTable issues={report.issues} />}
+          <div>
+            <button onClick={handleImport} disabled={report.deals.length === 0} className="px-4 py-2 rounded-lg bg-primary text-white text-sm font-bold shadow-sm hover:bg-blue-600 flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+              <span className="material-symbols-outlined text-sm">upload</span>
+              Import {report.deals.length} Deal(s)
+            </button>
+          </div>
+        </>
+      )}
+      {message && <p className="text-sm font-medium text-gray-600">{message}</p>}
+    </div>
+  );
+};
+
+const Dashboard = ({ setPage, records, actions, asOf, onAsOfChange, market, reportingCurrency, numberFormat }: { setPage: (p: Page) => void, records: DealRecord[], actions: DashboardActions, asOf: string, onAsOfChange: (date: string) => void, market: MarketData, reportingCurrency: string, numberFormat: NumberFormat }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = records.find(r => r.deal.id === selectedId);
+  const [query, setQuery] = useState<DealQuery>(() => dealQueryFromSearchParams(new URLSearchParams(window.location.search)));
+  const [importing, setImporting] = useState(false);
+  const [exportIssues, setExportIssues] = useState<TradeIssue[]>([]);
+  const [actionError, setActionError] = useState('');
+  // The book is stressed on the market's own date, like the portfolio valuation above it
+  const stressDeals = useMemo(() => liveDeals(records, market.asOf).map(r => ({ ...r.deal, valueDate: market.asOf })), [records, market]);
+
+  // Keep the query in the URL so a filtered view can be bookmarked
+  useEffect(() => {
+    const params = dealQueryToSearchParams(query).toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${params ? `?${params}` : ''}${window.location.hash}`);
+  }, [query]);
+
+  const { rows, total, pageCount, page } = queryDeals(records, query);
+  const pairs = Array.from(new Set(records.map(r => currencyPair(r.deal)))).sort();
+  const statuses = Array.from(new Set(['Active', 'Pending', ...records.map(r => r.deal.status || 'Active')]));
+  const isFiltered = dealQueryToSearchParams({ ...query, sort: DEFAULT_DEAL_QUERY.sort, direction: DEFAULT_DEAL_QUERY.direction, page: 1 }).toString() !== '';
+
+  // Any filter change goes back to the first page
+  const updateFilter = (changes: Partial<DealQuery>) => setQuery(prev => ({ ...prev, ...changes, page: 1 }));
+  const toggleSort = (sort: DealSortKey) => setQuery(prev => ({
+    ...prev,
+    sort,
+    direction: prev.sort === sort && prev.direction === 'desc' ? 'asc' : 'desc',
+    page: 1
+  }));
+  const handleReprice = async (deal: SwapDeal) => {
+    try {
+      await actions.onReprice(deal);
+      setActionError('');
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : `Unable to re-price ${deal.id}.`);
+    }
+  };
+
+  const handleDelete = async (deal: SwapDeal) => {
+    try {
+      await actions.onDelete(deal);
+      setActionError('');
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : `Unable to delete ${deal.id}.`);
+    }
+  };
+
+  // Exports cover every deal matching the filters, not just the current page
+  const exportDeals = (format: 'csv' | 'json' | 'fpml') => {
+    const deals = queryDeals(records, { ...query, page: 1 }, Math.max(records.length, 1)).rows.map(r => r.deal);
+    const stamp = formatDate(new Date());
+    if (format === 'csv') downloadFile(`deals_${stamp}.csv`, toCsv(dealsCsvRows(deals)), 'text/csv');
+    if (format === 'json') downloadFile(`deals_${stamp}.json`, dealsToJson(deals), 'application/json');
+    if (format === 'fpml') downloadFile(`deals_${stamp}.xml`, dealsToFpml(deals), 'application/xml');
+    setExportIssues(format === 'fpml' ? fpmlExportIssues(deals) : []);
+  };
+  const filterClass = "px-3 py-2 rounded-lg border border-gray-200 bg-background-light text-sm text-gray-700 focus:ring-2 focus:ring-primary/20 focus:border-primary outline-none";
+
   return (
     <div className="p-4 md:p-8 max-w-7xl mx-auto w-full animate-in fade-in duration-500">
        <header className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
@@ -162,6 +727,10 @@ const Dashboard = ({ setPage, deals }: { setPage: (p: Page) => void, deals: Swap
           <p className="text-gray-500 text-base">Cross-Currency Swaps Overview</p>
         </div>
         <div className="flex items-center gap-2">
+             <label className="flex items-center gap-2 text-sm text-gray-500 mr-2">
+                 <span className="font-medium">As of</span>
+                 <input type="date" value={asOf} onChange={e => e.target.value && onAsOfChange(e.target.value)} className="px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700 focus:ring-2 focus:ring-primary/20 focus:border-primary outline-none" />
+             </label>
              <button className="bg-white border border-gray-200 hover:bg-gray-50 rounded-full p-2 shadow-sm transition-colors">
                  <span className="material-symbols-outlined text-gray-600">notifications</span>
              </button>
@@ -170,55 +739,110 @@ const Dashboard = ({ setPage, deals }: { setPage: (p: Page) => void, deals: Swap
         </div>
       </header>
 
+      <PortfolioPanel records={records} market={market} reportingCurrency={reportingCurrency} numberFormat={numberFormat} />
+
+      <ScenarioPanel deals={stressDeals} market={market} reportingCurrency={reportingCurrency} numberFormat={numberFormat} subtitle={`Stress the ${stressDeals.length} live deal(s) in the book under curve, basis and FX shocks or historical episodes.`} />
+
       <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
         <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row justify-between gap-4">
            <div className="relative flex-1 max-w-md">
               <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 material-symbols-outlined">search</span>
-              <input type="text" placeholder="Search by ID, currency, notional..." className="w-full pl-10 pr-4 py-2.5 rounded-lg border border-gray-200 bg-background-light focus:ring-2 focus:ring-primary/20 focus:border-primary outline-none transition-all placeholder:text-gray-400" />
+              <input type="text" value={query.search} onChange={e => updateFilter({ search: e.target.value })} placeholder="Search by ID, currency, notional..." className="w-full pl-10 pr-4 py-2.5 rounded-lg border border-gray-200 bg-background-light focus:ring-2 focus:ring-primary/20 focus:border-primary outline-none transition-all placeholder:text-gray-400" />
            </div>
-           <button onClick={() => setPage(Page.PRICER)} className="bg-primary text-white px-5 py-2.5 rounded-lg font-bold text-sm flex items-center gap-2 hover:bg-blue-600 transition-all shadow-sm hover:shadow-md">
-              <span className="material-symbols-outlined text-lg">add</span>
-              Add New Swap
-           </button>
+           <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => setImporting(!importing)} className="bg-white border border-gray-200 text-gray-700 px-4 py-2.5 rounded-lg font-bold text-sm flex items-center gap-2 hover:bg-gray-50 transition-all shadow-sm">
+                 <span className="material-symbols-outlined text-lg">upload_file</span>
+                 Import
+              </button>
+              <div className="flex items-center rounded-lg border border-gray-200 shadow-sm overflow-hidden text-sm font-bold text-gray-700">
+                 <span className="material-symbols-outlined text-lg text-gray-500 pl-3">download</span>
+                 <button onClick={() => exportDeals('csv')} className="px-3 py-2.5 hover:bg-gray-50" title="Export the filtered deals as CSV">CSV</button>
+                 <button onClick={() => exportDeals('json')} className="px-3 py-2.5 hover:bg-gray-50 border-l border-gray-200" title="Export the filtered deals as JSON">JSON</button>
+                 <button onClick={() => exportDeals('fpml')} className="px-3 py-2.5 hover:bg-gray-50 border-l border-gray-200" title="Export the filtered deals as FpML 5.10">FpML</button>
+              </div>
+              <button onClick={() => setPage(Page.PRICER)} className="bg-primary text-white px-5 py-2.5 rounded-lg font-bold text-sm flex items-center gap-2 hover:bg-blue-600 transition-all shadow-sm hover:shadow-md">
+                 <span className="material-symbols-outlined text-lg">add</span>
+                 Add New Swap
+              </button>
+           </div>
+        </div>
+        {importing && (
+          <TradeImportPanel existing={records.map(r => r.deal)} onImport={actions.onImport} onClose={() => setImporting(false)} />
+        )}
+        {exportIssues.length > 0 && (
+          <div className="p-4 border-b border-gray-200 flex flex-col gap-3">
+            <div className="flex justify-between items-center">
+              <p className="text-sm font-medium text-gray-600">The FpML export does not carry every term of these deals:</p>
+              <button onClick={() => setExportIssues([])} className="p-1 rounded-md text-gray-400 hover:text-gray-600"><span className="material-symbols-outlined">close</span></button>
+            </div>
+            <TradeIssuesTable issues={exportIssues} />
+          </div>
+        )}
+        {actionError && <p className="px-4 py-3 border-b border-gray-200 text-negative text-sm font-medium">{actionError}</p>}
+        <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center gap-3">
+           <select value={query.pair} onChange={e => updateFilter({ pair: e.target.value })} className={filterClass}>
+              <option value="">All pairs</option>
+              {pairs.map(pair => <option key={pair} value={pair}>{pair}</option>)}
+           </select>
+           <select value={query.status} onChange={e => updateFilter({ status: e.target.value })} className={filterClass}>
+              <option value="">All statuses</option>
+              {statuses.map(status => <option key={status} value={status}>{status}</option>)}
+           </select>
+           <select value={query.structure} onChange={e => updateFilter({ structure: e.target.value as DealQuery['structure'] })} className={filterClass}>
+              <option value="">All leg types</option>
+              {LEG_STRUCTURES.map(structure => <option key={structure} value={structure}>{structure}</option>)}
+           </select>
+           <div className="flex items-center gap-2 text-sm text-gray-500">
+              <span>Maturity</span>
+              <input type="date" value={query.maturityFrom} onChange={e => updateFilter({ maturityFrom: e.target.value })} className={filterClass} />
+              <span>to</span>
+              <input type="date" value={query.maturityTo} onChange={e => updateFilter({ maturityTo: e.target.value })} className={filterClass} />
+           </div>
+           {isFiltered && (
+             <button onClick={() => setQuery({ ...DEFAULT_DEAL_QUERY, sort: query.sort, direction: query.direction })} className="text-sm font-semibold text-primary hover:underline">Clear filters</button>
+           )}
         </div>
         <div className="overflow-x-auto">
           <table className="w-full text-left text-sm text-gray-600">
             <thead className="bg-gray-50 text-xs uppercase text-gray-500 font-semibold tracking-wide">
               <tr>
-                <th className="px-6 py-4">Swap ID</th>
-                <th className="px-6 py-4">Pairs</th>
-                <th className="px-6 py-4">Notional</th>
-                <th className="px-6 py-4">Maturity</th>
-                <th className="px-6 py-4 text-center">Status</th>
+                <SortableHeader label="Swap ID" sortKey="id" query={query} onSort={toggleSort} />
+                <SortableHeader label="Pairs" sortKey="pair" query={query} onSort={toggleSort} />
+                <SortableHeader label="Notional" sortKey="notional" query={query} onSort={toggleSort} />
+                <SortableHeader label="Maturity" sortKey="maturity" query={query} onSort={toggleSort} />
+                <SortableHeader label="NPV" sortKey="npv" query={query} onSort={toggleSort} align="right" />
+                <SortableHeader label="Status" sortKey="status" query={query} onSort={toggleSort} />
                 <th className="px-6 py-4 text-right">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
-              {deals.length === 0 ? (
+              {rows.length === 0 ? (
                   <tr>
-                      <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
-                          No deals found. Create a new swap pricing.
+                      <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                          {records.length === 0 ? 'No deals found. Create a new swap pricing.' : 'No deals match the current filters.'}
                       </td>
                   </tr>
               ) : (
-                  deals.map((deal, index) => {
-                      const isActive = deal.status === 'Active';
-                      const isPending = deal.status === 'Pending';
-                      const statusClass = isActive ? 'bg-green-100 text-green-800' : isPending ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-600';
+                  rows.map(({ deal, result }, index) => {
+                      const statusClass = STATUS_STYLES[deal.status || 'Active'];
                       const rowKey = deal.id || `deal-${index}`;
 
                       return (
-                        <tr key={rowKey} className="hover:bg-gray-50 transition-colors group">
+                        <tr key={rowKey} className={`hover:bg-gray-50 transition-colors group ${deal.id && deal.id === selectedId ? 'bg-primary/5' : ''}`}>
                           <td className="px-6 py-4 font-medium text-gray-900 group-hover:text-primary transition-colors">{deal.id}</td>
                           <td className="px-6 py-4">{deal.leg1.currency} / {deal.leg2.currency}</td>
-                          <td className="px-6 py-4">{deal.leg1.notional.toLocaleString()} / {deal.leg2.notional.toLocaleString()}</td>
+                          <td className="px-6 py-4">{formatAmount(deal.leg1.notional, numberFormat, 0)} / {formatAmount(deal.leg2.notional, numberFormat, 0)}</td>
                           <td className="px-6 py-4">{deal.endDate}</td>
-                          <td className="px-6 py-4 text-center">
+                          <td className={`px-6 py-4 text-right font-mono ${result && result.npvTotal < 0 ? 'text-negative' : 'text-gray-900'}`}>{result ? `${result.reportingCurrency} ${formatAmount(result.npvTotal, numberFormat)}` : '—'}</td>
+                          <td className="px-6 py-4">
                             <span className={`px-2.5 py-0.5 rounded-full text-xs font-bold ${statusClass}`}>{deal.status || 'Active'}</span>
                           </td>
                           <td className="px-6 py-4 flex justify-end gap-2">
-                            <button className="p-1.5 rounded-md text-gray-400 hover:text-primary hover:bg-primary/10 transition-colors"><span className="material-symbols-outlined text-lg">edit</span></button>
-                            <button className="p-1.5 rounded-md text-gray-400 hover:text-negative hover:bg-negative/10 transition-colors"><span className="material-symbols-outlined text-lg">delete</span></button>
+                            <button onClick={() => setSelectedId(deal.id && deal.id !== selectedId ? deal.id : null)} title="Lifecycle" className="p-1.5 rounded-md text-gray-400 hover:text-primary hover:bg-primary/10 transition-colors"><span className="material-symbols-outlined text-lg">history</span></button>
+                            <button onClick={() => handleReprice(deal)} title="Re-price" className="p-1.5 rounded-md text-gray-400 hover:text-primary hover:bg-primary/10 transition-colors"><span className="material-symbols-outlined text-lg">calculate</span></button>
+                            <button onClick={() => actions.onEdit(deal)} title="Edit" className="p-1.5 rounded-md text-gray-400 hover:text-primary hover:bg-primary/10 transition-colors"><span className="material-symbols-outlined text-lg">edit</span></button>
+                            <button onClick={() => actions.onDuplicate(deal)} title="Duplicate" className="p-1.5 rounded-md text-gray-400 hover:text-primary hover:bg-primary/10 transition-colors"><span className="material-symbols-outlined text-lg">content_copy</span></button>
+                            <button onClick={() => handleDelete(deal)} title="Delete" className="p-1.5 rounded-md text-gray-400 hover:text-negative hover:bg-negative/10 transition-colors"><span className="material-symbols-outlined text-lg">delete</span></button>
                           </td>
                         </tr>
                       );
@@ -228,49 +852,420 @@ const Dashboard = ({ setPage, deals }: { setPage: (p: Page) => void, deals: Swap
           </table>
         </div>
         <div className="p-4 border-t border-gray-200 flex justify-between items-center text-sm text-gray-500">
-           <p>Showing {deals.length > 0 ? 1 : 0}-{deals.length} of {deals.length} results</p>
-           <div className="flex gap-2">
-             <button className="px-3 py-1 border border-gray-200 rounded-md hover:bg-gray-50 text-gray-600 disabled:opacity-50" disabled>Prev</button>
-             <button className="px-3 py-1 border border-gray-200 rounded-md hover:bg-gray-50 text-gray-600 disabled:opacity-50" disabled>Next</button>
+           <p>Showing {total > 0 ? (page - 1) * DEAL_PAGE_SIZE + 1 : 0}-{(page - 1) * DEAL_PAGE_SIZE + rows.length} of {total} results</p>
+           <div className="flex items-center gap-2">
+             <span className="text-xs text-gray-400">Page {page} of {pageCount}</span>
+             <button onClick={() => setQuery(prev => ({ ...prev, page: page - 1 }))} className="px-3 py-1 border border-gray-200 rounded-md hover:bg-gray-50 text-gray-600 disabled:opacity-50" disabled={page <= 1}>Prev</button>
+             <button onClick={() => setQuery(prev => ({ ...prev, page: page + 1 }))} className="px-3 py-1 border border-gray-200 rounded-md hover:bg-gray-50 text-gray-600 disabled:opacity-50" disabled={page >= pageCount}>Next</button>
            </div>
         </div>
       </div>
+
+      {selected && (
+        <LifecyclePanel record={selected} asOf={asOf} onRecord={actions.onLifecycleEvent} onClose={() => setSelectedId(null)} />
+      )}
     </div>
   );
 };
 
-const PricerForm = ({ onCalculate }: { onCalculate: (deal: SwapDeal) => void }) => {
-  const [deal, setDeal] = useState<SwapDeal>({
-    valueDate: '2024-09-27',
-    startDate: '2024-10-01',
-    endDate: '2029-10-01',
-    leg1: { currency: 'BRL', notional: 10000000, rate: 1.25, type: 'Floating', frequency: 'Quarterly', convention: 'Actual/365' },
-    leg2: { currency: 'USD', notional: 1850000, rate: 3.75, type: 'Fixed', frequency: 'Semi-Annual', convention: '30/360' }
+type LifecycleAction = 'PartialUnwind' | 'EarlyTermination' | 'Novation';
+
+const LifecyclePanel = ({ record, asOf, onRecord, onClose }: { record: DealRecord, asOf: string, onRecord: (record: DealRecord) => Promise<void>, onClose: () => void }) => {
+  const { deal } = record;
+  const events: LifecycleEvent[] = record.events ?? [];
+  const [action, setAction] = useState<LifecycleAction>('PartialUnwind');
+  const [eventDate, setEventDate] = useState(asOf);
+  const [unwindPct, setUnwindPct] = useState(25);
+  const [fee, setFee] = useState(0);
+  const [feeCurrency, setFeeCurrency] = useState(deal.leg2.currency);
+  const [counterparty, setCounterparty] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setError('');
+    setFeeCurrency(deal.leg2.currency);
+  }, [deal.id, deal.leg2.currency]);
+
+  const apply = async (next: () => DealRecord) => {
+    try {
+      await onRecord(next());
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unable to record the event.');
+    }
+  };
+
+  const submit = () => apply(() => {
+    switch (action) {
+      case 'PartialUnwind':
+        return partialUnwind(record, eventDate, unwindPct / 100, fee, feeCurrency);
+      case 'EarlyTermination':
+        return terminateDeal(record, eventDate, fee, feeCurrency);
+      case 'Novation':
+        return novateDeal(record, eventDate, counterparty);
+    }
   });
 
+  const inputClass = "w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 text-sm font-medium";
+
+  return (
+    <div className="mt-6 bg-white rounded-xl border border-gray-200 shadow-sm animate-in fade-in duration-300">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50 rounded-t-xl">
+        <div className="flex items-center gap-3">
+          <h3 className="font-bold text-gray-900">{deal.id} Lifecycle</h3>
+          <span className={`px-2.5 py-0.5 rounded-full text-xs font-bold ${STATUS_STYLES[deal.status || 'Active']}`}>{deal.status || 'Active'}</span>
+          <span className={`px-2.5 py-0.5 rounded-full text-xs font-bold ${isConfirmed(events) ? 'bg-blue-100 text-blue-800' : 'bg-orange-100 text-orange-800'}`}>{isConfirmed(events) ? 'Confirmed' : 'Unconfirmed'}</span>
+          {deal.counterparty && <span className="text-sm text-gray-500">vs {deal.counterparty}</span>}
+        </div>
+        <button onClick={onClose} className="p-1.5 rounded-md text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors"><span className="material-symbols-outlined text-lg">close</span></button>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-6">
+        <div>
+          <h4 className="text-xs uppercase font-semibold tracking-wide text-gray-500 mb-3">Event History</h4>
+          {events.length === 0 ? (
+            <p className="text-sm text-gray-500">No events recorded for this deal yet.</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2 flex flex-col gap-4">
+              {events.map(event => (
+                <li key={event.id} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 size-3 rounded-full bg-primary border-2 border-white"></div>
+                  <p className="text-sm font-bold text-gray-900">{LIFECYCLE_EVENT_LABELS[event.type]} <span className="font-normal text-gray-500">· effective {event.date}</span></p>
+                  <p className="text-sm text-gray-600">{event.description}</p>
+                  {event.changes && (
+                    <ul className="mt-1 text-xs text-gray-500 list-disc list-inside">
+                      {event.changes.map(change => <li key={change}>{change}</li>)}
+                    </ul>
+                  )}
+                  <p className="text-xs text-gray-400 mt-0.5">Recorded {new Date(event.recordedAt).toLocaleString()}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+        <div className="flex flex-col gap-4">
+          <h4 className="text-xs uppercase font-semibold tracking-wide text-gray-500">Record Event</h4>
+          {!isConfirmed(events) && (
+            <button onClick={() => apply(() => confirmDeal(record, eventDate))} className="self-start px-4 py-2 rounded-lg border border-gray-300 text-sm font-bold text-gray-700 hover:bg-gray-50 flex items-center gap-2 transition-colors">
+              <span className="material-symbols-outlined text-sm">verified</span>
+              Confirm Trade
+            </button>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <label>
+              <span className="text-sm font-medium text-gray-600 mb-1 block">Event</span>
+              <select className={inputClass} value={action} onChange={e => setAction(e.target.value as LifecycleAction)}>
+                <option value="PartialUnwind">{LIFECYCLE_EVENT_LABELS.PartialUnwind}</option>
+                <option value="EarlyTermination">{LIFECYCLE_EVENT_LABELS.EarlyTermination}</option>
+                <option value="Novation">{LIFECYCLE_EVENT_LABELS.Novation}</option>
+              </select>
+            </label>
+            <label>
+              <span className="text-sm font-medium text-gray-600 mb-1 block">Effective Date</span>
+              <input type="date" className={inputClass} value={eventDate} onChange={e => setEventDate(e.target.value)} />
+            </label>
+            {action === 'PartialUnwind' && (
+              <label>
+                <span className="text-sm font-medium text-gray-600 mb-1 block">Unwound (%)</span>
+                <input type="number" min="0" max="100" step="0.01" className={inputClass} value={unwindPct} onChange={e => setUnwindPct(Number(e.target.value))} />
+              </label>
+            )}
+            {action !== 'Novation' && (
+              <>
+                <label>
+                  <span className="text-sm font-medium text-gray-600 mb-1 block">Fee (+ received / − paid)</span>
+                  <input type="number" step="0.01" className={inputClass} value={fee} onChange={e => setFee(Number(e.target.value))} />
+                </label>
+                <label>
+                  <span className="text-sm font-medium text-gray-600 mb-1 block">Fee Currency</span>
+                  <select className={inputClass} value={feeCurrency} onChange={e => setFeeCurrency(e.target.value)}>
+                    {Array.from(new Set([deal.leg1.currency, deal.leg2.currency])).map(ccy => <option key={ccy} value={ccy}>{ccy}</option>)}
+                  </select>
+                </label>
+              </>
+            )}
+            {action === 'Novation' && (
+              <label>
+                <span className="text-sm font-medium text-gray-600 mb-1 block">New Counterparty</span>
+                <input type="text" className={inputClass} value={counterparty} onChange={e => setCounterparty(e.target.value)} />
+              </label>
+            )}
+          </div>
+          <button onClick={submit} className="self-start px-4 py-2 rounded-lg bg-primary text-white text-sm font-bold shadow-sm hover:bg-blue-600 flex items-center gap-2 transition-all">
+            <span className="material-symbols-outlined text-sm">event</span>
+            Record {LIFECYCLE_EVENT_LABELS[action]}
+          </button>
+          {error && <p className="text-negative text-sm font-medium">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const BUSINESS_DAY_CONVENTIONS: { value: BusinessDayConvention, label: string }[] = [
+  { value: 'ModifiedFollowing', label: 'Modified Following' },
+  { value: 'Following', label: 'Following' },
+  { value: 'ModifiedPreceding', label: 'Modified Preceding' },
+  { value: 'Preceding', label: 'Preceding' },
+  { value: 'Unadjusted', label: 'Unadjusted' }
+];
+
+// Empty numeric inputs become NaN rather than 0, so validation can tell a missing value from a zero
+const numberInput = (value: string): number => value === '' ? NaN : Number(value);
+const numberValue = (value: number): number | string => Number.isNaN(value) ? '' : value;
+
+const ISSUE_STYLES: Record<DealIssue['severity'], string> = {
+  error: 'text-negative',
+  warning: 'text-yellow-700'
+};
+
+const issueLine = (issue: DealIssue, i: number) => (
+  <span key={i} className={`mt-1 flex items-start gap-1 text-xs font-medium ${ISSUE_STYLES[issue.severity]}`}>
+    <span className="material-symbols-outlined text-sm">{issue.severity === 'error' ? 'error' : 'warning'}</span>
+    {issue.message}
+  </span>
+);
+
+const FieldIssues = ({ issues, field }: { issues: DealIssue[], field: string }) => (
+  <>{issues.filter(i => i.field === field).map(issueLine)}</>
+);
+
+// Leg-level rules that have no single input to sit under
+const LegIssues = ({ issues, leg, fields }: { issues: DealIssue[], leg: 'leg1' | 'leg2', fields: string[] }) => {
+  const matching = issues.filter(i => fields.some(field => i.field === `${leg}.${field}`));
+  if (matching.length === 0) return null;
+  return <div className="flex flex-col -mt-4">{matching.map(issueLine)}</div>;
+};
+
+const ROLL_DAYS = Array.from({ length: 31 }, (_, i) => i + 1);
+
+// Stubs, roll day, lags and notional steps, shared by both legs
+const LegScheduleFields = ({ leg, legKey, startDate, issues, onChange }: { leg: SwapLeg, legKey: 'leg1' | 'leg2', startDate: string, issues: DealIssue[], onChange: (leg: SwapLeg) => void }) => {
+  const steps = leg.notionalSchedule ?? [];
+  // Term indices are never a currency's default, so a term leg always names its index
+  const index = leg.type === 'Floating' && leg.index ? RATE_INDICES[leg.index] : undefined;
+  const setSteps = (next: NotionalStep[]) => onChange({ ...leg, notionalSchedule: next.length ? next : undefined });
+  const updateStep = (i: number, step: NotionalStep) => setSteps(steps.map((s, j) => j === i ? step : s));
+  // Each new step starts a year after the previous one, at the same notional
+  const addStep = () => {
+    const last = steps[steps.length - 1];
+    setSteps([...steps, { date: formatDate(addTenor(parseDate(last?.date ?? startDate), '1Y')), notional: last?.notional ?? leg.notional }]);
+  };
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-4">
+         <label>
+            <span className="text-sm font-medium text-gray-600 mb-1 block">Date Generation</span>
+            <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={leg.dateGeneration ?? 'Forward'} onChange={e => onChange({...leg, dateGeneration: e.target.value as DateGeneration})}>
+              <option value="Forward">Forward (stub at end)</option>
+              <option value="Backward">Backward (stub at start)</option>
+            </select>
+         </label>
+         <label>
+            <span className="text-sm font-medium text-gray-600 mb-1 block">Stub</span>
+            <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={leg.stub ?? 'Short'} onChange={e => onChange({...leg, stub: e.target.value as StubType})}>
+              {STUB_TYPES.map(stub => <option key={stub} value={stub}>{stub}</option>)}
+            </select>
+         </label>
+         <label>
+            <span className="text-sm font-medium text-gray-600 mb-1 block">Roll Day</span>
+            <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={leg.rollDay ?? ''} onChange={e => onChange({...leg, rollDay: e.target.value === '' ? undefined : e.target.value === 'IMM' ? 'IMM' : Number(e.target.value)})}>
+              <option value="">From the dates</option>
+              <option value="IMM">IMM (3rd Wednesday)</option>
+              {ROLL_DAYS.map(day => <option key={day} value={day}>{day}</option>)}
+            </select>
+            <FieldIssues issues={issues} field={`${legKey}.rollDay`} />
+         </label>
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+         <label>
+            <span className="text-sm font-medium text-gray-600 mb-1 block">Payment Lag (days)</span>
+            <input type="number" min="0" className="w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={numberValue(leg.paymentLagDays ?? 0)} onChange={e => onChange({...leg, paymentLagDays: numberInput(e.target.value)})} />
+            <FieldIssues issues={issues} field={`${legKey}.paymentLagDays`} />
+         </label>
+         {index?.style === 'Term' && (
+         <label>
+            <span className="text-sm font-medium text-gray-600 mb-1 block">Fixing Lag (days)</span>
+            <input type="number" min="0" placeholder={`${index.fixingLagDays} (${index.code})`} className="w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={leg.fixingLagDays === undefined ? '' : numberValue(leg.fixingLagDays)} onChange={e => onChange({...leg, fixingLagDays: e.target.value === '' ? undefined : numberInput(e.target.value)})} />
+            <FieldIssues issues={issues} field={`${legKey}.fixingLagDays`} />
+         </label>
+         )}
+      </div>
+      <div>
+         <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium text-gray-600">Notional Schedule</span>
+            <button onClick={addStep} className="px-2 py-1 rounded-lg border border-gray-300 text-xs font-medium text-gray-700 hover:bg-gray-50 transition-colors flex items-center gap-1">
+              <span className="material-symbols-outlined text-sm">add</span>
+              Add Step
+            </button>
+         </div>
+         {steps.length === 0 ? (
+           <p className="text-xs text-gray-400">Constant notional. Add steps for an amortising or accreting leg.</p>
+         ) : (
+           <div className="flex flex-col gap-2">
+             {steps.map((step, i) => (
+               <div key={i} className="flex items-center gap-2">
+                 <input type="date" className="form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium text-sm" value={step.date} onChange={e => updateStep(i, {...step, date: e.target.value})} />
+                 <input type="number" className="flex-1 form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium text-sm" value={numberValue(step.notional)} onChange={e => updateStep(i, {...step, notional: numberInput(e.target.value)})} />
+                 <button onClick={() => setSteps(steps.filter((_, j) => j !== i))} title="Remove step" className="text-gray-400 hover:text-negative"><span className="material-symbols-outlined text-sm">close</span></button>
+               </div>
+             ))}
+           </div>
+         )}
+         <FieldIssues issues={issues} field={`${legKey}.notionalSchedule`} />
+      </div>
+    </>
+  );
+};
+
+// The settings' default template, falling back to the first built-in when it has been deleted
+const defaultTemplate = (templates: DealTemplate[], settings: AppSettings): DealTemplate =>
+  templates.find(t => t.id === settings.defaultTemplateId)
+  ?? BUILT_IN_TEMPLATES.find(t => t.id === DEFAULT_SETTINGS.defaultTemplateId)
+  ?? BUILT_IN_TEMPLATES[0];
+
+// A fresh deal is built from the default template each time, so its dates follow the valuation date rule
+const newPricerDeal = (template: DealTemplate, settings: AppSettings): SwapDeal =>
+  dealFromTemplate(template, resolveValuationDate(settings), settings.legCalendars);
+
+const PricerForm = ({ onCalculate, initialDeal, market, settings, snapshots, snapshotId, onSnapshotChange }: { onCalculate: (deal: SwapDeal) => Promise<void>, initialDeal?: SwapDeal | null, market: MarketData, settings: AppSettings, snapshots: MarketSnapshot[], snapshotId: string, onSnapshotChange: (id: string) => void }) => {
+  const [templates, setTemplates] = useState<DealTemplate[]>(BUILT_IN_TEMPLATES);
+  const [deal, setDeal] = useState<SwapDeal>(() => initialDeal ?? newPricerDeal(defaultTemplate(templates, settings), settings));
+  const [error, setError] = useState('');
+  const [templateId, setTemplateId] = useState(initialDeal ? '' : defaultTemplate(templates, settings).id);
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [templateMessage, setTemplateMessage] = useState('');
+  const issues = useMemo(() => validateDeal(deal, market), [deal, market]);
+  const blocked = hasErrors(issues);
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+
+  // Reset the form whenever a different deal is opened for editing
+  useEffect(() => {
+    setDeal(initialDeal ?? newPricerDeal(defaultTemplate(templates, settings), settings));
+    setTemplateId(initialDeal ? '' : defaultTemplate(templates, settings).id);
+    setError('');
+  }, [initialDeal]);
+
+  useEffect(() => {
+    templateRepository.list()
+      .then(list => {
+        setTemplates(list);
+        // A saved default template is only known once the list has loaded
+        const template = defaultTemplate(list, settings);
+        if (!initialDeal && !template.builtIn) {
+          setDeal(newPricerDeal(template, settings));
+          setTemplateId(template.id);
+        }
+      })
+      .catch(e => console.error("Failed to load templates:", e));
+  }, []);
+
+  const handleTemplateChange = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    setTemplateId(id);
+    if (template) setDeal(applyTemplate(template, deal));
+  };
+
+  const handleSaveTemplate = async () => {
+    if (templateName === null) return;
+    try {
+      const saved = await templateRepository.save(templateFromDeal(templateName, deal));
+      setTemplates(await templateRepository.list());
+      setTemplateId(saved.id);
+      setTemplateName(null);
+      setTemplateMessage(`Saved template "${saved.name}".`);
+    } catch (e) {
+      setTemplateMessage(e instanceof Error ? e.message : 'Unable to save the template.');
+    }
+  };
+
+  const handleRemoveTemplate = async () => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template || template.builtIn || !window.confirm(`Delete the template "${template.name}"?`)) return;
+    try {
+      await templateRepository.remove(template.id);
+      setTemplates(await templateRepository.list());
+      setTemplateId('');
+      setTemplateMessage('');
+    } catch (e) {
+      setTemplateMessage(e instanceof Error ? e.message : 'Unable to delete the template.');
+    }
+  };
+
+  const selectedTemplate = templates.find(t => t.id === templateId);
+
+  const handleSubmit = async () => {
+    if (blocked) return;
+    try {
+      await onCalculate(deal);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unable to price the deal.');
+    }
+  };
+
   return (
     <div className="p-4 md:p-8 max-w-7xl mx-auto w-full animate-in slide-in-from-bottom-4 duration-500">
       <div className="mb-8">
-        <h1 className="text-3xl font-black tracking-tight text-gray-900">Pricing Input</h1>
+        <h1 className="text-3xl font-black tracking-tight text-gray-900">{deal.id ? `Edit ${deal.id}` : 'Pricing Input'}</h1>
         <p className="text-gray-500">Enter swap parameters to calculate NPV and risk metrics.</p>
       </div>
 
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 mb-6 flex flex-wrap items-center gap-4">
+        <span className="material-symbols-outlined text-gray-400">library_books</span>
+        <label className="flex items-center gap-3 flex-1 min-w-64">
+          <span className="text-sm font-medium text-gray-600 whitespace-nowrap">Template</span>
+          <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium text-gray-900" value={templateId} onChange={e => handleTemplateChange(e.target.value)}>
+            <option value="">Custom</option>
+            <optgroup label="Market presets">
+              {templates.filter(t => t.builtIn).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </optgroup>
+            {templates.some(t => !t.builtIn) && (
+              <optgroup label="Saved templates">
+                {templates.filter(t => !t.builtIn).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        {selectedTemplate && <span className="text-xs text-gray-400">{selectedTemplate.tenor} · {selectedTemplate.leg1.currency} {selectedTemplate.leg1.type} vs {selectedTemplate.leg2.currency} {selectedTemplate.leg2.type}</span>}
+        {selectedTemplate && !selectedTemplate.builtIn && (
+          <button onClick={handleRemoveTemplate} title="Delete template" className="p-1.5 rounded-md text-gray-400 hover:text-negative hover:bg-negative/10 transition-colors"><span className="material-symbols-outlined text-lg">delete</span></button>
+        )}
+      </div>
+
       <div className="flex flex-col gap-6">
         {/* General Details */}
         <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
            <h3 className="text-lg font-bold mb-4 pb-4 border-b border-gray-100 text-gray-900">General Details</h3>
            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <label className="flex flex-col gap-2">
+                 <span className="text-sm font-medium text-gray-600">Counterparty</span>
+                 <input type="text" className="form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium text-gray-900" value={deal.counterparty ?? ''} onChange={e => setDeal({...deal, counterparty: e.target.value || undefined})} />
+              </label>
+              <label className="flex flex-col gap-2">
+                 <span className="text-sm font-medium text-gray-600">Market Data</span>
+                 <select className="form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium text-gray-900" value={snapshotId} onChange={e => onSnapshotChange(e.target.value)}>
+                    <option value="">Working market (Curves page)</option>
+                    {snapshots.map(s => <option key={s.id} value={s.id}>{s.asOf} · {s.name}</option>)}
+                 </select>
+              </label>
+              <label className="flex flex-col gap-2">
+                 <span className="text-sm font-medium text-gray-600">Trade Date</span>
+                 <input type="date" className="form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium text-gray-900" value={deal.tradeDate ?? deal.valueDate} onChange={e => setDeal({...deal, tradeDate: e.target.value || undefined})} />
+                 <FieldIssues issues={issues} field="tradeDate" />
+              </label>
               <label className="flex flex-col gap-2">
                  <span className="text-sm font-medium text-gray-600">Value Date</span>
                  <input type="date" className="form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium text-gray-900" value={deal.valueDate} onChange={e => setDeal({...deal, valueDate: e.target.value})} />
+                 <FieldIssues issues={issues} field="valueDate" />
               </label>
               <label className="flex flex-col gap-2">
                  <span className="text-sm font-medium text-gray-600">Start Date</span>
                  <input type="date" className="form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium text-gray-900" value={deal.startDate} onChange={e => setDeal({...deal, startDate: e.target.value})} />
+                 <FieldIssues issues={issues} field="startDate" />
               </label>
               <label className="flex flex-col gap-2">
                  <span className="text-sm font-medium text-gray-600">End Date</span>
                  <input type="date" className="form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium text-gray-900" value={deal.endDate} onChange={e => setDeal({...deal, endDate: e.target.value})} />
+                 <FieldIssues issues={issues} field="endDate" />
               </label>
            </div>
         </div>
@@ -282,11 +1277,11 @@ const PricerForm = ({ onCalculate }: { onCalculate: (deal: SwapDeal) => void })
                 <h3 className="font-bold text-gray-900">Leg 1 (Payer)</h3>
                 <div className="flex items-center gap-1 bg-gray-200 p-1 rounded-lg">
                    <button 
-                     onClick={() => setDeal({...deal, leg1: {...deal.leg1, type: 'Floating'}})}
+                     onClick={() => setDeal({...deal, leg1: applyLegPreset(deal.leg1, deal.leg1.currency, 'Floating', settings.legCalendars)})}
                      className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${deal.leg1.type === 'Floating' ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
                    >Floating</button>
                    <button 
-                     onClick={() => setDeal({...deal, leg1: {...deal.leg1, type: 'Fixed'}})}
+                     onClick={() => setDeal({...deal, leg1: applyLegPreset(deal.leg1, deal.leg1.currency, 'Fixed', settings.legCalendars)})}
                      className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${deal.leg1.type === 'Fixed' ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
                    >Fixed</button>
                 </div>
@@ -295,19 +1290,22 @@ const PricerForm = ({ onCalculate }: { onCalculate: (deal: SwapDeal) => void })
                 <label className="relative">
                    <span className="text-sm font-medium text-gray-600 mb-1 block">Notional</span>
                    <span className="absolute left-3 top-9 text-gray-400 material-symbols-outlined text-lg">attach_money</span>
-                   <input type="number" className="w-full pl-10 form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg1.notional} onChange={e => setDeal({...deal, leg1: {...deal.leg1, notional: Number(e.target.value)}})} />
+                   <input type="number" className="w-full pl-10 form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={numberValue(deal.leg1.notional)} onChange={e => setDeal({...deal, leg1: {...deal.leg1, notional: numberInput(e.target.value)}})} />
+                   <FieldIssues issues={issues} field="leg1.notional" />
                 </label>
                 <div className="grid grid-cols-2 gap-4">
                    <label>
                       <span className="text-sm font-medium text-gray-600 mb-1 block">Currency</span>
-                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg1.currency} onChange={e => setDeal({...deal, leg1: {...deal.leg1, currency: e.target.value}})}>
-                        <option>USD</option><option>BRL</option><option>EUR</option><option>JPY</option><option>GBP</option>
+                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg1.currency} onChange={e => setDeal({...deal, leg1: applyLegPreset(deal.leg1, e.target.value, deal.leg1.type, settings.legCalendars)})}>
+                        {SUPPORTED_CURRENCIES.map(ccy => <option key={ccy}>{ccy}</option>)}
                       </select>
+                      <FieldIssues issues={issues} field="leg1.currency" />
                    </label>
                    <label className="relative">
                       <span className="text-sm font-medium text-gray-600 mb-1 block">{deal.leg1.type === 'Floating' ? 'Spread' : 'Rate'} (%)</span>
-                      <input type="number" step="0.01" className="w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg1.rate} onChange={e => setDeal({...deal, leg1: {...deal.leg1, rate: Number(e.target.value)}})} />
+                      <input type="number" step="0.01" className="w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={numberValue(deal.leg1.rate)} onChange={e => setDeal({...deal, leg1: {...deal.leg1, rate: numberInput(e.target.value)}})} />
                       <span className="absolute right-3 top-9 text-gray-400 font-medium">%</span>
+                      <FieldIssues issues={issues} field="leg1.rate" />
                    </label>
                 </div>
                 <div className="grid grid-cols-2 gap-4">
@@ -319,46 +1317,109 @@ const PricerForm = ({ onCalculate }: { onCalculate: (deal: SwapDeal) => void })
                    </label>
                    <label>
                       <span className="text-sm font-medium text-gray-600 mb-1 block">Convention</span>
-                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg1.convention} onChange={e => setDeal({...deal, leg1: {...deal.leg1, convention: e.target.value}})}>
-                        <option>Actual/365</option><option>30/360</option><option>Actual/360</option>
+                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg1.convention} onChange={e => setDeal({...deal, leg1: {...deal.leg1, convention: e.target.value as DayCountConvention}})}>
+                        {DAY_COUNT_CONVENTIONS.map(dc => <option key={dc.value} value={dc.value}>{dc.label}</option>)}
                       </select>
                    </label>
                 </div>
-             </div>
-          </div>
-
-          {/* Leg 2 */}
-           <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
-             <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50 rounded-t-xl">
-                <h3 className="font-bold text-gray-900">Leg 2 (Receiver)</h3>
-                <div className="flex items-center gap-1 bg-gray-200 p-1 rounded-lg">
-                   <button 
-                     onClick={() => setDeal({...deal, leg2: {...deal.leg2, type: 'Floating'}})}
-                     className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${deal.leg2.type === 'Floating' ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
-                   >Floating</button>
-                   <button 
-                     onClick={() => setDeal({...deal, leg2: {...deal.leg2, type: 'Fixed'}})}
-                     className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${deal.leg2.type === 'Fixed' ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
-                   >Fixed</button>
-                </div>
-             </div>
-             <div className="p-6 grid gap-6">
+                <div className="grid grid-cols-2 gap-4">
+                   <label>
+                      <span className="text-sm font-medium text-gray-600 mb-1 block">Calendar</span>
+                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg1.calendar || ''} onChange={e => setDeal({...deal, leg1: {...deal.leg1, calendar: e.target.value || undefined}})}>
+                        <option value="">Default ({defaultCalendar(deal.leg1.currency)})</option>
+                        {deal.leg1.currency !== deal.leg2.currency && (
+                          <option value={jointCalendar(defaultCalendar(deal.leg1.currency), defaultCalendar(deal.leg2.currency))}>Joint ({jointCalendar(defaultCalendar(deal.leg1.currency), defaultCalendar(deal.leg2.currency))})</option>
+                        )}
+                        {CALENDAR_CODES.map(code => <option key={code} value={code}>{calendarName(code)}</option>)}
+                      </select>
+                   </label>
+                   <label>
+                      <span className="text-sm font-medium text-gray-600 mb-1 block">Business Day</span>
+                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg1.businessDayConvention ?? 'ModifiedFollowing'} onChange={e => setDeal({...deal, leg1: {...deal.leg1, businessDayConvention: e.target.value as BusinessDayConvention}})}>
+                        {BUSINESS_DAY_CONVENTIONS.map(bdc => <option key={bdc.value} value={bdc.value}>{bdc.label}</option>)}
+                      </select>
+                   </label>
+                </div>
+                <div className="flex flex-wrap gap-x-6 gap-y-2">
+                   <label className="flex items-center gap-2 text-sm font-medium text-gray-600">
+                      <input type="checkbox" className="form-checkbox rounded border-gray-300 text-primary focus:ring-primary/20" checked={!!deal.leg1.endOfMonth} onChange={e => setDeal({...deal, leg1: {...deal.leg1, endOfMonth: e.target.checked}})} />
+                      Roll on month end (EOM)
+                   </label>
+                   <label className="flex items-center gap-2 text-sm font-medium text-gray-600">
+                      <input type="checkbox" className="form-checkbox rounded border-gray-300 text-primary focus:ring-primary/20" checked={!!deal.leg1.initialExchange} onChange={e => setDeal({...deal, leg1: {...deal.leg1, initialExchange: e.target.checked}})} />
+                      Initial exchange
+                   </label>
+                   <label className="flex items-center gap-2 text-sm font-medium text-gray-600">
+                      <input type="checkbox" className="form-checkbox rounded border-gray-300 text-primary focus:ring-primary/20" checked={!!deal.leg1.finalExchange} onChange={e => setDeal({...deal, leg1: {...deal.leg1, finalExchange: e.target.checked}})} />
+                      Final exchange
+                   </label>
+                   <label className={`flex items-center gap-2 text-sm font-medium ${deal.leg1.currency === deal.leg2.currency ? 'text-gray-300' : 'text-gray-600'}`}>
+                      <input type="checkbox" disabled={deal.leg1.currency === deal.leg2.currency} className="form-checkbox rounded border-gray-300 text-primary focus:ring-primary/20" checked={!!deal.leg1.notionalReset} onChange={e => setDeal({...deal, leg1: {...deal.leg1, notionalReset: e.target.checked}})} />
+                      MtM notional reset
+                   </label>
+                </div>
+                <LegIssues issues={issues} leg="leg1" fields={['type', 'frequency', 'convention', 'calendar', 'businessDayConvention', 'notionalReset', 'dateGeneration', 'stub']} />
+                <LegScheduleFields leg={deal.leg1} legKey="leg1" startDate={deal.startDate} issues={issues} onChange={leg1 => setDeal({...deal, leg1})} />
+                {deal.leg1.type === 'Floating' && (
+                <div className="grid grid-cols-3 gap-4">
+                   <label>
+                      <span className="text-sm font-medium text-gray-600 mb-1 block">Index</span>
+                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg1.index || ''} onChange={e => setDeal({...deal, leg1: {...deal.leg1, index: e.target.value || undefined}})}>
+                        <option value="">Default</option>
+                        {indicesForCurrency(deal.leg1.currency).map(idx => <option key={idx.code} value={idx.code}>{idx.name}</option>)}
+                      </select>
+                      <FieldIssues issues={issues} field="leg1.index" />
+                   </label>
+                   <label>
+                      <span className="text-sm font-medium text-gray-600 mb-1 block">Lookback (days)</span>
+                      <input type="number" min="0" className="w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={numberValue(deal.leg1.lookbackDays ?? 0)} onChange={e => setDeal({...deal, leg1: {...deal.leg1, lookbackDays: numberInput(e.target.value)}})} />
+                      <FieldIssues issues={issues} field="leg1.lookbackDays" />
+                   </label>
+                   <label>
+                      <span className="text-sm font-medium text-gray-600 mb-1 block">Lockout (days)</span>
+                      <input type="number" min="0" className="w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={numberValue(deal.leg1.lockoutDays ?? 0)} onChange={e => setDeal({...deal, leg1: {...deal.leg1, lockoutDays: numberInput(e.target.value)}})} />
+                      <FieldIssues issues={issues} field="leg1.lockoutDays" />
+                   </label>
+                </div>
+                )}
+             </div>
+          </div>
+
+          {/* Leg 2 */}
+           <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+             <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50 rounded-t-xl">
+                <h3 className="font-bold text-gray-900">Leg 2 (Receiver)</h3>
+                <div className="flex items-center gap-1 bg-gray-200 p-1 rounded-lg">
+                   <button 
+                     onClick={() => setDeal({...deal, leg2: applyLegPreset(deal.leg2, deal.leg2.currency, 'Floating', settings.legCalendars)})}
+                     className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${deal.leg2.type === 'Floating' ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                   >Floating</button>
+                   <button 
+                     onClick={() => setDeal({...deal, leg2: applyLegPreset(deal.leg2, deal.leg2.currency, 'Fixed', settings.legCalendars)})}
+                     className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${deal.leg2.type === 'Fixed' ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                   >Fixed</button>
+                </div>
+             </div>
+             <div className="p-6 grid gap-6">
                 <label className="relative">
                    <span className="text-sm font-medium text-gray-600 mb-1 block">Notional</span>
                    <span className="absolute left-3 top-9 text-gray-400 material-symbols-outlined text-lg">euro</span>
-                   <input type="number" className="w-full pl-10 form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg2.notional} onChange={e => setDeal({...deal, leg2: {...deal.leg2, notional: Number(e.target.value)}})} />
+                   <input type="number" className="w-full pl-10 form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={numberValue(deal.leg2.notional)} onChange={e => setDeal({...deal, leg2: {...deal.leg2, notional: numberInput(e.target.value)}})} />
+                   <FieldIssues issues={issues} field="leg2.notional" />
                 </label>
                 <div className="grid grid-cols-2 gap-4">
                    <label>
                       <span className="text-sm font-medium text-gray-600 mb-1 block">Currency</span>
-                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg2.currency} onChange={e => setDeal({...deal, leg2: {...deal.leg2, currency: e.target.value}})}>
-                        <option>USD</option><option>BRL</option><option>EUR</option><option>JPY</option><option>GBP</option>
+                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg2.currency} onChange={e => setDeal({...deal, leg2: applyLegPreset(deal.leg2, e.target.value, deal.leg2.type, settings.legCalendars)})}>
+                        {SUPPORTED_CURRENCIES.map(ccy => <option key={ccy}>{ccy}</option>)}
                       </select>
+                      <FieldIssues issues={issues} field="leg2.currency" />
                    </label>
                    <label className="relative">
                       <span className="text-sm font-medium text-gray-600 mb-1 block">{deal.leg2.type === 'Floating' ? 'Spread' : 'Rate'} (%)</span>
-                      <input type="number" step="0.01" className="w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg2.rate} onChange={e => setDeal({...deal, leg2: {...deal.leg2, rate: Number(e.target.value)}})} />
+                      <input type="number" step="0.01" className="w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={numberValue(deal.leg2.rate)} onChange={e => setDeal({...deal, leg2: {...deal.leg2, rate: numberInput(e.target.value)}})} />
                       <span className="absolute right-3 top-9 text-gray-400 font-medium">%</span>
+                      <FieldIssues issues={issues} field="leg2.rate" />
                    </label>
                 </div>
                 <div className="grid grid-cols-2 gap-4">
@@ -370,22 +1431,98 @@ const PricerForm = ({ onCalculate }: { onCalculate: (deal: SwapDeal) => void })
                    </label>
                    <label>
                       <span className="text-sm font-medium text-gray-600 mb-1 block">Convention</span>
-                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg2.convention} onChange={e => setDeal({...deal, leg2: {...deal.leg2, convention: e.target.value}})}>
-                        <option>Actual/365</option><option>30/360</option><option>Actual/360</option>
+                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg2.convention} onChange={e => setDeal({...deal, leg2: {...deal.leg2, convention: e.target.value as DayCountConvention}})}>
+                        {DAY_COUNT_CONVENTIONS.map(dc => <option key={dc.value} value={dc.value}>{dc.label}</option>)}
+                      </select>
+                   </label>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                   <label>
+                      <span className="text-sm font-medium text-gray-600 mb-1 block">Calendar</span>
+                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg2.calendar || ''} onChange={e => setDeal({...deal, leg2: {...deal.leg2, calendar: e.target.value || undefined}})}>
+                        <option value="">Default ({defaultCalendar(deal.leg2.currency)})</option>
+                        {deal.leg2.currency !== deal.leg1.currency && (
+                          <option value={jointCalendar(defaultCalendar(deal.leg1.currency), defaultCalendar(deal.leg2.currency))}>Joint ({jointCalendar(defaultCalendar(deal.leg1.currency), defaultCalendar(deal.leg2.currency))})</option>
+                        )}
+                        {CALENDAR_CODES.map(code => <option key={code} value={code}>{calendarName(code)}</option>)}
+                      </select>
+                   </label>
+                   <label>
+                      <span className="text-sm font-medium text-gray-600 mb-1 block">Business Day</span>
+                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg2.businessDayConvention ?? 'ModifiedFollowing'} onChange={e => setDeal({...deal, leg2: {...deal.leg2, businessDayConvention: e.target.value as BusinessDayConvention}})}>
+                        {BUSINESS_DAY_CONVENTIONS.map(bdc => <option key={bdc.value} value={bdc.value}>{bdc.label}</option>)}
                       </select>
                    </label>
                 </div>
+                <div className="flex flex-wrap gap-x-6 gap-y-2">
+                   <label className="flex items-center gap-2 text-sm font-medium text-gray-600">
+                      <input type="checkbox" className="form-checkbox rounded border-gray-300 text-primary focus:ring-primary/20" checked={!!deal.leg2.endOfMonth} onChange={e => setDeal({...deal, leg2: {...deal.leg2, endOfMonth: e.target.checked}})} />
+                      Roll on month end (EOM)
+                   </label>
+                   <label className="flex items-center gap-2 text-sm font-medium text-gray-600">
+                      <input type="checkbox" className="form-checkbox rounded border-gray-300 text-primary focus:ring-primary/20" checked={!!deal.leg2.initialExchange} onChange={e => setDeal({...deal, leg2: {...deal.leg2, initialExchange: e.target.checked}})} />
+                      Initial exchange
+                   </label>
+                   <label className="flex items-center gap-2 text-sm font-medium text-gray-600">
+                      <input type="checkbox" className="form-checkbox rounded border-gray-300 text-primary focus:ring-primary/20" checked={!!deal.leg2.finalExchange} onChange={e => setDeal({...deal, leg2: {...deal.leg2, finalExchange: e.target.checked}})} />
+                      Final exchange
+                   </label>
+                   <label className={`flex items-center gap-2 text-sm font-medium ${deal.leg2.currency === deal.leg1.currency ? 'text-gray-300' : 'text-gray-600'}`}>
+                      <input type="checkbox" disabled={deal.leg2.currency === deal.leg1.currency} className="form-checkbox rounded border-gray-300 text-primary focus:ring-primary/20" checked={!!deal.leg2.notionalReset} onChange={e => setDeal({...deal, leg2: {...deal.leg2, notionalReset: e.target.checked}})} />
+                      MtM notional reset
+                   </label>
+                </div>
+                <LegIssues issues={issues} leg="leg2" fields={['type', 'frequency', 'convention', 'calendar', 'businessDayConvention', 'notionalReset', 'dateGeneration', 'stub']} />
+                <LegScheduleFields leg={deal.leg2} legKey="leg2" startDate={deal.startDate} issues={issues} onChange={leg2 => setDeal({...deal, leg2})} />
+                {deal.leg2.type === 'Floating' && (
+                <div className="grid grid-cols-3 gap-4">
+                   <label>
+                      <span className="text-sm font-medium text-gray-600 mb-1 block">Index</span>
+                      <select className="w-full form-select rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={deal.leg2.index || ''} onChange={e => setDeal({...deal, leg2: {...deal.leg2, index: e.target.value || undefined}})}>
+                        <option value="">Default</option>
+                        {indicesForCurrency(deal.leg2.currency).map(idx => <option key={idx.code} value={idx.code}>{idx.name}</option>)}
+                      </select>
+                      <FieldIssues issues={issues} field="leg2.index" />
+                   </label>
+                   <label>
+                      <span className="text-sm font-medium text-gray-600 mb-1 block">Lookback (days)</span>
+                      <input type="number" min="0" className="w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={numberValue(deal.leg2.lookbackDays ?? 0)} onChange={e => setDeal({...deal, leg2: {...deal.leg2, lookbackDays: numberInput(e.target.value)}})} />
+                      <FieldIssues issues={issues} field="leg2.lookbackDays" />
+                   </label>
+                   <label>
+                      <span className="text-sm font-medium text-gray-600 mb-1 block">Lockout (days)</span>
+                      <input type="number" min="0" className="w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 font-medium" value={numberValue(deal.leg2.lockoutDays ?? 0)} onChange={e => setDeal({...deal, leg2: {...deal.leg2, lockoutDays: numberInput(e.target.value)}})} />
+                      <FieldIssues issues={issues} field="leg2.lockoutDays" />
+                   </label>
+                </div>
+                )}
              </div>
           </div>
         </div>
 
-        <div className="flex justify-end gap-4 border-t border-gray-200 pt-6">
-           <button className="px-4 py-2.5 rounded-lg border border-gray-300 font-medium text-gray-700 hover:bg-gray-50 transition-colors">
-              Save as Template
-           </button>
+        <div className="flex justify-end items-center gap-4 border-t border-gray-200 pt-6">
+           {error && <p className="text-negative text-sm font-medium mr-auto">{error}</p>}
+           {!error && issues.length > 0 && (
+             <p className={`text-sm font-medium mr-auto ${blocked ? 'text-negative' : 'text-yellow-700'}`}>
+               {blocked ? `Fix ${errorCount} error(s) before calculating` : `${issues.length} warning(s) to review`}
+             </p>
+           )}
+           {templateMessage && <p className="text-sm font-medium text-gray-600">{templateMessage}</p>}
+           {templateName !== null ? (
+             <div className="flex items-center gap-2">
+               <input type="text" autoFocus placeholder="Template name" className="form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 text-sm font-medium" value={templateName} onChange={e => setTemplateName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSaveTemplate()} />
+               <button onClick={handleSaveTemplate} disabled={!templateName.trim()} className="px-4 py-2.5 rounded-lg border border-gray-300 font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50">Save</button>
+               <button onClick={() => setTemplateName(null)} className="p-2 rounded-md text-gray-400 hover:text-gray-600"><span className="material-symbols-outlined">close</span></button>
+             </div>
+           ) : (
+             <button onClick={() => { setTemplateName(selectedTemplate && !selectedTemplate.builtIn ? selectedTemplate.name : ''); setTemplateMessage(''); }} className="px-4 py-2.5 rounded-lg border border-gray-300 font-medium text-gray-700 hover:bg-gray-50 transition-colors">
+                Save as Template
+             </button>
+           )}
            <button 
-              onClick={() => onCalculate(deal)}
-              className="px-6 py-2.5 rounded-lg bg-primary text-white font-bold shadow-sm hover:bg-blue-600 flex items-center gap-2 transition-all hover:shadow-md"
+              onClick={handleSubmit}
+              disabled={blocked}
+              className="px-6 py-2.5 rounded-lg bg-primary text-white font-bold shadow-sm hover:bg-blue-600 flex items-center gap-2 transition-all hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
            >
               <span className="material-symbols-outlined">calculate</span>
               Calculate Price
@@ -396,60 +1533,103 @@ const PricerForm = ({ onCalculate }: { onCalculate: (deal: SwapDeal) => void })
   );
 };
 
-const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }) => {
+const ResultsPage = ({ run, numberFormat, aiLabel, onReportingCurrencyChange, onApplyDeal }: { run: PricingRun, numberFormat: NumberFormat, aiLabel: string, onReportingCurrencyChange: (ccy: string) => Promise<void>, onApplyDeal: (deal: SwapDeal) => Promise<void> }) => {
+  const { deal, result, market } = run;
   const [activeTab, setActiveTab] = useState<'overview' | 'code'>('overview');
-  const [codeLanguage, setCodeLanguage] = useState<'python' | 'cpp'>('python');
-  const [generatedCode, setGeneratedCode] = useState<string>("");
-  const [loadingCode, setLoadingCode] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ModelExportFormat>('python');
+  const [exportFileName, setExportFileName] = useState('');
 
-  const [aiAnalysis, setAiAnalysis] = useState<string>("");
+  const [solverLeg, setSolverLeg] = useState<1 | 2>(result.parRateLeg);
+  const [targetNpv, setTargetNpv] = useState(0);
+  const [solution, setSolution] = useState<ParSolution | null>(null);
+  const [solverError, setSolverError] = useState('');
+  const [exportError, setExportError] = useState('');
+  const [currencyError, setCurrencyError] = useState('');
+  const scenarioDeals = useMemo(() => [deal], [deal]);
+
+  const [aiAnalysis, setAiAnalysis] = useState<DealAnalysis | null>(null);
+  const [aiError, setAiError] = useState('');
   const [loadingAi, setLoadingAi] = useState(false);
   const [showCashflows, setShowCashflows] = useState(true);
 
   // --- Logic ---
   
-  const handleGenerateCode = useCallback(async (lang: 'python' | 'cpp') => {
-     setCodeLanguage(lang);
-     setLoadingCode(true);
-     try {
-         const code = await generatePricingCode(deal, lang);
-         setGeneratedCode(code);
-     } catch(e) {
-         setGeneratedCode("// Error generating code.");
-     }
-     setLoadingCode(false);
-  }, [deal]);
+  // Generated from the run alone, so the same run always exports the same files
+  const modelExport = useMemo(() => {
+    try {
+      return { files: exportModel(exportFormat, deal, market, result), error: '' };
+    } catch (e) {
+      return { files: [], error: e instanceof Error ? e.message : 'Unable to export the model.' };
+    }
+  }, [exportFormat, deal, market, result]);
+  const exportFile = modelExport.files.find(f => f.name === exportFileName) ?? modelExport.files[0];
 
   useEffect(() => {
-    // If user switches to code tab and it's empty, auto-generate
-    if (activeTab === 'code' && !generatedCode) {
-        handleGenerateCode(codeLanguage);
-    }
-  }, [activeTab, generatedCode, codeLanguage, handleGenerateCode]);
+    // A repriced deal invalidates the previous solve
+    setSolution(null);
+  }, [deal]);
 
+  const handleSolve = () => {
+    try {
+        setSolution(solveParRate(deal, market, result.reportingCurrency, solverLeg, targetNpv));
+        setSolverError('');
+    } catch(e) {
+        setSolution(null);
+        setSolverError(e instanceof Error ? e.message : 'Unable to solve.');
+    }
+  };
 
   const handleAiAnalyze = async () => {
     setLoadingAi(true);
     try {
-        const analysis = await analyzeSwapDeal(deal, result);
-        setAiAnalysis(analysis);
+        setAiAnalysis(await analyzeSwapDeal(deal, result));
+        setAiError('');
     } catch(e) {
-        setAiAnalysis("Unable to connect to AI service.");
+        console.error("AI analysis failed:", e);
+        setAiError(e instanceof Error ? e.message : 'Unable to connect to the AI provider.');
     }
     setLoadingAi(false);
   };
 
-  // Mock curve data relative to rate inputs to make graphs look somewhat relevant
-  const baseRateL1 = deal.leg1.rate;
-  const baseRateL2 = deal.leg2.rate;
+  const risk = result.risk;
+  const totalPv01 = risk ? risk.pv01.reduce((acc, r) => acc + r.value, 0) : 0;
+  const totalSpread01 = risk ? risk.basisSpread01.reduce((acc, r) => acc + r.value, 0) : 0;
+  const formatRisk = (value: number) => `${result.reportingCurrency} ${formatAmount(value, numberFormat)}`;
+
+  const reportName = `${deal.id || 'swap'}-${deal.valueDate}`;
+
+  // Zero rates of each leg's bootstrapped curve out to the deal maturity
+  const curve1 = getDiscountCurve(market, deal.leg1.currency, deal.valueDate);
+  const curve2 = getDiscountCurve(market, deal.leg2.currency, deal.valueDate);
+  const maturityYears = daysBetween(parseDate(deal.valueDate), parseDate(deal.endDate)) / 365;
   
-  const curveData = [
-    { name: '1Y', leg1: baseRateL1 * 0.9, leg2: baseRateL2 * 0.95 },
-    { name: '2Y', leg1: baseRateL1 * 0.95, leg2: baseRateL2 * 0.98 },
-    { name: '3Y', leg1: baseRateL1 * 1.0, leg2: baseRateL2 * 1.02 },
-    { name: '4Y', leg1: baseRateL1 * 1.08, leg2: baseRateL2 * 1.05 },
-    { name: '5Y', leg1: baseRateL1 * 1.15, leg2: baseRateL2 * 1.10 },
-  ];
+  const curveData = CURVE_TENORS
+    .filter(({ t }, i) => i < 3 || t <= Math.ceil(maturityYears))
+    .map(({ label, t }) => ({
+      name: label,
+      leg1: Number(curve1.zeroRate(t).toFixed(3)),
+      leg2: Number(curve2.zeroRate(t).toFixed(3))
+    }));
+
+  const handleCurrencyChange = async (ccy: string) => {
+    try {
+      await onReportingCurrencyChange(ccy);
+      setCurrencyError('');
+    } catch (e) {
+      setCurrencyError(e instanceof Error ? e.message : `Unable to reprice in ${ccy}.`);
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'xlsx' | 'termsheet') => {
+    try {
+      if (format === 'csv') downloadFile(`${reportName}.csv`, pricingReportCsv(deal, result), 'text/csv');
+      if (format === 'xlsx') downloadFile(`${reportName}.xlsx`, pricingReportXlsx(deal, result), XLSX_MIME_TYPE);
+      if (format === 'termsheet') printDocument(termSheetHtml(deal, result, curveData));
+      setExportError('');
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : 'Unable to export the report.');
+    }
+  };
 
   return (
     <div className="p-4 md:p-8 max-w-7xl mx-auto w-full pb-20 animate-in fade-in duration-500">
@@ -457,8 +1637,18 @@ const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }
         <div>
            <h1 className="text-3xl font-black tracking-tight text-gray-900">Pricing Results</h1>
            <p className="text-gray-500">Operation ID: {deal.id}</p>
+           <p className="text-xs text-gray-400 mt-1">{run.id || 'Not recorded'} · priced {new Date(run.pricedAt).toLocaleString()} · engine {run.engineVersion} · {run.marketSnapshotId ? `snapshot ${run.marketSnapshotId}` : `working market as of ${market.asOf}`}</p>
+           {currencyError && <p className="text-negative text-sm font-medium mt-1">{currencyError}</p>}
         </div>
         <div className="flex gap-3">
+            <select
+                value={result.reportingCurrency}
+                onChange={e => handleCurrencyChange(e.target.value)}
+                className="form-select rounded-lg border-gray-200 text-sm font-bold text-gray-700"
+                title="Reporting currency"
+            >
+                {Object.keys(market.fxSpots).map(ccy => <option key={ccy}>{ccy}</option>)}
+            </select>
             <button 
                 onClick={() => setActiveTab('overview')}
                 className={`px-4 py-2 rounded-lg font-bold text-sm transition-colors border ${activeTab === 'overview' ? 'bg-gray-100 border-gray-300 text-gray-900' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}
@@ -476,31 +1666,89 @@ const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }
 
       {activeTab === 'overview' && (
         <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+            {/* Exports */}
+            <div className="flex flex-wrap justify-end items-center gap-4 mb-4">
+                {exportError && <p className="text-negative text-sm font-medium mr-auto">{exportError}</p>}
+                <button onClick={() => handleExport('csv')} className="text-primary text-sm font-bold hover:underline flex items-center gap-1">
+                    <span className="material-symbols-outlined text-sm">download</span>
+                    Cashflows &amp; KPIs (CSV)
+                </button>
+                <button onClick={() => handleExport('xlsx')} className="text-primary text-sm font-bold hover:underline flex items-center gap-1">
+                    <span className="material-symbols-outlined text-sm">table_view</span>
+                    Excel (XLSX)
+                </button>
+                <button onClick={() => handleExport('termsheet')} className="text-primary text-sm font-bold hover:underline flex items-center gap-1">
+                    <span className="material-symbols-outlined text-sm">print</span>
+                    Term Sheet (PDF)
+                </button>
+            </div>
+
             {/* KPIs */}
             <section className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
                 <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm flex flex-col gap-2 hover:shadow-md transition-shadow">
                     <p className="text-gray-500 font-medium">Total NPV</p>
-                    <p className="text-3xl font-bold text-gray-900 tracking-tight">{result.npvTotalFormatted}</p>
-                    <p className="text-positive font-medium text-sm flex items-center gap-1">
-                        <span className="material-symbols-outlined text-sm">trending_up</span>
-                        +1.25%
+                    <p className="text-3xl font-bold text-gray-900 tracking-tight">{formatRisk(result.npvTotal)}</p>
+                    <p className={`font-medium text-sm flex items-center gap-1 ${totalPv01 >= 0 ? 'text-positive' : 'text-negative'}`}>
+                        <span className="material-symbols-outlined text-sm">{totalPv01 >= 0 ? 'trending_up' : 'trending_down'}</span>
+                        PV01 {formatRisk(totalPv01)}
                     </p>
                 </div>
                 <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm flex flex-col gap-2 hover:shadow-md transition-shadow">
                     <p className="text-gray-500 font-medium">Swap Spread</p>
                     <p className="text-3xl font-bold text-gray-900 tracking-tight">{result.spread.toFixed(1)} bps</p>
-                    <p className="text-negative font-medium text-sm flex items-center gap-1">
-                        <span className="material-symbols-outlined text-sm">trending_down</span>
-                        -0.5 bps
+                    <p className={`font-medium text-sm flex items-center gap-1 ${totalSpread01 >= 0 ? 'text-positive' : 'text-negative'}`}>
+                        <span className="material-symbols-outlined text-sm">{totalSpread01 >= 0 ? 'trending_up' : 'trending_down'}</span>
+                        Spread01 {formatRisk(totalSpread01)}
                     </p>
                 </div>
                 <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm flex flex-col gap-2 hover:shadow-md transition-shadow">
                     <p className="text-gray-500 font-medium">Principal Value</p>
-                    <p className="text-3xl font-bold text-gray-900 tracking-tight">{deal.leg2.currency} {result.principal.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
-                    <p className="text-gray-400 text-sm font-medium">&nbsp;</p>
+                    <p className="text-3xl font-bold text-gray-900 tracking-tight">{result.reportingCurrency} {formatAmount(result.principal, numberFormat, 0)}</p>
+                    <p className="text-gray-400 text-sm font-medium">Par rate (Leg {result.parRateLeg}): {result.parRate.toFixed(4)}%</p>
+                </div>
+            </section>
+
+            {/* Par Solver */}
+            <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 mb-8">
+                <div className="flex flex-wrap justify-between items-end gap-4">
+                    <div>
+                        <h3 className="font-bold text-lg text-gray-900">Par Solver</h3>
+                        <p className="text-gray-500 text-sm">Find the rate or spread on a leg that brings the NPV to a target.</p>
+                    </div>
+                    <div className="flex flex-wrap items-end gap-4">
+                        <label>
+                            <span className="text-sm font-medium text-gray-600 mb-1 block">Solve on</span>
+                            <select className="form-select rounded-lg border-gray-200 text-sm font-medium" value={solverLeg} onChange={e => setSolverLeg(Number(e.target.value) as 1 | 2)}>
+                                <option value={1}>Leg 1 {deal.leg1.type === 'Fixed' ? 'rate' : 'spread'}</option>
+                                <option value={2}>Leg 2 {deal.leg2.type === 'Fixed' ? 'rate' : 'spread'}</option>
+                            </select>
+                        </label>
+                        <label>
+                            <span className="text-sm font-medium text-gray-600 mb-1 block">Target NPV / upfront ({result.reportingCurrency})</span>
+                            <input type="number" className="form-input w-48 rounded-lg border-gray-200 text-sm font-mono text-right" value={targetNpv} onChange={e => setTargetNpv(Number(e.target.value))} />
+                        </label>
+                        <button onClick={handleSolve} className="px-4 py-2.5 rounded-lg border border-gray-300 font-medium text-gray-700 hover:bg-gray-50 transition-colors">
+                            Solve
+                        </button>
+                    </div>
                 </div>
+                {solverError && <p className="text-negative text-sm font-medium mt-4">{solverError}</p>}
+                {solution && (
+                    <div className="mt-4 flex flex-wrap justify-between items-center gap-4 bg-gray-50 rounded-lg p-4">
+                        <p className="text-sm text-gray-700">
+                            Leg {solution.leg} par {solution.field.toLowerCase()}: <span className="font-mono font-bold text-gray-900">{solution.value.toFixed(4)}%</span>
+                            <span className="text-gray-400"> (currently {(solution.leg === 1 ? deal.leg1 : deal.leg2).rate}%, {solution.iterations} iterations)</span>
+                        </p>
+                        <button onClick={() => onApplyDeal(applyParSolution(deal, solution)).catch(e => setSolverError(e instanceof Error ? e.message : 'Unable to apply the solution.'))} className="px-4 py-2 rounded-lg bg-primary text-white text-sm font-bold shadow-sm hover:bg-blue-600 flex items-center gap-2 transition-all">
+                            <span className="material-symbols-outlined text-sm">done</span>
+                            Apply Par {solution.field}
+                        </button>
+                    </div>
+                )}
             </section>
 
+            <ScenarioPanel deals={scenarioDeals} market={market} reportingCurrency={result.reportingCurrency} numberFormat={numberFormat} subtitle="Reprice this deal under curve, basis and FX shocks or historical episodes." />
+
             {/* AI Analyst Section */}
             <section className="mb-8">
                 <div className="bg-gradient-to-br from-blue-600 to-indigo-700 rounded-xl p-6 text-white shadow-lg relative overflow-hidden">
@@ -515,7 +1763,7 @@ const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }
                             </div>
                             <div>
                             <h3 className="font-bold text-xl">AI Deal Analyst</h3>
-                            <p className="text-blue-100 text-sm font-medium opacity-90">Powered by Google Gemini 2.5 Flash</p>
+                            <p className="text-blue-100 text-sm font-medium opacity-90">Powered by {aiLabel}</p>
                             </div>
                         </div>
                         {!aiAnalysis && (
@@ -540,13 +1788,34 @@ const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }
                     </div>
                     
                     {aiAnalysis && (
-                        <div className="bg-white/10 backdrop-blur-md rounded-xl p-5 text-sm leading-relaxed animate-in fade-in duration-700 border border-white/10">
-                            <div className="prose prose-invert max-w-none">
-                                {aiAnalysis.split('\n').map((line, i) => <p key={i} className="mb-2 last:mb-0">{line}</p>)}
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 text-sm leading-relaxed animate-in fade-in duration-700">
+                            <div className="bg-white/10 backdrop-blur-md rounded-xl p-5 border border-white/10">
+                                <p className="text-xs font-bold uppercase tracking-wide text-blue-100 mb-2">Rationale</p>
+                                <p>{aiAnalysis.rationale}</p>
+                            </div>
+                            <div className="bg-white/10 backdrop-blur-md rounded-xl p-5 border border-white/10">
+                                <p className="text-xs font-bold uppercase tracking-wide text-blue-100 mb-2">Risk Flags</p>
+                                {aiAnalysis.riskFlags.length === 0 && <p className="opacity-80">No notable risks.</p>}
+                                <ul className="flex flex-col gap-3">
+                                    {aiAnalysis.riskFlags.map((flag, i) => (
+                                        <li key={i}>
+                                            <p className="font-bold flex items-center gap-2">
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-bold uppercase ${RISK_FLAG_STYLES[flag.severity]}`}>{flag.severity}</span>
+                                                {flag.title}
+                                            </p>
+                                            <p className="opacity-90 mt-1">{flag.detail}</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                            <div className="bg-white/10 backdrop-blur-md rounded-xl p-5 border border-white/10">
+                                <p className="text-xs font-bold uppercase tracking-wide text-blue-100 mb-2">Rate Differential</p>
+                                <p>{aiAnalysis.rateDifferential}</p>
                             </div>
                         </div>
                     )}
-                    {!aiAnalysis && !loadingAi && (
+                    {aiError && <p className="bg-white text-negative text-sm font-medium rounded-lg px-3 py-2 inline-block">{aiError}</p>}
+                    {!aiAnalysis && !loadingAi && !aiError && (
                         <p className="text-blue-100 text-sm max-w-2xl opacity-80">
                             Click to generate a comprehensive risk assessment, arbitrage opportunity detection, and economic rationale analysis for this specific swap structure using enterprise-grade cloud models.
                         </p>
@@ -564,9 +1833,14 @@ const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }
                         <h3 className="font-bold text-lg text-gray-900">Leg 1 ({deal.leg1.currency})</h3>
                         <p className="text-sm text-gray-500">{deal.leg1.type} @ {deal.leg1.rate}%</p>
                     </div>
-                    <span className="text-positive font-bold bg-green-50 px-3 py-1 rounded-full text-sm border border-green-100">
-                        NPV: {deal.leg1.currency} {result.leg1Npv.toLocaleString(undefined, {maximumFractionDigits: 0})}
-                    </span>
+                    <div className="flex flex-col items-end gap-1">
+                        <span className="text-positive font-bold bg-green-50 px-3 py-1 rounded-full text-sm border border-green-100">
+                            NPV: {deal.leg1.currency} {formatAmount(result.leg1Npv, numberFormat, 0)}
+                        </span>
+                        {deal.leg1.currency !== result.reportingCurrency && (
+                            <span className="text-xs text-gray-500 font-medium">≈ {result.reportingCurrency} {formatAmount(result.leg1NpvReporting, numberFormat, 0)}</span>
+                        )}
+                    </div>
                 </div>
                 <div className="h-56 w-full">
                     <ResponsiveContainer width="100%" height="100%">
@@ -581,11 +1855,11 @@ const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }
                         <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 12, fill: '#9ca3af'}} dy={10} />
                         <YAxis axisLine={false} tickLine={false} tick={{fontSize: 12, fill: '#9ca3af'}} />
                         <Tooltip contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}} />
-                        <Area type="monotone" dataKey="leg1" stroke="#28a745" strokeWidth={3} fillOpacity={1} fill="url(#colorLeg1)" name="Yield Curve %" />
+                        <Area type="monotone" dataKey="leg1" stroke="#28a745" strokeWidth={3} fillOpacity={1} fill="url(#colorLeg1)" name="Zero Rate %" />
                     </AreaChart>
                     </ResponsiveContainer>
                 </div>
-                <p className="text-gray-500 text-xs mt-4 text-center font-medium uppercase tracking-wide">Yield Curve Projection (5Y)</p>
+                <p className="text-gray-500 text-xs mt-4 text-center font-medium uppercase tracking-wide">{deal.leg1.currency} Zero Curve (Bootstrapped)</p>
                 </div>
 
                 <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
@@ -594,9 +1868,14 @@ const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }
                         <h3 className="font-bold text-lg text-gray-900">Leg 2 ({deal.leg2.currency})</h3>
                         <p className="text-sm text-gray-500">{deal.leg2.type} @ {deal.leg2.rate}%</p>
                     </div>
-                    <span className="text-negative font-bold bg-red-50 px-3 py-1 rounded-full text-sm border border-red-100">
-                        NPV: {deal.leg2.currency} {result.leg2Npv.toLocaleString(undefined, {maximumFractionDigits: 0})}
-                    </span>
+                    <div className="flex flex-col items-end gap-1">
+                        <span className="text-negative font-bold bg-red-50 px-3 py-1 rounded-full text-sm border border-red-100">
+                            NPV: {deal.leg2.currency} {formatAmount(result.leg2Npv, numberFormat, 0)}
+                        </span>
+                        {deal.leg2.currency !== result.reportingCurrency && (
+                            <span className="text-xs text-gray-500 font-medium">≈ {result.reportingCurrency} {formatAmount(result.leg2NpvReporting, numberFormat, 0)}</span>
+                        )}
+                    </div>
                 </div>
                 <div className="h-56 w-full">
                     <ResponsiveContainer width="100%" height="100%">
@@ -605,14 +1884,76 @@ const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }
                         <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 12, fill: '#9ca3af'}} dy={10} />
                         <YAxis axisLine={false} tickLine={false} tick={{fontSize: 12, fill: '#9ca3af'}} />
                         <Tooltip contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}} />
-                        <Line type="monotone" dataKey="leg2" stroke="#dc3545" strokeWidth={3} dot={{r: 4, strokeWidth: 2, fill: '#fff'}} activeDot={{r: 6}} name="Yield Curve %" />
+                        <Line type="monotone" dataKey="leg2" stroke="#dc3545" strokeWidth={3} dot={{r: 4, strokeWidth: 2, fill: '#fff'}} activeDot={{r: 6}} name="Zero Rate %" />
                     </LineChart>
                     </ResponsiveContainer>
                 </div>
-                <p className="text-gray-500 text-xs mt-4 text-center font-medium uppercase tracking-wide">Yield Curve Projection (5Y)</p>
+                <p className="text-gray-500 text-xs mt-4 text-center font-medium uppercase tracking-wide">{deal.leg2.currency} Zero Curve (Bootstrapped)</p>
                 </div>
             </section>
 
+            {/* Risk */}
+            {risk && (
+            <>
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-900">Risk Ladder</h2>
+            </div>
+            <section className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+                <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm flex flex-col gap-4">
+                    <div>
+                        <p className="text-gray-500 font-medium text-sm mb-2">Parallel PV01 (+1bp)</p>
+                        {risk.pv01.map(r => (
+                            <div key={r.currency} className="flex justify-between text-sm py-1">
+                                <span className="font-medium text-gray-700">{r.currency}</span>
+                                <span className="font-mono text-gray-900">{formatRisk(r.value)}</span>
+                            </div>
+                        ))}
+                    </div>
+                    <div>
+                        <p className="text-gray-500 font-medium text-sm mb-2">Basis Spread01 (+1bp)</p>
+                        {risk.basisSpread01.length === 0 && <p className="text-sm text-gray-400">No floating legs.</p>}
+                        {risk.basisSpread01.map(r => (
+                            <div key={r.leg} className="flex justify-between text-sm py-1">
+                                <span className="font-medium text-gray-700">Leg {r.leg} ({r.currency})</span>
+                                <span className="font-mono text-gray-900">{formatRisk(r.value)}</span>
+                            </div>
+                        ))}
+                    </div>
+                    <div>
+                        <p className="text-gray-500 font-medium text-sm mb-2">FX Delta (+1% vs {result.reportingCurrency})</p>
+                        {risk.fxDelta.length === 0 && <p className="text-sm text-gray-400">No FX exposure.</p>}
+                        {risk.fxDelta.map(r => (
+                            <div key={r.currency} className="flex justify-between text-sm py-1">
+                                <span className="font-medium text-gray-700">{r.currency}</span>
+                                <span className="font-mono text-gray-900">{formatRisk(r.value)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden lg:col-span-2">
+                    <table className="w-full text-sm text-left">
+                        <thead className="bg-gray-50 text-xs uppercase text-gray-500 font-semibold tracking-wide">
+                            <tr>
+                                <th className="px-6 py-3">Currency</th>
+                                <th className="px-6 py-3">Bucket</th>
+                                <th className="px-6 py-3 text-right">DV01 ({result.reportingCurrency})</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {risk.keyRateDv01.map((r, idx) => (
+                                <tr key={idx} className="hover:bg-gray-50 transition-colors">
+                                    <td className="px-6 py-2 font-medium text-gray-900">{r.currency}</td>
+                                    <td className="px-6 py-2 text-gray-600">{r.instrument} {r.tenor}</td>
+                                    <td className={`px-6 py-2 text-right font-mono ${r.value < 0 ? 'text-negative' : 'text-gray-900'}`}>{formatAmount(r.value, numberFormat)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+            </>
+            )}
+
             {/* Table */}
             <section className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
                 <div className="p-6 border-b border-gray-200 flex justify-between items-center cursor-pointer hover:bg-gray-50 transition-colors" onClick={() => setShowCashflows(!showCashflows)}>
@@ -630,21 +1971,33 @@ const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }
                     <table className="w-full text-sm text-left">
                     <thead className="bg-gray-50 text-xs uppercase text-gray-500 font-semibold tracking-wide">
                         <tr>
-                        <th className="px-6 py-4">Date</th>
+                        <th className="px-6 py-4">Payment Date</th>
+                        <th className="px-6 py-4">Type</th>
+                        <th className="px-6 py-4">Accrual Period</th>
+                        <th className="px-6 py-4">Fixing Date</th>
+                        <th className="px-6 py-4 text-right">Notional</th>
+                        <th className="px-6 py-4 text-right">Rate (%)</th>
                         <th className="px-6 py-4 text-right">Leg 1 ({deal.leg1.currency})</th>
                         <th className="px-6 py-4 text-right">Leg 2 ({deal.leg2.currency})</th>
+                        <th className="px-6 py-4 text-right">Accrual</th>
                         <th className="px-6 py-4 text-right">Discount Factor</th>
-                        <th className="px-6 py-4 text-right">PV (USD Eq)</th>
+                        <th className="px-6 py-4 text-right">PV ({result.reportingCurrency})</th>
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-100">
                         {result.cashflows.map((row, idx) => (
-                        <tr key={idx} className="hover:bg-gray-50 transition-colors">
+                        <tr key={idx} className={`hover:bg-gray-50 transition-colors ${row.flowType === 'Principal' ? 'bg-blue-50/40' : ''}`}>
                             <td className="px-6 py-4 font-medium text-gray-900">{row.date}</td>
-                            <td className="px-6 py-4 text-right text-positive font-medium font-mono tracking-tight">{row.leg1Flow.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
-                            <td className="px-6 py-4 text-right text-negative font-medium font-mono tracking-tight">{row.leg2Flow.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                            <td className="px-6 py-4 text-gray-500">{row.flowType}</td>
+                            <td className="px-6 py-4 text-gray-500 whitespace-nowrap">{row.accrualStart ? `${row.accrualStart} → ${row.accrualEnd}` : '—'}</td>
+                            <td className="px-6 py-4 text-gray-500">{row.fixingDate ?? '—'}</td>
+                            <td className="px-6 py-4 text-right text-gray-500 font-mono">{row.notional === undefined ? '—' : formatAmount(row.notional, numberFormat)}</td>
+                            <td className="px-6 py-4 text-right text-gray-500 font-mono">{row.rate === undefined ? '—' : row.rate.toFixed(4)}</td>
+                            <td className="px-6 py-4 text-right text-positive font-medium font-mono tracking-tight">{formatAmount(row.leg1Flow, numberFormat)}</td>
+                            <td className="px-6 py-4 text-right text-negative font-medium font-mono tracking-tight">{formatAmount(row.leg2Flow, numberFormat)}</td>
+                            <td className="px-6 py-4 text-right text-gray-500 font-mono">{row.accrualFraction.toFixed(6)}</td>
                             <td className="px-6 py-4 text-right text-gray-500 font-mono">{row.discountFactor.toFixed(4)}</td>
-                            <td className="px-6 py-4 text-right text-gray-900 font-medium font-mono">{row.presentValue.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                            <td className="px-6 py-4 text-right text-gray-900 font-medium font-mono">{formatAmount(row.presentValue, numberFormat)}</td>
                         </tr>
                         ))}
                     </tbody>
@@ -661,54 +2014,72 @@ const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }
              <div className="flex justify-between items-center mb-6">
                <div>
                  <h3 className="font-bold text-lg text-gray-900">Export Pricing Model</h3>
-                 <p className="text-gray-500 text-sm">Generate executable code to verify this price in external systems.</p>
+                 <p className="text-gray-500 text-sm">Rebuild this deal and its curves in QuantLib or ORE to reconcile the NPV. The same run always exports the same files.</p>
                </div>
                <div className="flex bg-gray-100 rounded-lg p-1 gap-1">
-                 <button 
-                    onClick={() => handleGenerateCode('python')}
-                    className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${codeLanguage === 'python' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
-                 >
-                   Python (QuantLib)
-                 </button>
-                 <button 
-                    onClick={() => handleGenerateCode('cpp')}
-                    className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${codeLanguage === 'cpp' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
-                 >
-                   C++ (ORE)
-                 </button>
+                 {MODEL_EXPORT_FORMATS.map(({ value, label }) => (
+                   <button
+                      key={value}
+                      onClick={() => { setExportFormat(value); setExportFileName(''); }}
+                      className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${exportFormat === value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                   >
+                     {label}
+                   </button>
+                 ))}
                </div>
              </div>
 
-             <div className="relative group">
-                <div className="absolute right-4 top-4 opacity-0 group-hover:opacity-100 transition-opacity">
-                   <button 
-                     className="bg-white/10 hover:bg-white/20 text-white p-2 rounded-md backdrop-blur-sm border border-white/10"
-                     onClick={() => navigator.clipboard.writeText(generatedCode)}
-                     title="Copy Code"
-                   >
-                     <span className="material-symbols-outlined text-sm">content_copy</span>
-                   </button>
-                </div>
-                {loadingCode ? (
-                    <div className="h-96 w-full bg-gray-900 rounded-lg flex flex-col items-center justify-center text-gray-400 gap-4">
-                         <span className="material-symbols-outlined animate-spin text-4xl">settings</span>
-                         <p className="text-sm font-mono">Generating {codeLanguage === 'python' ? 'Python' : 'C++'} script...</p>
+             {modelExport.error ? (
+                <p className="text-negative text-sm font-medium">{modelExport.error}</p>
+             ) : exportFile && (
+               <>
+                 {modelExport.files.length > 1 && (
+                   <div className="flex flex-wrap gap-2 mb-3">
+                     {modelExport.files.map(file => (
+                       <button
+                         key={file.name}
+                         onClick={() => setExportFileName(file.name)}
+                         className={`px-3 py-1 rounded-md text-xs font-mono border transition-colors ${file.name === exportFile.name ? 'bg-primary/10 text-primary border-primary/30 font-bold' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+                       >
+                         {file.name}
+                       </button>
+                     ))}
+                   </div>
+                 )}
+                 <div className="relative group">
+                    <div className="absolute right-4 top-4 opacity-0 group-hover:opacity-100 transition-opacity">
+                       <button
+                         className="bg-white/10 hover:bg-white/20 text-white p-2 rounded-md backdrop-blur-sm border border-white/10"
+                         onClick={() => navigator.clipboard.writeText(exportFile.content)}
+                         title="Copy Code"
+                       >
+                         <span className="material-symbols-outlined text-sm">content_copy</span>
+                       </button>
                     </div>
-                ) : (
-                    <pre className="bg-gray-900 text-blue-300 p-6 rounded-lg overflow-x-auto font-mono text-sm leading-relaxed h-auto min-h-[400px] border border-gray-800">
-                        <code>{generatedCode}</code>
+                    <pre className="bg-gray-900 text-blue-300 p-6 rounded-lg overflow-x-auto font-mono text-sm leading-relaxed h-auto min-h-[400px] max-h-[640px] border border-gray-800">
+                        <code>{exportFile.content}</code>
                     </pre>
-                )}
-             </div>
-             <div className="mt-4 flex justify-end">
-                <button 
-                  onClick={() => handleGenerateCode(codeLanguage)}
-                  className="text-primary text-sm font-bold hover:underline flex items-center gap-1"
-                >
-                  <span className="material-symbols-outlined text-sm">refresh</span>
-                  Regenerate Code
-                </button>
-             </div>
+                 </div>
+                 <div className="mt-4 flex justify-end gap-4">
+                    <button
+                      onClick={() => downloadFile(exportFile.name, exportFile.content, 'text/plain')}
+                      className="text-primary text-sm font-bold hover:underline flex items-center gap-1"
+                    >
+                      <span className="material-symbols-outlined text-sm">download</span>
+                      Download {exportFile.name}
+                    </button>
+                    {modelExport.files.length > 1 && (
+                      <button
+                        onClick={() => downloadFile(`${reportName}_${exportFormat}.zip`, zip(modelExport.files.map(f => ({ path: f.name, content: f.content }))), 'application/zip')}
+                        className="text-primary text-sm font-bold hover:underline flex items-center gap-1"
+                      >
+                        <span className="material-symbols-outlined text-sm">folder_zip</span>
+                        Download all
+                      </button>
+                    )}
+                 </div>
+               </>
+             )}
            </div>
         </div>
       )}
@@ -716,89 +2087,1138 @@ const ResultsPage = ({ deal, result }: { deal: SwapDeal, result: PricingResult }
   );
 };
 
+const CURVE_INSTRUMENTS: CurveInstrument[] = ['Deposit', 'FRA', 'Future', 'Swap'];
+
+const CurvesPage = ({ market, onChange, snapshots, onSaveSnapshot }: { market: MarketData, onChange: (m: MarketData) => void, snapshots: MarketSnapshot[], onSaveSnapshot: (name: string) => Promise<void> }) => {
+  const currencies = Object.keys(market.curves);
+  const [snapshotName, setSnapshotName] = useState('Close');
+  const [snapshotMessage, setSnapshotMessage] = useState('');
+
+  const handleSaveSnapshot = async () => {
+    try {
+      await onSaveSnapshot(snapshotName);
+      setSnapshotMessage(`Saved "${snapshotName.trim()}" as of ${market.asOf}.`);
+    } catch (e) {
+      setSnapshotMessage(e instanceof Error ? e.message : 'Unable to save the snapshot.');
+    }
+  };
+
+  const handleLoadSnapshot = (id: string) => {
+    const snapshot = snapshots.find(s => s.id === id);
+    if (!snapshot) return;
+    onChange(snapshot.market);
+    setSnapshotMessage(`Loaded "${snapshot.name}" as of ${snapshot.asOf}.`);
+  };
+  const [currency, setCurrency] = useState<string>(currencies[0]);
+  const definition = market.curves[currency];
+
+  const updateDefinition = (next: CurveDefinition) => {
+    onChange({ ...market, curves: { ...market.curves, [currency]: next } });
+  };
+
+  const updateQuote = (index: number, patch: Partial<CurveQuote>) => {
+    updateDefinition({ ...definition, quotes: definition.quotes.map((q, i) => i === index ? { ...q, ...patch } : q) });
+  };
+
+  let curve: YieldCurve | null = null;
+  let curveError = '';
+  try {
+    curve = getDiscountCurve(market, currency, market.asOf);
+  } catch (e) {
+    curveError = e instanceof Error ? e.message : String(e);
+  }
+
+  const fxPoints = Object.entries(market.fxForwardPoints[currency] ?? {});
+  const updatePoints = (entries: [string, number][]) => {
+    onChange({ ...market, fxForwardPoints: { ...market.fxForwardPoints, [currency]: Object.fromEntries(entries) } });
+  };
+
+  const fxForwards = CURVE_TENORS.map(({ label }) => {
+    let outright = '—';
+    try {
+      outright = fxForward(market, currency, 'USD', addTenor(parseDate(market.asOf), label), market.asOf).toFixed(6);
+    } catch (e) {
+      // Leave the row blank while the curve or the points are being edited
+    }
+    return { label, outright };
+  });
+
+  const chartData: { name: string, zero: number, forward: number }[] = [];
+  if (curve && curve.pillars.length) {
+    const lastT = curve.pillars[curve.pillars.length - 1].t;
+    for (let t = 0.25; t <= lastT + 1e-9; t += 0.25) {
+      chartData.push({
+        name: `${t.toFixed(2)}Y`,
+        zero: Number(curve.zeroRate(t).toFixed(4)),
+        forward: Number(curve.forwardRate(t, t + 0.25).toFixed(4))
+      });
+    }
+  }
+
+  return (
+    <div className="p-4 md:p-8 max-w-7xl mx-auto w-full pb-20 animate-in fade-in duration-500">
+      <header className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-black tracking-tight text-gray-900">Yield Curves</h1>
+          <p className="text-gray-500">Market quotes as of {market.asOf}, bootstrapped into zero and forward curves.</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <label>
+            <span className="text-xs font-medium text-gray-500 mb-1 block">As of</span>
+            <input type="date" className="form-input rounded-lg border-gray-200 text-sm font-medium" value={market.asOf} onChange={e => e.target.value && onChange({ ...market, asOf: e.target.value })} />
+          </label>
+          <label>
+            <span className="text-xs font-medium text-gray-500 mb-1 block">Snapshot name</span>
+            <input type="text" className="form-input rounded-lg border-gray-200 text-sm font-medium w-32" value={snapshotName} onChange={e => setSnapshotName(e.target.value)} />
+          </label>
+          <button onClick={handleSaveSnapshot} className="px-4 py-2 rounded-lg bg-primary text-white text-sm font-bold shadow-sm hover:bg-blue-600 flex items-center gap-2 transition-all">
+            <span className="material-symbols-outlined text-sm">save</span>
+            Save Snapshot
+          </button>
+          <select className="form-select rounded-lg border-gray-200 text-sm font-medium" value="" onChange={e => handleLoadSnapshot(e.target.value)}>
+            <option value="">Load snapshot...</option>
+            {snapshots.map(s => <option key={s.id} value={s.id}>{s.asOf} · {s.name}</option>)}
+          </select>
+        </div>
+        <div className="flex bg-gray-100 rounded-lg p-1 gap-1">
+          {currencies.map(ccy => (
+            <button
+              key={ccy}
+              onClick={() => setCurrency(ccy)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${currency === ccy ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              {ccy}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      {snapshotMessage && <p className="text-sm text-gray-500 -mt-4 mb-6">{snapshotMessage}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Quotes */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+          <div className="p-4 border-b border-gray-100 flex flex-wrap gap-4 justify-between items-center bg-gray-50/50 rounded-t-xl">
+            <h3 className="font-bold text-gray-900">{currency} Input Quotes</h3>
+            <div className="flex gap-2">
+              <select className="form-select rounded-lg border-gray-200 text-sm font-medium" value={definition.interpolation} onChange={e => updateDefinition({ ...definition, interpolation: e.target.value as InterpolationMethod })}>
+                <option value="LogLinearDiscount">Log-linear DF</option>
+                <option value="LinearZero">Linear zero</option>
+              </select>
+              <select className="form-select rounded-lg border-gray-200 text-sm font-medium" value={definition.swapFrequency} onChange={e => updateDefinition({ ...definition, swapFrequency: e.target.value })}>
+                <option>Quarterly</option><option>Semi-Annual</option><option>Annual</option>
+              </select>
+            </div>
+          </div>
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-xs uppercase text-gray-500 font-semibold tracking-wide">
+              <tr>
+                <th className="px-4 py-3">Instrument</th>
+                <th className="px-4 py-3">Tenor</th>
+                <th className="px-4 py-3 text-right">Quote</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {definition.quotes.map((quote, idx) => (
+                <tr key={idx} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-4 py-2">
+                    <select className="form-select w-full rounded-lg border-gray-200 text-sm" value={quote.type} onChange={e => updateQuote(idx, { type: e.target.value as CurveInstrument })}>
+                      {CURVE_INSTRUMENTS.map(type => <option key={type}>{type}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <input type="text" className="form-input w-24 rounded-lg border-gray-200 text-sm font-mono" value={quote.tenor} onChange={e => updateQuote(idx, { tenor: e.target.value })} />
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <input type="number" step="0.01" className="form-input w-28 rounded-lg border-gray-200 text-sm font-mono text-right" value={quote.quote} onChange={e => updateQuote(idx, { quote: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button onClick={() => updateDefinition({ ...definition, quotes: definition.quotes.filter((_, i) => i !== idx) })} className="p-1.5 rounded-md text-gray-400 hover:text-negative hover:bg-negative/10 transition-colors">
+                      <span className="material-symbols-outlined text-lg">delete</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="p-4 border-t border-gray-100 flex justify-between items-center">
+            <p className="text-xs text-gray-400">Deposits/swaps: 3M, 5Y. FRAs/futures: 6x9 (futures quoted as price).</p>
+            <button onClick={() => updateDefinition({ ...definition, quotes: [...definition.quotes, { type: 'Swap', tenor: '', quote: 0 }] })} className="text-primary text-sm font-bold hover:underline flex items-center gap-1">
+              <span className="material-symbols-outlined text-sm">add</span>
+              Add Quote
+            </button>
+          </div>
+        </div>
+
+        {/* Curves */}
+        <div className="flex flex-col gap-6">
+          <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+            <h3 className="font-bold text-lg text-gray-900 mb-4">Zero &amp; 3M Forward Curve (%)</h3>
+            {curveError ? (
+              <p className="text-negative text-sm font-medium">{curveError}</p>
+            ) : (
+              <div className="h-72 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+                    <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 12, fill: '#9ca3af'}} dy={10} />
+                    <YAxis axisLine={false} tickLine={false} tick={{fontSize: 12, fill: '#9ca3af'}} domain={['auto', 'auto']} />
+                    <Tooltip contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}} />
+                    <Line type="monotone" dataKey="zero" stroke="#137fec" strokeWidth={3} dot={false} name="Zero %" />
+                    <Line type="stepAfter" dataKey="forward" stroke="#28a745" strokeWidth={2} dot={false} name="3M Forward %" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+
+          {curve && (
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-gray-50 text-xs uppercase text-gray-500 font-semibold tracking-wide">
+                  <tr>
+                    <th className="px-4 py-3">Pillar</th>
+                    <th className="px-4 py-3 text-right">Years</th>
+                    <th className="px-4 py-3 text-right">Zero (%)</th>
+                    <th className="px-4 py-3 text-right">Discount Factor</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {curve.pillars.map(p => (
+                    <tr key={p.date} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-2 font-medium text-gray-900">{p.date}</td>
+                      <td className="px-4 py-2 text-right font-mono text-gray-500">{p.t.toFixed(3)}</td>
+                      <td className="px-4 py-2 text-right font-mono">{p.zeroRate.toFixed(4)}</td>
+                      <td className="px-4 py-2 text-right font-mono text-gray-500">{p.discountFactor.toFixed(6)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* FX */}
+      {currency !== 'USD' && (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm mt-6">
+          <div className="p-4 border-b border-gray-100 flex flex-wrap gap-4 justify-between items-center bg-gray-50/50 rounded-t-xl">
+            <h3 className="font-bold text-gray-900">{currency} FX vs USD</h3>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-600">
+              Spot (USD per {currency})
+              <input type="number" step="0.0001" className="form-input w-32 rounded-lg border-gray-200 text-sm font-mono text-right" value={market.fxSpots[currency] ?? 0} onChange={e => onChange({ ...market, fxSpots: { ...market.fxSpots, [currency]: Number(e.target.value) } })} />
+            </label>
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-4">
+            <div>
+              <table className="w-full text-sm text-left">
+                <thead className="bg-gray-50 text-xs uppercase text-gray-500 font-semibold tracking-wide">
+                  <tr>
+                    <th className="px-4 py-3">Tenor</th>
+                    <th className="px-4 py-3 text-right">Forward Points (pips)</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {fxPoints.map(([tenor, pips], idx) => (
+                    <tr key={idx} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-2">
+                        <input type="text" className="form-input w-24 rounded-lg border-gray-200 text-sm font-mono" value={tenor} onChange={e => updatePoints(fxPoints.map((p, i) => i === idx ? [e.target.value, p[1]] : p))} />
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <input type="number" step="0.1" className="form-input w-28 rounded-lg border-gray-200 text-sm font-mono text-right" value={pips} onChange={e => updatePoints(fxPoints.map((p, i) => i === idx ? [p[0], Number(e.target.value)] : p))} />
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <button onClick={() => updatePoints(fxPoints.filter((_, i) => i !== idx))} className="p-1.5 rounded-md text-gray-400 hover:text-negative hover:bg-negative/10 transition-colors">
+                          <span className="material-symbols-outlined text-lg">delete</span>
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="pt-4 flex justify-between items-center">
+                <p className="text-xs text-gray-400">Without points, forwards are implied from the {currency} and USD curves.</p>
+                <button onClick={() => updatePoints([...fxPoints, ['', 0]])} className="text-primary text-sm font-bold hover:underline flex items-center gap-1">
+                  <span className="material-symbols-outlined text-sm">add</span>
+                  Add Points
+                </button>
+              </div>
+            </div>
+            <table className="w-full text-sm text-left self-start">
+              <thead className="bg-gray-50 text-xs uppercase text-gray-500 font-semibold tracking-wide">
+                <tr>
+                  <th className="px-4 py-3">Tenor</th>
+                  <th className="px-4 py-3 text-right">Outright (USD per {currency})</th>
+                  <th className="px-4 py-3 text-right">Source</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {fxForwards.map(row => (
+                  <tr key={row.label} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-4 py-2 font-medium text-gray-900">{row.label}</td>
+                    <td className="px-4 py-2 text-right font-mono">{row.outright}</td>
+                    <td className="px-4 py-2 text-right text-gray-500">{fxPoints.length ? 'Quoted points' : 'Implied (CIP)'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // --- Main App Component ---
 
+const MarketDataPage = ({ market, snapshots, onSave, onRemove, onLoad }: { market: MarketData, snapshots: MarketSnapshot[], onSave: (name: string, market: MarketData) => Promise<void>, onRemove: (id: string) => Promise<void>, onLoad: (snapshot: MarketSnapshot) => void }) => {
+  const [name, setName] = useState('Close');
+  const [asOf, setAsOf] = useState(market.asOf);
+  // '' merges into the working market, 'empty' starts from nothing, anything else is a snapshot id
+  const [baseId, setBaseId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<MarketImportResult | null>(null);
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  const [message, setMessage] = useState('');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseMarketFile(file.name, await file.text());
+    setFileName(file.name);
+    setParsed(result);
+    setIssues(result.errors);
+    setMessage('');
+    if (result.patch.asOf) setAsOf(result.patch.asOf);
+  };
+
+  const handleSave = async () => {
+    if (!parsed || parsed.errors.length) return;
+    const base = baseId === 'empty' ? EMPTY_MARKET_DATA : snapshots.find(s => s.id === baseId)?.market ?? market;
+    const imported = applyMarketPatch(base, parsed.patch, asOf);
+    const curveIssues = validateCurves(imported, Object.keys(parsed.patch.curves));
+    setIssues(curveIssues);
+    if (curveIssues.length) return;
+    try {
+      await onSave(name, imported);
+      setMessage(`Saved "${name.trim()}" as of ${asOf} with ${parsed.records} imported record(s).`);
+      setParsed(null);
+      setFileName('');
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Unable to save the snapshot.');
+    }
+  };
+
+  const counts = parsed && summarizePatch(parsed.patch);
+  const inputClass = "w-full form-input rounded-lg border-gray-200 focus:border-primary focus:ring-primary/20 text-sm font-medium";
+
+  return (
+    <div className="p-4 md:p-8 max-w-7xl mx-auto w-full pb-20 animate-in fade-in duration-500">
+      <header className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-black tracking-tight text-gray-900">Market Data</h1>
+          <p className="text-gray-500">Import curve quotes, FX and fixings from CSV or JSON into named, dated snapshots.</p>
+        </div>
+        <button onClick={() => downloadFile(`market_${market.asOf}.csv`, toCsv(marketCsvRows(market)), 'text/csv')} className="text-primary text-sm font-bold hover:underline flex items-center gap-1">
+          <span className="material-symbols-outlined text-sm">download</span>
+          Export Working Market (CSV)
+        </button>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 flex flex-col gap-4">
+          <h3 className="font-bold text-lg text-gray-900">Import File</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <label>
+              <span className="text-sm font-medium text-gray-600 mb-1 block">Snapshot Name</span>
+              <input type="text" className={inputClass} value={name} onChange={e => setName(e.target.value)} />
+            </label>
+            <label>
+              <span className="text-sm font-medium text-gray-600 mb-1 block">As of</span>
+              <input type="date" className={inputClass} value={asOf} onChange={e => setAsOf(e.target.value)} />
+            </label>
+            <label className="col-span-2">
+              <span className="text-sm font-medium text-gray-600 mb-1 block">Merge Into</span>
+              <select className={inputClass} value={baseId} onChange={e => setBaseId(e.target.value)}>
+                <option value="">Working market (Curves page)</option>
+                <option value="empty">Empty market</option>
+                {snapshots.map(s => <option key={s.id} value={s.id}>{s.asOf} · {s.name}</option>)}
+              </select>
+            </label>
+            <label className="col-span-2">
+              <span className="text-sm font-medium text-gray-600 mb-1 block">File (.csv or .json)</span>
+              <input type="file" accept=".csv,.json,text/csv,application/json" className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-bold file:bg-primary/10 file:text-primary hover:file:bg-primary/20" onChange={e => handleFile(e.target.files?.[0])} />
+            </label>
+          </div>
+
+          {parsed && counts && (
+            <div className="text-sm text-gray-600 bg-gray-50 rounded-lg p-4">
+              <p className="font-bold text-gray-900 mb-1">{fileName}: {parsed.records} valid record(s)</p>
+              <p>{counts.quotes} curve quote(s) for {counts.curves.join(', ') || '—'} · {counts.fx} FX value(s) · {counts.fixings} fixing(s)</p>
+            </div>
+          )}
+
+          {issues.length > 0 && (
+            <div className="border border-red-200 rounded-lg overflow-hidden">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-red-50 text-xs uppercase text-red-700 font-semibold tracking-wide">
+                  <tr>
+                    <th className="px-4 py-2">Location</th>
+                    <th className="px-4 py-2">Error</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-red-100">
+                  {issues.map((issue, i) => (
+                    <tr key={i}>
+                      <td className="px-4 py-2 font-mono text-gray-700 whitespace-nowrap">{issue.location}</td>
+                      <td className="px-4 py-2 text-negative">{issue.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center gap-4">
+            <button onClick={handleSave} disabled={!parsed || parsed.errors.length > 0 || !asOf} className="px-4 py-2 rounded-lg bg-primary text-white text-sm font-bold shadow-sm hover:bg-blue-600 flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+              <span className="material-symbols-outlined text-sm">save</span>
+              Save Snapshot
+            </button>
+            {parsed && parsed.errors.length > 0 && <p className="text-sm text-negative">Fix the errors above and import the file again.</p>}
+            {message && <p className="text-sm text-gray-500">{message}</p>}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 text-sm text-gray-600 flex flex-col gap-3">
+          <h3 className="font-bold text-lg text-gray-900">File Format</h3>
+          <p><span className="font-bold text-gray-900">CSV</span> files have a header with the columns <code className="font-mono text-xs bg-gray-100 px-1 rounded">record,currency,instrument,tenor,index,date,value</code> (any order) and one record per row. Lines starting with # are ignored.</p>
+          <pre className="font-mono text-xs bg-gray-900 text-gray-100 rounded-lg p-4 overflow-x-auto">{`record,currency,instrument,tenor,index,date,value
+quote,USD,Deposit,3M,,,4.75
+quote,USD,Future,6x9,,,96.10
+quote,USD,Swap,5Y,,,3.40
+fx,BRL,,,,,0.1835
+fxpoints,BRL,,1Y,,,-120
+fixing,,,,SOFR,2024-09-19,4.83`}</pre>
+          <ul className="list-disc list-inside flex flex-col gap-1">
+            <li><b>quote</b>: Deposit, FRA, Future or Swap quote in %; futures as price, FRA/futures tenors as 6x9.</li>
+            <li><b>fx</b>: spot as USD per one unit of the currency.</li>
+            <li><b>fxpoints</b>: forward points in pips of the USD-per-unit quote.</li>
+            <li><b>fixing</b>: index fixing in %, held until the next one ({Object.keys(RATE_INDICES).join(', ')}).</li>
+          </ul>
+          <p><span className="font-bold text-gray-900">JSON</span> files use the same shape as the app's market data, every section optional: <code className="font-mono text-xs bg-gray-100 px-1 rounded">asOf</code>, <code className="font-mono text-xs bg-gray-100 px-1 rounded">curves.CCY.quotes[]</code> (with optional interpolation and swapFrequency), <code className="font-mono text-xs bg-gray-100 px-1 rounded">fxSpots</code>, <code className="font-mono text-xs bg-gray-100 px-1 rounded">fxForwardPoints</code> and <code className="font-mono text-xs bg-gray-100 px-1 rounded">fixings</code>.</p>
+          <p>Imported curves replace all quotes of their currency; FX and fixings are merged into the chosen base market.</p>
+        </div>
+      </div>
+
+      <div className="mt-8 bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+        <h3 className="font-bold text-lg text-gray-900 p-4 border-b border-gray-100">Stored Snapshots</h3>
+        <table className="w-full text-sm text-left">
+          <thead className="bg-gray-50 text-xs uppercase text-gray-500 font-semibold tracking-wide">
+            <tr>
+              <th className="px-6 py-3">As of</th>
+              <th className="px-6 py-3">Name</th>
+              <th className="px-6 py-3">Curves</th>
+              <th className="px-6 py-3">Saved</th>
+              <th className="px-6 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {snapshots.length === 0 && (
+              <tr><td colSpan={5} className="px-6 py-8 text-center text-gray-500">No snapshots stored yet.</td></tr>
+            )}
+            {snapshots.map(s => (
+              <tr key={s.id} className="hover:bg-gray-50 transition-colors">
+                <td className="px-6 py-3 font-medium text-gray-900">{s.asOf}</td>
+                <td className="px-6 py-3">{s.name}</td>
+                <td className="px-6 py-3 text-gray-500">{Object.keys(s.market.curves).join(', ')}</td>
+                <td className="px-6 py-3 text-gray-500">{new Date(s.savedAt).toLocaleString()}</td>
+                <td className="px-6 py-3 flex justify-end gap-2">
+                  <button onClick={() => onLoad(s)} title="Load into Curves" className="p-1.5 rounded-md text-gray-400 hover:text-primary hover:bg-primary/10 transition-colors"><span className="material-symbols-outlined text-lg">upload</span></button>
+                  <button onClick={() => window.confirm(`Delete snapshot "${s.name}" (${s.asOf})?`) && onRemove(s.id)} title="Delete" className="p-1.5 rounded-md text-gray-400 hover:text-negative hover:bg-negative/10 transition-colors"><span className="material-symbols-outlined text-lg">delete</span></button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// Columns of the per-deal P&L table; curve moves are shown summed across currencies
+const PNL_DEAL_COLUMNS: PnlCategory[] = ['Carry', 'Fixings', 'Curve', 'FX', 'Lifecycle', 'NewTrades', 'Unexplained'];
+
+const PnlPage = ({ records, snapshots, reportingCurrency, numberFormat }: { records: DealRecord[], snapshots: MarketSnapshot[], reportingCurrency: string, numberFormat: NumberFormat }) => {
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [scope, setScope] = useState('');
+  const [explain, setExplain] = useState<PnlExplain | null>(null);
+  const [error, setError] = useState('');
+
+  // Default to the two most recent snapshots
+  useEffect(() => {
+    if (snapshots.length >= 2 && !fromId && !toId) {
+      setFromId(snapshots[snapshots.length - 2].id);
+      setToId(snapshots[snapshots.length - 1].id);
+    }
+  }, [snapshots, fromId, toId]);
+
+  const handleRun = () => {
+    const from = snapshots.find(s => s.id === fromId);
+    const to = snapshots.find(s => s.id === toId);
+    if (!from || !to) {
+      setError('Select a start and an end snapshot.');
+      return;
+    }
+    try {
+      const scoped = scope ? records.filter(r => r.deal.id === scope) : records;
+      setExplain(explainPnl(scoped, from.market, to.market, reportingCurrency));
+      setError('');
+    } catch (e) {
+      setExplain(null);
+      setError(e instanceof Error ? e.message : 'Unable to explain the P&L.');
+    }
+  };
+
+  const format = (value: number) => formatAmount(value, numberFormat);
+  const valueClass = (value: number) => `font-mono ${value < -0.005 ? 'text-negative' : 'text-gray-900'}`;
+  const categoryTotal = (deal: DealPnl, category: PnlCategory) =>
+    deal.steps.filter(s => s.category === category).reduce((acc, s) => acc + s.value, 0);
+  const selectClass = "form-select rounded-lg border-gray-200 text-sm font-medium";
+
+  return (
+    <div className="p-4 md:p-8 max-w-7xl mx-auto w-full pb-20 animate-in fade-in duration-500">
+      <header className="flex flex-wrap justify-between items-end gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-black tracking-tight text-gray-900">P&amp;L Explain</h1>
+          <p className="text-gray-500">Revalue deals on two market snapshots and attribute the change in {reportingCurrency}.</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <label>
+            <span className="text-xs font-medium text-gray-500 mb-1 block">From</span>
+            <select className={selectClass} value={fromId} onChange={e => setFromId(e.target.value)}>
+              <option value="">Select...</option>
+              {snapshots.map(s => <option key={s.id} value={s.id}>{s.asOf} · {s.name}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className="text-xs font-medium text-gray-500 mb-1 block">To</span>
+            <select className={selectClass} value={toId} onChange={e => setToId(e.target.value)}>
+              <option value="">Select...</option>
+              {snapshots.map(s => <option key={s.id} value={s.id}>{s.asOf} · {s.name}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className="text-xs font-medium text-gray-500 mb-1 block">Scope</span>
+            <select className={selectClass} value={scope} onChange={e => setScope(e.target.value)}>
+              <option value="">Whole portfolio</option>
+              {records.map(r => r.deal.id && <option key={r.deal.id} value={r.deal.id}>{r.deal.id}</option>)}
+            </select>
+          </label>
+          <button onClick={handleRun} className="px-4 py-2 rounded-lg bg-primary text-white text-sm font-bold shadow-sm hover:bg-blue-600 flex items-center gap-2 transition-all">
+            <span className="material-symbols-outlined text-sm">play_arrow</span>
+            Explain
+          </button>
+        </div>
+      </header>
+
+      {snapshots.length < 2 && (
+        <p className="text-sm text-gray-500 mb-6">Save at least two dated market snapshots from the Curves page to compare valuations.</p>
+      )}
+      {error && <p className="text-negative text-sm font-medium mb-6">{error}</p>}
+
+      {explain && (
+        <>
+          <section className="grid grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+            {[
+              { label: `Value on ${explain.fromDate}`, value: explain.startValue },
+              { label: `Value on ${explain.toDate}`, value: explain.endValue },
+              { label: 'Cash settled', value: explain.cash },
+              { label: 'Total P&L', value: explain.total }
+            ].map(kpi => (
+              <div key={kpi.label} className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+                <p className="text-gray-500 font-medium text-sm">{kpi.label}</p>
+                <p className={`text-2xl font-bold tracking-tight mt-1 ${kpi.value < 0 ? 'text-negative' : 'text-gray-900'}`}>{format(kpi.value)}</p>
+              </div>
+            ))}
+          </section>
+
+          <section className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+              <h3 className="font-bold text-gray-900 p-4 border-b border-gray-100">Attribution ({explain.reportingCurrency})</h3>
+              <table className="w-full text-sm text-left">
+                <tbody className="divide-y divide-gray-100">
+                  {explain.steps.map(s => (
+                    <tr key={`${s.category}-${s.label}`}>
+                      <td className="px-4 py-2 font-medium text-gray-700">{s.label}</td>
+                      <td className={`px-4 py-2 text-right ${valueClass(s.value)}`}>{format(s.value)}</td>
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50 font-bold">
+                    <td className="px-4 py-2 text-gray-900">Total</td>
+                    <td className={`px-4 py-2 text-right ${valueClass(explain.total)}`}>{format(explain.total)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+              <div className="h-72 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={explain.steps} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+                    <XAxis dataKey="label" fontSize={11} tickLine={false} axisLine={false} interval={0} />
+                    <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v: number) => v.toLocaleString(undefined, { notation: 'compact' })} />
+                    <Tooltip formatter={(v: number) => format(v)} />
+                    <Bar dataKey="value" name="P&L" fill="#137fec" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </section>
+
+          <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-gray-50 text-xs uppercase text-gray-500 font-semibold tracking-wide">
+                <tr>
+                  <th className="px-4 py-3">Deal</th>
+                  <th className="px-4 py-3 text-right">Start</th>
+                  <th className="px-4 py-3 text-right">End</th>
+                  <th className="px-4 py-3 text-right">Cash</th>
+                  {PNL_DEAL_COLUMNS.map(c => <th key={c} className="px-4 py-3 text-right">{PNL_CATEGORY_LABELS[c]}</th>)}
+                  <th className="px-4 py-3 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {explain.deals.map(d => (
+                  <tr key={d.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-4 py-2 font-medium text-gray-900">{d.id}{d.isNew && <span className="ml-2 text-xs font-bold text-primary">NEW</span>}</td>
+                    <td className={`px-4 py-2 text-right ${valueClass(d.startValue)}`}>{format(d.startValue)}</td>
+                    <td className={`px-4 py-2 text-right ${valueClass(d.endValue)}`}>{format(d.endValue)}</td>
+                    <td className={`px-4 py-2 text-right ${valueClass(d.cash)}`}>{format(d.cash)}</td>
+                    {PNL_DEAL_COLUMNS.map(c => {
+                      const value = categoryTotal(d, c);
+                      return <td key={c} className={`px-4 py-2 text-right ${valueClass(value)}`}>{format(value)}</td>;
+                    })}
+                    <td className={`px-4 py-2 text-right font-bold ${valueClass(d.total)}`}>{format(d.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {explain.deals.length === 0 && <p className="p-6 text-sm text-gray-500">No deals were live between the two dates.</p>}
+          </div>
+          {explain.errors.map(e => <p key={e.id} className="text-negative text-sm font-medium mt-2">{e.id}: {e.message}</p>)}
+        </>
+      )}
+    </div>
+  );
+};
+
+const HISTORY_PAGE_SIZE = 50;
+
+const HistoryPage = ({ runs, snapshots, numberFormat, onOpen }: { runs: PricingRun[], snapshots: MarketSnapshot[], numberFormat: NumberFormat, onOpen: (run: PricingRun) => void }) => {
+  const [dealFilter, setDealFilter] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [limit, setLimit] = useState(HISTORY_PAGE_SIZE);
+
+  const dealIds = Array.from(new Set(runs.map(r => r.deal.id ?? ''))).filter(Boolean).sort();
+  const filtered = dealFilter ? runs.filter(r => r.deal.id === dealFilter) : runs;
+  const selectedRuns = runs.filter(r => selected.includes(r.id));
+  // Only runs of the same deal can be compared, two at a time
+  const selectable = (run: PricingRun) => selected.includes(run.id)
+    || (selected.length < 2 && selectedRuns.every(r => r.deal.id === run.deal.id));
+  const toggle = (id: string) => setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+  // Older run on the left, whatever order they were picked in
+  const [before, after] = [...selectedRuns].sort((a, b) => a.pricedAt.localeCompare(b.pricedAt));
+  const diff: RunFieldDiff[] = before && after ? diffRuns(before, after) : [];
+  const changed = diff.filter(d => d.changed);
+  const shown = showUnchanged ? diff : changed;
+
+  const marketLabel = (run: PricingRun) => run.marketSnapshotId
+    ? snapshots.find(s => s.id === run.marketSnapshotId)?.name ?? run.marketSnapshotId
+    : 'Working market';
+  const showValue = (value: RunFieldDiff['before']) => value === undefined ? '—'
+    : typeof value === 'number' ? value.toLocaleString(numberFormat.locale || undefined, { maximumFractionDigits: 8 })
+    : String(value);
+  const change = (d: RunFieldDiff) => typeof d.before === 'number' && typeof d.after === 'number' && d.changed
+    ? formatAmount(d.after - d.before, numberFormat, Math.abs(d.after - d.before) < 1 ? 6 : numberFormat.decimals)
+    : '';
+  const selectClass = "form-select rounded-lg border-gray-200 text-sm font-medium";
+
+  return (
+    <div className="p-4 md:p-8 max-w-7xl mx-auto w-full pb-20 animate-in fade-in duration-500">
+      <header className="flex flex-wrap justify-between items-end gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-black tracking-tight text-gray-900">Pricing History</h1>
+          <p className="text-gray-500">Every pricing run with the deal, market and results exactly as they were. Tick two runs of a deal to compare them.</p>
+        </div>
+        <label>
+          <span className="text-xs font-medium text-gray-500 mb-1 block">Deal</span>
+          <select className={selectClass} value={dealFilter} onChange={e => { setDealFilter(e.target.value); setLimit(HISTORY_PAGE_SIZE); }}>
+            <option value="">All deals</option>
+            {dealIds.map(id => <option key={id} value={id}>{id}</option>)}
+          </select>
+        </label>
+      </header>
+
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden mb-6">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-gray-50 text-gray-500 uppercase text-xs">
+            <tr>
+              <th className="px-4 py-3 w-10"></th>
+              <th className="px-4 py-3">Run</th>
+              <th className="px-4 py-3">Deal</th>
+              <th className="px-4 py-3">Priced at</th>
+              <th className="px-4 py-3">Market</th>
+              <th className="px-4 py-3">Engine</th>
+              <th className="px-4 py-3 text-right">NPV</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {filtered.slice(0, limit).map(run => (
+              <tr key={run.id} className={`hover:bg-gray-50 ${selected.includes(run.id) ? 'bg-primary/5' : ''}`}>
+                <td className="px-4 py-3">
+                  <input type="checkbox" className="form-checkbox rounded text-primary" checked={selected.includes(run.id)} disabled={!selectable(run)} onChange={() => toggle(run.id)} />
+                </td>
+                <td className="px-4 py-3 font-mono text-gray-900">{run.id}</td>
+                <td className="px-4 py-3 font-medium">{run.deal.id ?? '—'}</td>
+                <td className="px-4 py-3 text-gray-500">{new Date(run.pricedAt).toLocaleString()}</td>
+                <td className="px-4 py-3 text-gray-500">{marketLabel(run)} · {run.market.asOf}</td>
+                <td className="px-4 py-3 text-gray-500">{run.engineVersion}</td>
+                <td className={`px-4 py-3 text-right font-mono ${run.result.npvTotal < 0 ? 'text-negative' : 'text-gray-900'}`}>{run.result.reportingCurrency} {formatAmount(run.result.npvTotal, numberFormat)}</td>
+                <td className="px-4 py-3 text-right">
+                  <button onClick={() => onOpen(run)} className="text-primary text-sm font-bold hover:underline">Open</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filtered.length === 0 && <p className="p-6 text-sm text-gray-500">No pricing runs yet. Runs are recorded each time a deal is priced.</p>}
+        {filtered.length > limit && (
+          <button onClick={() => setLimit(limit + HISTORY_PAGE_SIZE)} className="w-full p-3 text-primary text-sm font-bold hover:bg-gray-50 border-t border-gray-100">
+            Show more ({filtered.length - limit} older)
+          </button>
+        )}
+      </div>
+
+      {before && after && (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-4 border-b border-gray-100 flex flex-wrap justify-between items-center gap-4">
+            <div>
+              <h3 className="font-bold text-gray-900">{before.id} vs {after.id}</h3>
+              <p className="text-sm text-gray-500">{changed.length} of {diff.length} fields differ</p>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input type="checkbox" className="form-checkbox rounded text-primary" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} />
+              Show unchanged fields
+            </label>
+          </div>
+          <div className="overflow-x-auto max-h-[32rem]">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-gray-50 text-gray-500 uppercase text-xs sticky top-0">
+                <tr>
+                  <th className="px-4 py-3">Field</th>
+                  <th className="px-4 py-3 text-right">{before.id}</th>
+                  <th className="px-4 py-3 text-right">{after.id}</th>
+                  <th className="px-4 py-3 text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {shown.map(d => (
+                  <tr key={d.field} className={d.changed ? '' : 'text-gray-400'}>
+                    <td className="px-4 py-2 font-mono text-xs">{d.field}</td>
+                    <td className="px-4 py-2 text-right font-mono">{showValue(d.before)}</td>
+                    <td className={`px-4 py-2 text-right font-mono ${d.changed ? 'font-bold text-gray-900' : ''}`}>{showValue(d.after)}</td>
+                    <td className="px-4 py-2 text-right font-mono text-gray-500">{change(d)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {shown.length === 0 && <p className="p-6 text-sm text-gray-500">The two runs are identical.</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SettingsPage = ({ settings, snapshots, onSave, onReset }: { settings: AppSettings, snapshots: MarketSnapshot[], onSave: (settings: AppSettings) => Promise<void>, onReset: () => Promise<void> }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [templates, setTemplates] = useState<DealTemplate[]>(BUILT_IN_TEMPLATES);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => setDraft(settings), [settings]);
+
+  useEffect(() => {
+    templateRepository.list()
+      .then(setTemplates)
+      .catch(e => console.error("Failed to load templates:", e));
+  }, []);
+
+  const update = (changes: Partial<AppSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setMessage('');
+  };
+  // An empty choice removes the currency's entry so it follows the default again
+  const updateEntry = (field: 'defaultCurves' | 'legCalendars', currency: string, value: string) => {
+    const { [currency]: _, ...rest } = draft[field];
+    update({ [field]: value ? { ...rest, [currency]: value } : rest });
+  };
+
+  // Each provider has its own model names, so switching starts from its first one
+  const changeProvider = (provider: AppSettings['ai']['provider']) =>
+    update({ ai: { ...draft.ai, provider, model: AI_MODELS[provider][0] } });
+
+  const handleSave = async () => {
+    try {
+      await onSave(draft);
+      setError('');
+      setMessage('Settings saved.');
+    } catch (e) {
+      setMessage('');
+      setError(e instanceof Error ? e.message : 'Unable to save the settings.');
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Reset every setting to its default?')) return;
+    await onReset();
+    setError('');
+    setMessage('Settings reset to the defaults.');
+  };
+
+  const selectClass = "form-select rounded-lg border-gray-200 text-sm font-medium focus:border-primary focus:ring-primary/20";
+  const inputClass = "form-input rounded-lg border-gray-200 text-sm font-medium focus:border-primary focus:ring-primary/20";
+  const cardClass = "bg-white rounded-xl border border-gray-200 shadow-sm p-6 mb-6";
+  const labelClass = "text-xs font-medium text-gray-500 mb-1 block";
+
+  return (
+    <div className="p-4 md:p-8 max-w-5xl mx-auto w-full pb-20 animate-in fade-in duration-500">
+      <header className="mb-8">
+        <h1 className="text-3xl font-black tracking-tight text-gray-900">Settings</h1>
+        <p className="text-gray-500">Pricing defaults and environment configuration, stored in this browser.</p>
+      </header>
+
+      <section className={cardClass}>
+        <h3 className="font-bold text-gray-900 mb-4">Pricing defaults</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label>
+            <span className={labelClass}>Reporting currency</span>
+            <select className={`${selectClass} w-full`} value={draft.reportingCurrency} onChange={e => update({ reportingCurrency: e.target.value })}>
+              {SUPPORTED_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>New deals start from</span>
+            <select className={`${selectClass} w-full`} value={draft.defaultTemplateId} onChange={e => update({ defaultTemplateId: e.target.value })}>
+              {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>Valuation date</span>
+            <select className={`${selectClass} w-full`} value={draft.valuationDateRule} onChange={e => update({ valuationDateRule: e.target.value as AppSettings['valuationDateRule'] })}>
+              {Object.entries(VALUATION_DATE_RULE_LABELS).map(([rule, label]) => <option key={rule} value={rule}>{label}</option>)}
+            </select>
+          </label>
+          {draft.valuationDateRule === 'Fixed' && (
+            <label>
+              <span className={labelClass}>Fixed valuation date</span>
+              <input type="date" className={`${inputClass} w-full`} value={draft.fixedValuationDate} onChange={e => update({ fixedValuationDate: e.target.value })} />
+            </label>
+          )}
+          {draft.valuationDateRule === 'PreviousBusinessDay' && (
+            <label>
+              <span className={labelClass}>Business days on</span>
+              <select className={`${selectClass} w-full`} value={draft.valuationCalendar} onChange={e => update({ valuationCalendar: e.target.value })}>
+                {CALENDAR_CODES.map(code => <option key={code} value={code}>{calendarName(code)}</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+        <p className="text-xs text-gray-400 mt-3">Sets the Dashboard as-of date on start-up and the value date of new deals in the pricer; today it resolves to {resolveValuationDate(draft)}.</p>
+      </section>
+
+      <section className={cardClass}>
+        <h3 className="font-bold text-gray-900 mb-1">Curves and calendars</h3>
+        <p className="text-sm text-gray-500 mb-4">The curve loaded into the working market for each currency, and the holiday calendar new legs use.</p>
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-500 uppercase">
+            <tr>
+              <th className="py-2 text-left">Currency</th>
+              <th className="py-2 text-left">Default curve</th>
+              <th className="py-2 text-left">Calendar</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {SUPPORTED_CURRENCIES.map(currency => (
+              <tr key={currency}>
+                <td className="py-2 font-bold text-gray-900">{currency}</td>
+                <td className="py-2 pr-4">
+                  <select className={`${selectClass} w-full`} value={draft.defaultCurves[currency] ?? ''} onChange={e => updateEntry('defaultCurves', currency, e.target.value)}>
+                    <option value="">Built-in market data</option>
+                    {snapshots.filter(s => s.market.curves[currency]).map(s => <option key={s.id} value={s.id}>{s.asOf} · {s.name}</option>)}
+                  </select>
+                </td>
+                <td className="py-2">
+                  <select className={`${selectClass} w-full`} value={draft.legCalendars[currency] ?? ''} onChange={e => updateEntry('legCalendars', currency, e.target.value)}>
+                    <option value="">Currency default ({defaultCalendar(currency)})</option>
+                    {CALENDAR_CODES.map(code => <option key={code} value={code}>{calendarName(code)}</option>)}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className={cardClass}>
+        <h3 className="font-bold text-gray-900 mb-4">Number formatting</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <label>
+            <span className={labelClass}>Separators</span>
+            <select className={`${selectClass} w-full`} value={draft.numberFormat.locale} onChange={e => update({ numberFormat: { ...draft.numberFormat, locale: e.target.value } })}>
+              {NUMBER_LOCALES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>Decimals on amounts</span>
+            <input type="number" min={0} max={6} className={`${inputClass} w-full`} value={Number.isFinite(draft.numberFormat.decimals) ? draft.numberFormat.decimals : ''} onChange={e => update({ numberFormat: { ...draft.numberFormat, decimals: e.target.value === '' ? NaN : Number(e.target.value) } })} />
+          </label>
+          <p className="text-sm text-gray-500 pb-2">Preview: <span className="font-mono text-gray-900">{Number.isInteger(draft.numberFormat.decimals) && draft.numberFormat.decimals >= 0 && draft.numberFormat.decimals <= 6 ? formatAmount(-1234567.891, draft.numberFormat) : '—'}</span></p>
+        </div>
+      </section>
+
+      <section className={cardClass}>
+        <h3 className="font-bold text-gray-900 mb-4">AI assistant</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label>
+            <span className={labelClass}>Provider</span>
+            <select className={`${selectClass} w-full`} value={draft.ai.provider} onChange={e => changeProvider(e.target.value as AppSettings['ai']['provider'])}>
+              {Object.entries(AI_PROVIDER_LABELS).map(([provider, label]) => <option key={provider} value={provider}>{label}</option>)}
+            </select>
+          </label>
+          {draft.ai.provider !== 'mock' && <label>
+            <span className={labelClass}>Model</span>
+            <input list="ai-models" className={`${inputClass} w-full`} value={draft.ai.model} onChange={e => update({ ai: { ...draft.ai, model: e.target.value } })} />
+            <datalist id="ai-models">
+              {AI_MODELS[draft.ai.provider].map(m => <option key={m} value={m} />)}
+            </datalist>
+          </label>}
+          {draft.ai.provider === 'openai-compatible' && <label>
+            <span className={labelClass}>Base URL</span>
+            <input className={`${inputClass} w-full`} value={draft.ai.baseUrl} onChange={e => update({ ai: { ...draft.ai, baseUrl: e.target.value } })} />
+          </label>}
+          {draft.ai.provider !== 'mock' && <label>
+            <span className={labelClass}>API key</span>
+            <input type="password" autoComplete="off" placeholder={draft.ai.provider === 'gemini' && process.env.API_KEY ? 'Using the build key' : 'Not set'} className={`${inputClass} w-full`} value={draft.ai.apiKey} onChange={e => update({ ai: { ...draft.ai, apiKey: e.target.value } })} />
+          </label>}
+        </div>
+        <p className="text-xs text-gray-400 mt-3">{draft.ai.provider === 'mock'
+          ? 'The offline stand-in answers from the pricing numbers with fixed rules; nothing leaves the browser.'
+          : draft.ai.provider === 'gemini'
+            ? "The key is kept in this browser's local storage and sent only to the provider. Leave it empty to use the key the app was built with."
+            : "Local servers such as Ollama usually need no key. The key, if any, is kept in this browser's local storage."}</p>
+      </section>
+
+      <div className="flex flex-wrap items-center justify-end gap-3">
+        {error && <p className="text-negative text-sm font-medium mr-auto">{error}</p>}
+        {message && <p className="text-sm text-gray-500 mr-auto">{message}</p>}
+        <button onClick={handleReset} className="px-4 py-2 rounded-lg border border-gray-200 text-sm font-bold text-gray-700 hover:bg-gray-50">Reset to defaults</button>
+        <button onClick={handleSave} className="px-4 py-2 rounded-lg bg-primary text-white text-sm font-bold shadow-sm hover:bg-blue-600 flex items-center gap-2 transition-all">
+          <span className="material-symbols-outlined text-sm">save</span>
+          Save settings
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const App: React.FC = () => {
   const [currentPage, setPage] = useState<Page>(Page.DASHBOARD);
-  const [currentDeal, setCurrentDeal] = useState<SwapDeal | null>(null);
-  const [pricingResult, setPricingResult] = useState<PricingResult | null>(null);
+  // The run shown on the Results page, either just priced or reopened from the history
+  const [currentRun, setCurrentRun] = useState<PricingRun | null>(null);
+  const [historyError, setHistoryError] = useState('');
+  const [runs, setRuns] = useState<PricingRun[]>([]);
+  const [market, setMarket] = useState<MarketData>(DEFAULT_MARKET_DATA);
+  const [reportingCurrency, setReportingCurrency] = useState<string>(DEFAULT_SETTINGS.reportingCurrency);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   
-  // Initial Mock Data
-  const [deals, setDeals] = useState<SwapDeal[]>([
-      { 
-          id: 'SWP-001', 
-          status: 'Active',
-          valueDate: '2024-01-01',
-          startDate: '2024-01-03',
-          endDate: '2025-12-31',
-          leg1: { currency: 'BRL', notional: 5000000, rate: 1.1, type: 'Floating', frequency: 'Quarterly', convention: 'Actual/365' },
-          leg2: { currency: 'USD', notional: 1000000, rate: 4.5, type: 'Fixed', frequency: 'Semi-Annual', convention: '30/360' }
-      },
-      { 
-          id: 'SWP-002', 
-          status: 'Active',
-          valueDate: '2024-02-15',
-          startDate: '2024-02-17',
-          endDate: '2026-06-15',
-          leg1: { currency: 'EUR', notional: 2500000, rate: 0.5, type: 'Floating', frequency: 'Semi-Annual', convention: 'Actual/360' },
-          leg2: { currency: 'JPY', notional: 350000000, rate: 0.1, type: 'Fixed', frequency: 'Annual', convention: 'Actual/365' }
-      },
-      { 
-          id: 'SWP-003', 
-          status: 'Pending',
-          valueDate: '2023-08-29',
-          startDate: '2023-09-01',
-          endDate: '2024-09-01',
-          leg1: { currency: 'GBP', notional: 1000000, rate: 1.5, type: 'Fixed', frequency: 'Annual', convention: 'Actual/365' },
-          leg2: { currency: 'AUD', notional: 1800000, rate: 3.2, type: 'Floating', frequency: 'Quarterly', convention: 'Actual/365' }
-      }
-  ]);
-
-  const handleCalculate = (inputDeal: SwapDeal) => {
-    // 1. Generate ID
-    const newId = `SWP-${(deals.length + 1).toString().padStart(3, '0')}`;
-    
-    // 2. Calculate Logic
-    const cashflows = generateSmartCashflows(inputDeal);
-    
-    // Calculate rudimentary NPV sums from generated flows
-    const sumPv = cashflows.reduce((acc, row) => acc + row.presentValue, 0);
-    const leg1Sum = cashflows.reduce((acc, row) => acc + row.leg1Flow, 0); // This is raw sum, typically we'd discount
-    const leg2Sum = cashflows.reduce((acc, row) => acc + row.leg2Flow, 0);
-
-    // Approximating realistic principal based on Leg 2 Notional
-    const principal = inputDeal.leg2.notional;
-    
-    const result: PricingResult = {
-      npvTotal: sumPv,
-      npvTotalFormatted: `USD ${sumPv.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`,
-      spread: Math.abs(inputDeal.leg1.rate - inputDeal.leg2.rate) * 100, // Simple spread calc
-      principal: principal,
-      leg1Npv: leg1Sum, // Displaying raw sum for demo visualization
-      leg2Npv: leg2Sum,
-      cashflows: cashflows
-    };
-    
-    const newDeal = { ...inputDeal, id: newId, status: 'Active' as const };
-    
-    // 3. Update State
-    setDeals(prev => [newDeal, ...prev]);
-    setCurrentDeal(newDeal);
-    setPricingResult(result);
-    
-    // 4. Navigate
+  const [records, setRecords] = useState<DealRecord[]>([]);
+  const [editingDeal, setEditingDeal] = useState<SwapDeal | null>(null);
+  const [asOfDate, setAsOfDate] = useState<string>(() => formatDate(new Date()));
+  const [snapshots, setSnapshots] = useState<MarketSnapshot[]>([]);
+  // Pricing uses the working market from the Curves page unless a stored snapshot is selected
+  const [pricingSnapshotId, setPricingSnapshotId] = useState('');
+  const pricingSnapshot = snapshots.find(s => s.id === pricingSnapshotId);
+  const pricingMarket = useMemo(() => pricingSnapshot?.market ?? market, [pricingSnapshot, market]);
+  const deals = records.map(r => r.deal);
+  // Status always reflects the as-of date rather than whatever was stored
+  const liveRecords = useMemo(() => records.map(r => withLifecycleStatus(r, asOfDate)), [records, asOfDate]);
+
+  useEffect(() => {
+    dealRepository.list()
+      .then(setRecords)
+      .catch(error => console.error("Failed to load deals:", error));
+    runRepository.list()
+      .then(setRuns)
+      .catch(error => console.error("Failed to load pricing runs:", error));
+    // Default curves come from snapshots, so settings are applied once both have loaded
+    Promise.all([settingsRepository.load(), snapshotRepository.list()])
+      .then(([loaded, stored]) => {
+        setSnapshots(stored);
+        applySettings(loaded, stored);
+      })
+      .catch(error => console.error("Failed to load settings and market snapshots:", error));
+  }, []);
+
+  // Only what changed is pushed into the session, so saving settings keeps the user's other edits
+  const applySettings = (next: AppSettings, stored: MarketSnapshot[], previous?: AppSettings) => {
+    setSettings(next);
+    if (next.reportingCurrency !== previous?.reportingCurrency) setReportingCurrency(next.reportingCurrency);
+    const valuationDate = resolveValuationDate(next);
+    if (!previous || valuationDate !== resolveValuationDate(previous)) setAsOfDate(valuationDate);
+    if (JSON.stringify(next.defaultCurves) !== JSON.stringify(previous?.defaultCurves ?? {})) {
+      setMarket(prev => applyDefaultCurves(prev, stored, next.defaultCurves));
+    }
+  };
+
+  const handleSaveSettings = async (next: AppSettings) => {
+    applySettings(await settingsRepository.save(next), snapshots, settings);
+  };
+
+  const handleResetSettings = async () => {
+    applySettings(await settingsRepository.reset(), snapshots, settings);
+  };
+
+  const handleSaveSnapshot = async (name: string, snapshotMarket: MarketData = market) => {
+    await snapshotRepository.save(name, snapshotMarket);
+    setSnapshots(await snapshotRepository.list());
+  };
+
+  const handleRemoveSnapshot = async (id: string) => {
+    await snapshotRepository.remove(id);
+    if (id === pricingSnapshotId) setPricingSnapshotId('');
+    setSnapshots(await snapshotRepository.list());
+  };
+
+  const saveRecord = async (record: DealRecord) => {
+    const saved = await dealRepository.save(withLifecycleStatus(record, asOfDate));
+    setRecords(prev => prev.some(r => r.deal.id === saved.deal.id)
+      ? prev.map(r => r.deal.id === saved.deal.id ? saved : r)
+      : [saved, ...prev]);
+  };
+
+  const findRecord = (id?: string) => id ? records.find(r => r.deal.id === id) : undefined;
+
+  // Every pricing is recorded as a run, but results never wait on the history or fail with it.
+  // The run is used at once without an ID; the recorded copy shares its result, which is how the Results page finds its ID.
+  const priceAndRecord = (deal: SwapDeal, runMarket: MarketData, marketSnapshotId: string, ccy: string): PricingRun => {
+    const pending = createPricingRun(deal, runMarket, marketSnapshotId, priceSwapWithRisk(deal, runMarket, ccy));
+    runRepository.record(pending)
+      .then(saved => {
+        setRuns(prev => [saved, ...prev]);
+        setHistoryError('');
+      })
+      .catch(e => setHistoryError(e instanceof Error ? e.message : 'Unable to record the pricing run.'));
+    return { ...pending, id: '' };
+  };
+
+  const priceOnPricingMarket = (deal: SwapDeal) =>
+    priceAndRecord(deal, pricingMarket, pricingSnapshot?.id ?? '', reportingCurrency);
+
+  const showRun = (run: PricingRun) => {
+    setCurrentRun(run);
     setPage(Page.RESULTS);
   };
 
+  const navigate = (page: Page) => {
+    // Going to the pricer from navigation always starts a new deal
+    if (page === Page.PRICER) setEditingDeal(null);
+    setPage(page);
+  };
+
+  // New deals are booked; changes to an existing one are recorded as an amendment on the as-of date
+  const commitDeal = async (inputDeal: SwapDeal) => {
+    const existing = findRecord(inputDeal.id);
+    const record = existing
+      ? amendDeal(existing, inputDeal, asOfDate)
+      : bookDeal({ ...inputDeal, id: inputDeal.id ?? nextDealId(deals) });
+    const run = priceOnPricingMarket(record.deal);
+    await saveRecord({ ...record, result: run.result });
+    showRun(run);
+  };
+
+  const handleCalculate = async (inputDeal: SwapDeal) => {
+    await commitDeal(inputDeal);
+    setEditingDeal(null);
+  };
+
+  const dashboardActions: DashboardActions = {
+    onEdit: (deal) => {
+      setEditingDeal(deal);
+      setPage(Page.PRICER);
+    },
+    onDuplicate: (deal) => {
+      const { id, status, ...copy } = deal;
+      setEditingDeal(copy);
+      setPage(Page.PRICER);
+    },
+    onDelete: async (deal) => {
+      if (!deal.id || !window.confirm(`Delete ${deal.id}? This cannot be undone.`)) return;
+      await dealRepository.remove(deal.id);
+      setRecords(prev => prev.filter(r => r.deal.id !== deal.id));
+    },
+    onReprice: async (deal) => {
+      const run = priceOnPricingMarket(deal);
+      await saveRecord({ ...(findRecord(deal.id) ?? { deal, updatedAt: '' }), result: run.result });
+      showRun(run);
+    },
+    onLifecycleEvent: async (record) => {
+      await saveRecord(record);
+      // Unwinds change the notionals, so the stored valuation is refreshed; if the deal cannot be priced the last one stays
+      try {
+        await saveRecord({ ...record, result: priceOnPricingMarket(record.deal).result });
+      } catch (error) {
+        console.error("Failed to reprice after the lifecycle event:", error);
+      }
+    },
+    onImport: async (imported) => {
+      // Imported deals are booked like new ones and priced on the next re-price
+      const saved = await Promise.all(imported.map(deal => dealRepository.save(withLifecycleStatus(bookDeal(deal), asOfDate))));
+      setRecords(prev => [...saved, ...prev]);
+    }
+  };
+
+  const handleApplyDeal = (updatedDeal: SwapDeal) => commitDeal(updatedDeal);
+
+  // Repricing in another currency is a new run on the same inputs as the one on screen
+  // The currency only changes once the run prices in it, so a failure leaves the page as it was
+  const handleReportingCurrencyChange = async (ccy: string) => {
+    if (currentRun) {
+      setCurrentRun(priceAndRecord(currentRun.deal, currentRun.market, currentRun.marketSnapshotId, ccy));
+    }
+    setReportingCurrency(ccy);
+  };
+
   return (
     <div className="flex min-h-screen w-full bg-background-light font-display text-gray-900">
-      <Sidebar currentPage={currentPage} setPage={setPage} />
+      <Sidebar currentPage={currentPage} setPage={navigate} />
       <div className="flex flex-col flex-1 w-full h-screen overflow-hidden">
-        <MobileHeader setPage={setPage} />
+        <MobileHeader setPage={navigate} />
         <main className="flex-1 overflow-y-auto scroll-smooth">
-           {currentPage === Page.DASHBOARD && <Dashboard setPage={setPage} deals={deals} />}
-           {currentPage === Page.PRICER && <PricerForm onCalculate={handleCalculate} />}
-           {currentPage === Page.RESULTS && currentDeal && pricingResult && <ResultsPage deal={currentDeal} result={pricingResult} />}
+           {historyError && <p className="text-negative text-sm font-medium px-4 md:px-8 pt-4">{historyError}</p>}
+           {currentPage === Page.DASHBOARD && <Dashboard setPage={navigate} records={liveRecords} actions={dashboardActions} asOf={asOfDate} onAsOfChange={setAsOfDate} market={pricingMarket} reportingCurrency={reportingCurrency} numberFormat={settings.numberFormat} />}
+           {currentPage === Page.PRICER && <PricerForm initialDeal={editingDeal} onCalculate={handleCalculate} market={pricingMarket} settings={settings} snapshots={snapshots} snapshotId={pricingSnapshotId} onSnapshotChange={setPricingSnapshotId} />}
+           {currentPage === Page.RESULTS && currentRun && <ResultsPage run={runs.find(r => r.result === currentRun.result) ?? currentRun} numberFormat={settings.numberFormat} aiLabel={aiProviderLabel(settings.ai)} onReportingCurrencyChange={handleReportingCurrencyChange} onApplyDeal={handleApplyDeal} />}
+           {currentPage === Page.CURVES && <CurvesPage market={market} onChange={setMarket} snapshots={snapshots} onSaveSnapshot={handleSaveSnapshot} />}
+           {currentPage === Page.MARKET_DATA && <MarketDataPage market={market} snapshots={snapshots} onSave={handleSaveSnapshot} onRemove={handleRemoveSnapshot} onLoad={snapshot => { setMarket(snapshot.market); setPage(Page.CURVES); }} />}
+           {currentPage === Page.PNL && <PnlPage records={liveRecords} snapshots={snapshots} reportingCurrency={reportingCurrency} numberFormat={settings.numberFormat} />}
+           {currentPage === Page.HISTORY && <HistoryPage runs={runs} snapshots={snapshots} numberFormat={settings.numberFormat} onOpen={showRun} />}
+           {currentPage === Page.SETTINGS && <SettingsPage settings={settings} snapshots={snapshots} onSave={handleSaveSettings} onReset={handleResetSettings} />}
         </main>
       </div>
     </div>
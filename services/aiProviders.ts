@@ -0,0 +1,80 @@
+import { GoogleGenAI } from "@google/genai";
+import { AppSettings } from "../types";
+
+export interface AiRequest {
+  prompt: string;
+  // JSON schema the reply must follow; plain text when missing
+  schema?: object;
+  // What the offline stand-in answers, worked out from the data rather than a model
+  offlineResponse: () => string;
+}
+
+// A model behind a single call. Replies are raw text, JSON when a schema was given.
+export interface AiProviderClient {
+  generate: (request: AiRequest) => Promise<string>;
+}
+
+export const AI_PROVIDER_LABELS: Record<AppSettings['ai']['provider'], string> = {
+  gemini: 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible',
+  mock: 'Offline stand-in'
+};
+
+export const aiProviderLabel = (ai: AppSettings['ai']): string =>
+  ai.provider === 'mock' ? AI_PROVIDER_LABELS.mock : `${AI_PROVIDER_LABELS[ai.provider]} · ${ai.model}`;
+
+export const createGeminiProvider = (apiKey: string, model: string): AiProviderClient => {
+  const client = new GoogleGenAI({ apiKey });
+  return {
+    generate: async ({ prompt, schema }) => {
+      const response = await client.models.generateContent({
+        model,
+        contents: prompt,
+        config: schema ? { responseMimeType: 'application/json', responseJsonSchema: schema } : undefined
+      });
+      return response.text ?? '';
+    }
+  };
+};
+
+// Chat completions as served by OpenAI, Ollama, LM Studio, vLLM and others
+export const createOpenAiCompatibleProvider = (baseUrl: string, model: string, apiKey = ''): AiProviderClient => ({
+  generate: async ({ prompt, schema }) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema, strict: true } } } : {})
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`${baseUrl} answered ${response.status} ${response.statusText}`);
+    }
+    const body = await response.json() as { choices?: { message?: { content?: string } }[] };
+    return body.choices?.[0]?.message?.content ?? '';
+  }
+});
+
+// Deterministic and offline, for demos and for working without a key
+export const createMockProvider = (): AiProviderClient => ({
+  generate: async ({ offlineResponse }) => offlineResponse()
+});
+
+// A key entered on the Settings page takes precedence over the one the app was built with
+export const providerFromSettings = (ai: AppSettings['ai']): AiProviderClient => {
+  switch (ai.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(ai.baseUrl, ai.model, ai.apiKey);
+    default: {
+      const apiKey = ai.apiKey || process.env.API_KEY;
+      if (!apiKey) {
+        throw new Error('No Gemini API key. Add one on the Settings page or choose another AI provider.');
+      }
+      return createGeminiProvider(apiKey, ai.model);
+    }
+  }
+};
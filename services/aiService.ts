@@ -1,98 +1,185 @@
-import { GoogleGenAI } from "@google/genai";
-import { SwapDeal, PricingResult } from "../types";
+import { SwapDeal, SwapLeg, PricingResult, DealAnalysis, RiskFlagSeverity } from "../types";
+import { settingsRepository } from "./settingsRepository";
+import { providerFromSettings } from "./aiProviders";
+import { resolveIndex } from "./indices";
+import { daysBetween, parseDate } from "./dateUtils";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const SEVERITIES: RiskFlagSeverity[] = ['low', 'medium', 'high'];
+// Long deals have too many flows to list in full; the rest are summarised
+const MAX_PROMPT_CASHFLOWS = 40;
+const MAX_PROMPT_KEY_RATES = 10;
 
-export const analyzeSwapDeal = async (deal: SwapDeal, result: PricingResult): Promise<string> => {
-  if (!process.env.API_KEY) {
-    return "API Key missing. Unable to perform AI analysis.";
-  }
+export const ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    rationale: { type: 'string', description: 'Economic rationale of the trade in two or three sentences' },
+    riskFlags: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          severity: { type: 'string', enum: SEVERITIES },
+          detail: { type: 'string' }
+        },
+        required: ['title', 'severity', 'detail'],
+        additionalProperties: false
+      }
+    },
+    rateDifferential: { type: 'string', description: 'Comment on the contract rates against par and the rate differential between the legs' }
+  },
+  required: ['rationale', 'riskFlags', 'rateDifferential'],
+  additionalProperties: false
+};
+
+const loadProvider = async () => providerFromSettings((await settingsRepository.load()).ai);
+
+const legTerms = (leg: SwapLeg): string => leg.type === 'Fixed'
+  ? `${leg.currency} fixed ${leg.rate}%`
+  : `${leg.currency} ${resolveIndex(leg.index, leg.currency).code} ${leg.rate >= 0 ? '+' : ''}${leg.rate}%`;
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const analysisPrompt = (deal: SwapDeal, result: PricingResult): string => {
+  const ccy = result.reportingCurrency;
+  const legLine = (leg: SwapLeg, n: 1 | 2) =>
+    `- Leg ${n} (${n === 1 ? 'received' : 'paid'}): ${legTerms(leg)} on ${leg.notional} ${leg.currency}, ${leg.frequency}, ${leg.convention}` +
+    `${leg.initialExchange || leg.finalExchange ? `, exchanges: ${[leg.initialExchange && 'initial', leg.finalExchange && 'final'].filter(Boolean).join(' and ')}` : ''}` +
+    `${leg.notionalReset ? ', notional resets (MTM)' : ''}` +
+    `${leg.notionalSchedule?.length ? `, notional steps: ${leg.notionalSchedule.map(step => `${step.notional} from ${step.date}`).join(', ')}` : ''}`;
+  const flows = result.cashflows.slice(0, MAX_PROMPT_CASHFLOWS)
+    .map(f => `${f.date},${f.leg},${f.currency},${f.flowType},${round(f.leg1Flow + f.leg2Flow)},${round(f.discountFactor, 6)},${round(f.presentValue)}`);
+  const more = result.cashflows.length - flows.length;
+  const risk = result.risk;
+  const keyRates = risk ? [...risk.keyRateDv01].sort((a, b) => Math.abs(b.value) - Math.abs(a.value)).slice(0, MAX_PROMPT_KEY_RATES) : [];
+
+  return `
+    Act as a senior financial derivatives analyst. Analyse the following swap and its pricing, and answer in JSON following the given schema.
+
+    **Deal:**
+    - Value date ${deal.valueDate}, start ${deal.startDate}, maturity ${deal.endDate}
+    ${legLine(deal.leg1, 1)}
+    ${legLine(deal.leg2, 2)}
 
-  const prompt = `
-    Act as a senior financial derivative analyst. Analyze the following Cross-Currency Swap deal and its pricing results.
-    
-    **Deal Parameters:**
-    - Maturity: ${deal.startDate} to ${deal.endDate}
-    - Leg 1 (Payer): ${deal.leg1.currency} ${deal.leg1.notional.toLocaleString()} @ ${deal.leg1.rate}% (${deal.leg1.type})
-    - Leg 2 (Receiver): ${deal.leg2.currency} ${deal.leg2.notional.toLocaleString()} @ ${deal.leg2.rate}% (${deal.leg2.type})
+    **Pricing (${ccy}):**
+    - NPV: ${round(result.npvTotal)}
+    - Leg 1 PV: ${round(result.leg1Npv)} ${deal.leg1.currency} (${round(result.leg1NpvReporting)} ${ccy})
+    - Leg 2 PV: ${round(result.leg2Npv)} ${deal.leg2.currency} (${round(result.leg2NpvReporting)} ${ccy})
+    - PV of principal exchanges: ${round(result.principal)}
+    - Par ${deal[`leg${result.parRateLeg}`].type === 'Fixed' ? 'rate' : 'spread'} of leg ${result.parRateLeg}: ${round(result.parRate, 4)}%; par spread ${round(result.spread, 1)} bps
 
-    **Pricing Results:**
-    - Total NPV: ${result.npvTotalFormatted}
-    - Spread: ${result.spread} bps
-    - Leg 1 NPV: ${deal.leg1.currency} ${result.leg1Npv.toLocaleString()}
-    - Leg 2 NPV: ${deal.leg2.currency} ${result.leg2Npv.toLocaleString()}
+    **Risk (${ccy} per 1bp, FX per +1%):**
+    ${risk ? [
+      `- PV01: ${risk.pv01.map(r => `${r.currency} ${round(r.value)}`).join(', ')}`,
+      `- Spread01: ${risk.basisSpread01.map(r => `leg ${r.leg} ${round(r.value)}`).join(', ') || 'none'}`,
+      `- FX delta: ${risk.fxDelta.map(r => `${r.currency} ${round(r.value)}`).join(', ') || 'none'}`,
+      `- Largest key-rate DV01s: ${keyRates.map(r => `${r.currency} ${r.tenor} ${r.instrument} ${round(r.value)}`).join(', ')}`
+    ].join('\n    ') : '- Not computed'}
+
+    **Cashflows (date,leg,currency,type,amount,discount factor,PV in ${ccy}):**
+    ${flows.join('\n    ')}${more > 0 ? `\n    ... ${more} more` : ''}
 
     **Instructions:**
-    1. Briefly explain the economic rationale of this trade.
-    2. Highlight any arbitrage opportunities or risks based on the NPV.
-    3. Comment on the interest rate differential.
-    4. Keep it concise (under 150 words) and professional.
+    1. rationale: the economic purpose of this trade.
+    2. riskFlags: the main risks (rates, FX, basis, off-market rates, settlement), each with a severity of low, medium or high.
+    3. rateDifferential: the contract rates against par and the differential between the legs.
+    4. Be concise and professional, under 200 words in total.
   `;
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
+// Rule-based analysis from the pricing numbers, answered by the offline stand-in
+export const offlineAnalysis = (deal: SwapDeal, result: PricingResult): DealAnalysis => {
+  const { leg1, leg2 } = deal;
+  const ccy = result.reportingCurrency;
+  const years = daysBetween(parseDate(deal.startDate), parseDate(deal.endDate)) / 365;
+  const crossCurrency = leg1.currency !== leg2.currency;
+  const amount = (value: number) => `${ccy} ${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+  const purpose = crossCurrency
+    ? `It turns ${leg2.currency} cashflows into ${leg1.currency} ones, as used to fund or hedge ${leg1.currency} assets from ${leg2.currency}.`
+    : leg1.type === leg2.type
+      ? `It exchanges one ${leg1.currency} floating index for another, a basis position.`
+      : `It ${leg1.type === 'Fixed' ? 'receives' : 'pays'} fixed against floating in ${leg1.currency}, a view on or hedge of ${leg1.currency} rates.`;
+  const rationale = `Receives ${legTerms(leg1)} and pays ${legTerms(leg2)} over ${years.toFixed(1)} years. ${purpose}`;
+
+  const riskFlags: DealAnalysis['riskFlags'] = [];
+  const risk = result.risk;
+  const [largestPv01] = [...(risk?.pv01 ?? [])].sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+  if (largestPv01) {
+    riskFlags.push({
+      title: `${largestPv01.currency} interest rate risk`,
+      severity: years > 10 ? 'high' : years > 3 ? 'medium' : 'low',
+      detail: `+1bp on the ${largestPv01.currency} curve moves the NPV by ${amount(largestPv01.value)}, ${amount(largestPv01.value * 100)} for a 100bp shift.`
     });
-    return response.text || "No analysis generated.";
-  } catch (error) {
-    console.error("AI Analysis failed:", error);
-    return "Failed to generate analysis. Please check your connection or API limits.";
   }
-};
-
-export const generatePricingCode = async (deal: SwapDeal, language: 'python' | 'cpp'): Promise<string> => {
-  if (!process.env.API_KEY) {
-    return "// API Key missing. Unable to generate code.";
+  const [largestFx] = [...(risk?.fxDelta ?? [])].sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+  if (largestFx && Math.abs(largestFx.value) > 0.005) {
+    riskFlags.push({
+      title: `${largestFx.currency} FX exposure`,
+      severity: Math.abs(largestFx.value) > Math.abs((largestPv01?.value ?? 0) * 100) ? 'high' : 'medium',
+      detail: `A 1% rise in ${largestFx.currency} against ${ccy} moves the NPV by ${amount(largestFx.value)}.`
+    });
+  }
+  if (Math.abs(result.spread) > 50) {
+    riskFlags.push({
+      title: 'Off-market rates',
+      severity: Math.abs(result.spread) > 200 ? 'high' : 'medium',
+      detail: `The par spread is ${result.spread.toFixed(1)} bps, so the deal is worth ${amount(result.npvTotal)} against one struck at par.`
+    });
+  }
+  if (crossCurrency && (leg1.finalExchange || leg2.finalExchange)) {
+    riskFlags.push({
+      title: 'Principal settlement',
+      severity: leg1.notionalReset || leg2.notionalReset ? 'low' : 'medium',
+      detail: leg1.notionalReset || leg2.notionalReset
+        ? 'Notionals are exchanged at maturity, but the resets keep the FX exposure on them small.'
+        : `Notionals are exchanged at maturity at the original FX rate, settling the full move in ${leg1.currency}/${leg2.currency} in one payment.`
+    });
+  }
+  if (leg1.type === 'Floating' && leg2.type === 'Floating') {
+    const spread01 = (risk?.basisSpread01 ?? []).reduce((acc, r) => acc + Math.abs(r.value), 0);
+    riskFlags.push({ title: 'Basis risk', severity: 'low', detail: `Each 1bp on the floating spreads moves the NPV by about ${amount(spread01)}.` });
   }
 
-  const lib = language === 'python' ? 'QuantLib-Python' : 'QuantLib C++';
-  // Note: We escape the backticks in the prompt instructions to ensure valid JS string parsing
-  const prompt = `
-    Act as a Quantitative Developer. Write a complete, executable ${language} script using ${lib} to price the following Cross-Currency Swap.
-
-    **Instrument Details:**
-    - Start Date: ${deal.startDate}
-    - End Date: ${deal.endDate}
-    - Valuation Date: ${deal.valueDate}
-    
-    **Leg 1 (Payer):**
-    - Currency: ${deal.leg1.currency}
-    - Notional: ${deal.leg1.notional}
-    - Rate: ${deal.leg1.rate}%
-    - Type: ${deal.leg1.type}
-    - Frequency: ${deal.leg1.frequency}
-    - Day Count: ${deal.leg1.convention}
-
-    **Leg 2 (Receiver):**
-    - Currency: ${deal.leg2.currency}
-    - Notional: ${deal.leg2.notional}
-    - Rate: ${deal.leg2.rate}%
-    - Type: ${deal.leg2.type}
-    - Frequency: ${deal.leg2.frequency}
-    - Day Count: ${deal.leg2.convention}
-
-    **Requirements:**
-    1. Include necessary imports.
-    2. Mock/Bootstrap simple flat yield curves for both currencies (assume reasonable rates, e.g., 3% and 1.5%).
-    3. Setup the Schedule and VanillaSwap (or CrossCurrencySwap if available in the specific library version, otherwise model as two legs).
-    4. Setup a PricingEngine.
-    5. Print the NPV.
-    6. Add comments explaining the steps.
-    7. Do not use markdown formatting (\`\`\`), just return raw code.
-  `;
+  const parLeg = result.parRateLeg === 1 ? leg1 : leg2;
+  const offBp = (parLeg.rate - result.parRate) * 100;
+  // Above par helps on the received leg 1 and hurts on the paid leg 2
+  const favourable = (offBp > 0) === (result.parRateLeg === 1);
+  const differential = leg1.type === 'Fixed' && leg2.type === 'Fixed'
+    ? ` The fixed coupons differ by ${((leg1.rate - leg2.rate) * 100).toFixed(0)}bp (${leg1.currency} minus ${leg2.currency}).`
+    : '';
+  const rateDifferential = `Leg ${result.parRateLeg} is struck at ${parLeg.rate}% against a par ${parLeg.type === 'Fixed' ? 'rate' : 'spread'} of ${(Math.abs(result.parRate) < 5e-5 ? 0 : result.parRate).toFixed(4)}%, ` +
+    `${Math.abs(offBp).toFixed(1)}bp ${Math.abs(offBp) < 0.05 ? 'from par' : favourable ? 'in our favour' : 'against us'}.${differential}`;
 
+  return { rationale, riskFlags, rateDifferential };
+};
+
+// Models sometimes wrap JSON in a markdown fence despite the schema
+export const parseAnalysis = (text: string): DealAnalysis => {
+  let data: Partial<DealAnalysis>;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-    });
-    let text = response.text || "// No code generated.";
-    // Clean up markdown code blocks if the model adds them despite instructions
-    text = text.replace(/```[a-z]*\n/g, '').replace(/```/g, '');
-    return text;
-  } catch (error) {
-    console.error("Code generation failed:", error);
-    return "// Failed to generate code. Please check your connection.";
+    data = JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, ''));
+  } catch {
+    throw new Error('The AI reply was not valid JSON.');
+  }
+  if (typeof data?.rationale !== 'string' || typeof data.rateDifferential !== 'string' || !Array.isArray(data.riskFlags)) {
+    throw new Error('The AI reply is missing the rationale, risk flags or rate differential.');
   }
-};
\ No newline at end of file
+  return {
+    rationale: data.rationale,
+    rateDifferential: data.rateDifferential,
+    riskFlags: data.riskFlags
+      .filter(f => f && typeof f.title === 'string' && typeof f.detail === 'string')
+      .map(f => ({ title: f.title, detail: f.detail, severity: SEVERITIES.includes(f.severity) ? f.severity : 'medium' }))
+  };
+};
+
+export const analyzeSwapDeal = async (deal: SwapDeal, result: PricingResult): Promise<DealAnalysis> => {
+  const provider = await loadProvider();
+  const reply = await provider.generate({
+    prompt: analysisPrompt(deal, result),
+    schema: ANALYSIS_SCHEMA,
+    offlineResponse: () => JSON.stringify(offlineAnalysis(deal, result))
+  });
+  return parseAnalysis(reply);
+};
@@ -0,0 +1,273 @@
+import { BusinessDayConvention } from '../types';
+import { addDays, formatDate } from './dateUtils';
+
+interface CalendarRule {
+  name: string;
+  holidays: (year: number) => Date[];
+}
+
+// --- Date helpers for holiday rules ---
+
+const ymd = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month - 1, day));
+
+const isWeekend = (date: Date): boolean => {
+  const dow = date.getUTCDay();
+  return dow === 0 || dow === 6;
+};
+
+// Anonymous Gregorian algorithm
+const easterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return ymd(year, month, day);
+};
+
+// n-th given weekday of a month (n = -1 for the last one); weekday uses 0 = Sunday
+const nthWeekday = (year: number, month: number, weekday: number, n: number): Date => {
+  if (n > 0) {
+    const first = ymd(year, month, 1);
+    const offset = (weekday - first.getUTCDay() + 7) % 7;
+    return ymd(year, month, 1 + offset + 7 * (n - 1));
+  }
+  const last = ymd(year, month + 1, 0);
+  const offset = (last.getUTCDay() - weekday + 7) % 7;
+  return addDays(last, -offset);
+};
+
+// US federal practice: Saturday holidays move to Friday, Sunday holidays to Monday
+const observedUs = (date: Date): Date => {
+  const dow = date.getUTCDay();
+  if (dow === 6) return addDays(date, -1);
+  if (dow === 0) return addDays(date, 1);
+  return date;
+};
+
+// UK/Australian practice: weekend holidays move to the next free weekday
+const substitute = (dates: Date[]): Date[] => {
+  const taken = new Set<string>();
+  return dates.map(date => {
+    let d = date;
+    while (isWeekend(d) || taken.has(formatDate(d))) d = addDays(d, 1);
+    taken.add(formatDate(d));
+    return d;
+  });
+};
+
+// --- Calendars ---
+
+const CALENDAR_RULES: Record<string, CalendarRule> = {
+  BRBD: {
+    name: 'ANBIMA (Brazil)',
+    holidays: year => {
+      const easter = easterSunday(year);
+      const dates = [
+        ymd(year, 1, 1),
+        addDays(easter, -48), // Carnival Monday
+        addDays(easter, -47), // Carnival Tuesday
+        addDays(easter, -2),  // Good Friday
+        ymd(year, 4, 21),
+        ymd(year, 5, 1),
+        addDays(easter, 60),  // Corpus Christi
+        ymd(year, 9, 7),
+        ymd(year, 10, 12),
+        ymd(year, 11, 2),
+        ymd(year, 11, 15),
+        ymd(year, 12, 25)
+      ];
+      if (year >= 2024) dates.push(ymd(year, 11, 20));
+      return dates;
+    }
+  },
+  USNY: {
+    name: 'New York / SOFR (US)',
+    holidays: year => {
+      const dates = [
+        nthWeekday(year, 1, 1, 3),  // Martin Luther King Jr. Day
+        nthWeekday(year, 2, 1, 3),  // Presidents' Day
+        addDays(easterSunday(year), -2),
+        nthWeekday(year, 5, 1, -1), // Memorial Day
+        observedUs(ymd(year, 7, 4)),
+        nthWeekday(year, 9, 1, 1),  // Labor Day
+        nthWeekday(year, 10, 1, 2), // Columbus Day
+        observedUs(ymd(year, 11, 11)),
+        nthWeekday(year, 11, 4, 4), // Thanksgiving
+        observedUs(ymd(year, 12, 25))
+      ];
+      // New Year's Day on a Saturday is not observed on the previous Friday
+      const newYear = ymd(year, 1, 1);
+      if (newYear.getUTCDay() !== 6) dates.push(observedUs(newYear));
+      if (year >= 2022) dates.push(observedUs(ymd(year, 6, 19)));
+      return dates;
+    }
+  },
+  TARGET: {
+    name: 'TARGET2 (Euro)',
+    holidays: year => {
+      const easter = easterSunday(year);
+      return [ymd(year, 1, 1), addDays(easter, -2), addDays(easter, 1), ymd(year, 5, 1), ymd(year, 12, 25), ymd(year, 12, 26)];
+    }
+  },
+  GBLO: {
+    name: 'London (UK)',
+    holidays: year => {
+      const easter = easterSunday(year);
+      return [
+        ...substitute([ymd(year, 1, 1)]),
+        addDays(easter, -2),
+        addDays(easter, 1),
+        nthWeekday(year, 5, 1, 1),  // Early May bank holiday
+        nthWeekday(year, 5, 1, -1), // Spring bank holiday
+        nthWeekday(year, 8, 1, -1), // Summer bank holiday
+        ...substitute([ymd(year, 12, 25), ymd(year, 12, 26)])
+      ];
+    }
+  },
+  JPTO: {
+    name: 'Tokyo (Japan)',
+    holidays: year => {
+      const shift = Math.floor((year - 1980) / 4);
+      const vernal = Math.floor(20.8431 + 0.242194 * (year - 1980)) - shift;
+      const autumnal = Math.floor(23.2488 + 0.242194 * (year - 1980)) - shift;
+      const base = [
+        ymd(year, 1, 1), ymd(year, 1, 2), ymd(year, 1, 3),
+        nthWeekday(year, 1, 1, 2),  // Coming of Age Day
+        ymd(year, 2, 11),
+        ymd(year, 2, 23),
+        ymd(year, 3, vernal),
+        ymd(year, 4, 29), ymd(year, 5, 3), ymd(year, 5, 4), ymd(year, 5, 5),
+        nthWeekday(year, 7, 1, 3),  // Marine Day
+        ymd(year, 8, 11),
+        nthWeekday(year, 9, 1, 3),  // Respect for the Aged Day
+        ymd(year, 9, autumnal),
+        nthWeekday(year, 10, 1, 2), // Sports Day
+        ymd(year, 11, 3), ymd(year, 11, 23),
+        ymd(year, 12, 31)
+      ];
+      const keys = new Set(base.map(formatDate));
+      const extra: Date[] = [];
+      for (const date of base) {
+        // A national holiday on a Sunday is substituted by the next non-holiday day
+        if (date.getUTCDay() === 0) {
+          let d = addDays(date, 1);
+          while (keys.has(formatDate(d))) d = addDays(d, 1);
+          extra.push(d);
+        }
+        // A day sandwiched between two national holidays is itself a holiday
+        const next = addDays(date, 2);
+        if (keys.has(formatDate(next)) && !keys.has(formatDate(addDays(date, 1)))) {
+          extra.push(addDays(date, 1));
+        }
+      }
+      return [...base, ...extra];
+    }
+  },
+  AUSY: {
+    name: 'Sydney (Australia)',
+    holidays: year => {
+      const easter = easterSunday(year);
+      return [
+        ...substitute([ymd(year, 1, 1)]),
+        ...substitute([ymd(year, 1, 26)]),
+        addDays(easter, -2),
+        addDays(easter, 1),
+        ymd(year, 4, 25),
+        nthWeekday(year, 6, 1, 2),  // King's Birthday
+        nthWeekday(year, 8, 1, 1),  // Bank Holiday
+        nthWeekday(year, 10, 1, 1), // Labour Day
+        ...substitute([ymd(year, 12, 25), ymd(year, 12, 26)])
+      ];
+    }
+  }
+};
+
+export const CURRENCY_CALENDARS: Record<string, string> = {
+  BRL: 'BRBD',
+  USD: 'USNY',
+  EUR: 'TARGET',
+  GBP: 'GBLO',
+  JPY: 'JPTO',
+  AUD: 'AUSY'
+};
+
+export const CALENDAR_CODES = Object.keys(CALENDAR_RULES);
+
+export const calendarName = (code: string): string => {
+  return code.split('+').map(c => CALENDAR_RULES[c]?.name ?? c).join(' + ');
+};
+
+export const defaultCalendar = (currency: string): string => CURRENCY_CALENDARS[currency] ?? 'TARGET';
+
+// Joint calendars are written as 'BRBD+USNY': a day is good only if it is good in every component
+export const jointCalendar = (...codes: string[]): string => {
+  return Array.from(new Set(codes.flatMap(c => c.split('+')))).join('+');
+};
+
+const holidayCache = new Map<string, Set<string>>();
+
+const holidaysFor = (code: string, year: number): Set<string> => {
+  const key = `${code}:${year}`;
+  let set = holidayCache.get(key);
+  if (!set) {
+    const rule = CALENDAR_RULES[code];
+    if (!rule) {
+      throw new Error(`Unknown calendar "${code}"`);
+    }
+    set = new Set(rule.holidays(year).map(formatDate));
+    holidayCache.set(key, set);
+  }
+  return set;
+};
+
+export const isBusinessDay = (date: Date, calendar: string): boolean => {
+  if (isWeekend(date)) return false;
+  const key = formatDate(date);
+  return calendar.split('+').every(code => !holidaysFor(code, date.getUTCFullYear()).has(key));
+};
+
+const rollTo = (date: Date, calendar: string, step: 1 | -1): Date => {
+  let d = date;
+  while (!isBusinessDay(d, calendar)) d = addDays(d, step);
+  return d;
+};
+
+export const adjustDate = (date: Date, convention: BusinessDayConvention, calendar: string): Date => {
+  switch (convention) {
+    case 'Unadjusted':
+      return date;
+    case 'Following':
+      return rollTo(date, calendar, 1);
+    case 'Preceding':
+      return rollTo(date, calendar, -1);
+    case 'ModifiedFollowing': {
+      const adjusted = rollTo(date, calendar, 1);
+      return adjusted.getUTCMonth() === date.getUTCMonth() ? adjusted : rollTo(date, calendar, -1);
+    }
+    case 'ModifiedPreceding': {
+      const adjusted = rollTo(date, calendar, -1);
+      return adjusted.getUTCMonth() === date.getUTCMonth() ? adjusted : rollTo(date, calendar, 1);
+    }
+  }
+};
+
+// Moves n business days forwards (or backwards when n is negative)
+export const addBusinessDays = (date: Date, n: number, calendar: string): Date => {
+  const step = n < 0 ? -1 : 1;
+  let d = date;
+  for (let remaining = Math.abs(n); remaining > 0;) {
+    d = addDays(d, step);
+    if (isBusinessDay(d, calendar)) remaining--;
+  }
+  return d;
+};
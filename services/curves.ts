@@ -0,0 +1,158 @@
+import { CurveDefinition, CurvePillar, CurveQuote, InterpolationMethod, YieldCurve } from '../types';
+import { parseDate, formatDate, addMonths, addTenor, daysBetween, getFrequencyMonths } from './dateUtils';
+
+interface Node {
+  date: string;
+  t: number;
+  zero: number; // continuously-compounded, decimal
+}
+
+const yearFraction = (from: Date, to: Date): number => daysBetween(from, to) / 365;
+
+const parseFraTenor = (tenor: string): [number, number] => {
+  const match = /^(\d+)\s*[xX]\s*(\d+)$/.exec(tenor.trim());
+  if (!match || Number(match[1]) >= Number(match[2])) {
+    throw new Error(`Invalid FRA/futures tenor "${tenor}", expected e.g. 6x9`);
+  }
+  return [Number(match[1]), Number(match[2])];
+};
+
+export const quoteMaturity = (quote: CurveQuote, reference: Date): Date => {
+  if (quote.type === 'FRA' || quote.type === 'Future') {
+    return addMonths(reference, parseFraTenor(quote.tenor)[1]);
+  }
+  return addTenor(reference, quote.tenor);
+};
+
+// --- Interpolation ---
+
+const makeDiscount = (nodes: Node[], method: InterpolationMethod) => (t: number): number => {
+  if (t <= 0 || nodes.length === 0) return 1;
+
+  if (method === 'LinearZero') {
+    let zero: number;
+    if (t <= nodes[0].t) {
+      zero = nodes[0].zero;
+    } else if (t >= nodes[nodes.length - 1].t) {
+      zero = nodes[nodes.length - 1].zero;
+    } else {
+      const i = nodes.findIndex(n => n.t >= t);
+      const a = nodes[i - 1];
+      const b = nodes[i];
+      zero = a.zero + (b.zero - a.zero) * (t - a.t) / (b.t - a.t);
+    }
+    return Math.exp(-zero * t);
+  }
+
+  // Log-linear on discount factors, anchored at DF(0) = 1 and flat-forward beyond the last pillar
+  const logNodes = [{ t: 0, lnDf: 0 }, ...nodes.map(n => ({ t: n.t, lnDf: -n.zero * n.t }))];
+  let i = logNodes.findIndex(n => n.t >= t);
+  if (i === -1) i = logNodes.length - 1;
+  const a = logNodes[i - 1];
+  const b = logNodes[i];
+  const lnDf = a.lnDf + (b.lnDf - a.lnDf) * (t - a.t) / (b.t - a.t);
+  return Math.exp(lnDf);
+};
+
+export const createInterpolatedCurve = (
+  currency: string,
+  nodes: Node[],
+  method: InterpolationMethod
+): YieldCurve => {
+  const discount = makeDiscount(nodes, method);
+  const zeroRate = (t: number) => {
+    if (t <= 0) return nodes.length ? nodes[0].zero * 100 : 0;
+    return -Math.log(discount(t)) / t * 100;
+  };
+
+  const pillars: CurvePillar[] = nodes.map(n => ({
+    date: n.date,
+    t: n.t,
+    zeroRate: n.zero * 100,
+    discountFactor: discount(n.t)
+  }));
+
+  return {
+    currency,
+    pillars,
+    discount,
+    zeroRate,
+    // Simply-compounded forward over [t1, t2], in %
+    forwardRate: (t1: number, t2: number) => {
+      if (t2 <= t1) return zeroRate(t1);
+      return (discount(t1) / discount(t2) - 1) / (t2 - t1) * 100;
+    }
+  };
+};
+
+// --- Bootstrapping ---
+
+// Rate (in %) the quoted instrument implies on a given curve, comparable with its market quote
+const impliedRate = (quote: CurveQuote, curve: YieldCurve, reference: Date, swapFrequency: string): number => {
+  switch (quote.type) {
+    case 'Deposit': {
+      const t = yearFraction(reference, addTenor(reference, quote.tenor));
+      return (1 / curve.discount(t) - 1) / t * 100;
+    }
+    case 'FRA':
+    case 'Future': {
+      const [startM, endM] = parseFraTenor(quote.tenor);
+      const t1 = yearFraction(reference, addMonths(reference, startM));
+      const t2 = yearFraction(reference, addMonths(reference, endM));
+      return curve.forwardRate(t1, t2);
+    }
+    case 'Swap': {
+      const maturity = addTenor(reference, quote.tenor);
+      const step = getFrequencyMonths(swapFrequency);
+      let annuity = 0;
+      let prev = reference;
+      for (let k = 1; ; k++) {
+        const next = addMonths(reference, k * step);
+        const payDate = next > maturity ? maturity : next;
+        const t = yearFraction(reference, payDate);
+        annuity += yearFraction(prev, payDate) * curve.discount(t);
+        prev = payDate;
+        if (payDate >= maturity) break;
+      }
+      return (1 - curve.discount(yearFraction(reference, maturity))) / annuity * 100;
+    }
+  }
+};
+
+const marketRate = (quote: CurveQuote): number => quote.type === 'Future' ? 100 - quote.quote : quote.quote;
+
+export const bootstrapCurve = (definition: CurveDefinition, referenceDate: string): YieldCurve => {
+  const reference = parseDate(referenceDate);
+  const sorted = definition.quotes
+    .map(quote => {
+      const maturity = quoteMaturity(quote, reference);
+      return { quote, date: formatDate(maturity), t: yearFraction(reference, maturity) };
+    })
+    .sort((a, b) => a.t - b.t);
+
+  const nodes: Node[] = [];
+  for (const { quote, date, t } of sorted) {
+    if (nodes.length && Math.abs(nodes[nodes.length - 1].t - t) < 1e-9) {
+      throw new Error(`Duplicate ${definition.currency} curve pillar at ${quote.tenor}`);
+    }
+    const target = marketRate(quote);
+    const residual = (zero: number) => {
+      const trial = createInterpolatedCurve(definition.currency, [...nodes, { date, t, zero }], definition.interpolation);
+      return impliedRate(quote, trial, reference, definition.swapFrequency) - target;
+    };
+
+    // Implied rates are increasing in the pillar zero, so bisection always converges
+    let lo = -0.5;
+    let hi = 2;
+    if (residual(lo) > 0 || residual(hi) < 0) {
+      throw new Error(`Unable to fit ${definition.currency} ${quote.type} ${quote.tenor} at ${quote.quote}`);
+    }
+    for (let iter = 0; iter < 100 && hi - lo > 1e-14; iter++) {
+      const mid = (lo + hi) / 2;
+      if (residual(mid) > 0) hi = mid; else lo = mid;
+    }
+    nodes.push({ date, t, zero: (lo + hi) / 2 });
+  }
+
+  return createInterpolatedCurve(definition.currency, nodes, definition.interpolation);
+};
@@ -0,0 +1,70 @@
+// Date helpers shared by the pricing modules.
+// All arithmetic is done in UTC so ISO dates never shift with the browser's timezone.
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const parseDate = (iso: string): Date => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+export const formatDate = (date: Date): string => {
+  return date.toISOString().split('T')[0];
+};
+
+export const daysInMonth = (year: number, monthIndex: number): number => {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+};
+
+export const isEndOfMonth = (date: Date): boolean => {
+  return date.getUTCDate() === daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+};
+
+// Clamps to the last day of the target month, so Jan 31 + 1M is Feb 28/29 rather than early March
+export const addMonths = (date: Date, months: number, endOfMonth = false): Date => {
+  const total = date.getUTCFullYear() * 12 + date.getUTCMonth() + months;
+  const year = Math.floor(total / 12);
+  const month = total - year * 12;
+  const lastDay = daysInMonth(year, month);
+  const day = endOfMonth ? lastDay : Math.min(date.getUTCDate(), lastDay);
+  return new Date(Date.UTC(year, month, day));
+};
+
+// IMM date of a month: its third Wednesday
+export const thirdWednesday = (year: number, monthIndex: number): Date => {
+  const firstWeekday = new Date(Date.UTC(year, monthIndex, 1)).getUTCDay();
+  return new Date(Date.UTC(year, monthIndex, 1 + (3 - firstWeekday + 7) % 7 + 14));
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+};
+
+export const daysBetween = (from: Date, to: Date): number => {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+};
+
+export const getFrequencyMonths = (freq: string): number => {
+  switch (freq) {
+    case 'Monthly': return 1;
+    case 'Quarterly': return 3;
+    case 'Semi-Annual': return 6;
+    case 'Annual': return 12;
+    default: return 3;
+  }
+};
+
+// Adds a market tenor such as '1W', '3M' or '10Y' to a date
+export const addTenor = (date: Date, tenor: string): Date => {
+  const match = /^(\d+)([DWMY])$/.exec(tenor.trim().toUpperCase());
+  if (!match) {
+    throw new Error(`Invalid tenor "${tenor}"`);
+  }
+  const n = Number(match[1]);
+  switch (match[2]) {
+    case 'D': return addDays(date, n);
+    case 'W': return addDays(date, 7 * n);
+    case 'M': return addMonths(date, n);
+    default: return addMonths(date, 12 * n);
+  }
+};
@@ -0,0 +1,60 @@
+import { DayCountConvention } from '../types';
+import { daysBetween, addDays } from './dateUtils';
+import { isBusinessDay } from './calendars';
+
+export const DAY_COUNT_CONVENTIONS: { value: DayCountConvention, label: string }[] = [
+  { value: 'Actual/365', label: 'Actual/365F' },
+  { value: 'Actual/360', label: 'Actual/360' },
+  { value: '30/360', label: '30/360 (US)' },
+  { value: '30E/360', label: '30E/360 (European)' },
+  { value: 'Actual/Actual ISDA', label: 'Actual/Actual ISDA' },
+  { value: 'Business/252', label: 'Business/252' }
+];
+
+const isLeapYear = (year: number): boolean => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+const thirty360 = (start: Date, end: Date, european: boolean): number => {
+  let d1 = start.getUTCDate();
+  let d2 = end.getUTCDate();
+  if (d1 === 31) d1 = 30;
+  if (d2 === 31 && (european || d1 >= 30)) d2 = 30;
+  const days = 360 * (end.getUTCFullYear() - start.getUTCFullYear())
+    + 30 * (end.getUTCMonth() - start.getUTCMonth())
+    + (d2 - d1);
+  return days / 360;
+};
+
+// Splits the period at each 1 January and weights each piece by its own year length
+const actualActualIsda = (start: Date, end: Date): number => {
+  let fraction = 0;
+  let from = start;
+  while (from < end) {
+    const year = from.getUTCFullYear();
+    const nextYear = new Date(Date.UTC(year + 1, 0, 1));
+    const to = end < nextYear ? end : nextYear;
+    fraction += daysBetween(from, to) / (isLeapYear(year) ? 366 : 365);
+    from = to;
+  }
+  return fraction;
+};
+
+// Counts business days in [start, end), as used by the Brazilian DI convention
+export const businessDaysBetween = (start: Date, end: Date, calendar: string): number => {
+  let count = 0;
+  for (let d = start; d < end; d = addDays(d, 1)) {
+    if (isBusinessDay(d, calendar)) count++;
+  }
+  return count;
+};
+
+export const yearFraction = (convention: DayCountConvention, start: Date, end: Date, calendar = 'BRBD'): number => {
+  if (end <= start) return 0;
+  switch (convention) {
+    case 'Actual/365': return daysBetween(start, end) / 365;
+    case 'Actual/360': return daysBetween(start, end) / 360;
+    case '30/360': return thirty360(start, end, false);
+    case '30E/360': return thirty360(start, end, true);
+    case 'Actual/Actual ISDA': return actualActualIsda(start, end);
+    case 'Business/252': return businessDaysBetween(start, end, calendar) / 252;
+  }
+};
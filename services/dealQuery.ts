@@ -0,0 +1,137 @@
+import { DealRecord, SwapDeal } from '../types';
+
+export type DealSortKey = 'id' | 'pair' | 'notional' | 'maturity' | 'npv' | 'status';
+export type LegStructure = 'Fixed/Fixed' | 'Fixed/Floating' | 'Floating/Floating';
+
+export interface DealQuery {
+  search: string;
+  // Currency pair as 'BRL/USD', in leg order
+  pair: string;
+  status: string;
+  structure: '' | LegStructure;
+  maturityFrom: string;
+  maturityTo: string;
+  sort: DealSortKey;
+  direction: 'asc' | 'desc';
+  page: number;
+}
+
+export interface DealQueryResult {
+  rows: DealRecord[];
+  // Matches before paging
+  total: number;
+  pageCount: number;
+  // Page actually shown, clamped to the available range
+  page: number;
+}
+
+export const DEAL_PAGE_SIZE = 10;
+
+export const LEG_STRUCTURES: LegStructure[] = ['Fixed/Fixed', 'Fixed/Floating', 'Floating/Floating'];
+
+const SORT_KEYS: DealSortKey[] = ['id', 'pair', 'notional', 'maturity', 'npv', 'status'];
+
+export const DEFAULT_DEAL_QUERY: DealQuery = {
+  search: '',
+  pair: '',
+  status: '',
+  structure: '',
+  maturityFrom: '',
+  maturityTo: '',
+  sort: 'id',
+  direction: 'desc',
+  page: 1
+};
+
+export const currencyPair = (deal: SwapDeal): string => `${deal.leg1.currency}/${deal.leg2.currency}`;
+
+// Leg types regardless of order, so a Floating/Fixed deal counts as Fixed/Floating
+export const legStructure = (deal: SwapDeal): LegStructure => {
+  const floating = [deal.leg1, deal.leg2].filter(leg => leg.type === 'Floating').length;
+  return LEG_STRUCTURES[floating];
+};
+
+const dealStatus = (deal: SwapDeal): string => deal.status || 'Active';
+
+// Free text matches the ID, currencies, status, indices and notionals (with or without separators)
+const matchesSearch = (deal: SwapDeal, search: string): boolean => {
+  const terms = search.toLowerCase().replace(/,/g, '').split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [
+    deal.id ?? '',
+    currencyPair(deal),
+    dealStatus(deal),
+    ...[deal.leg1, deal.leg2].flatMap(leg => [leg.currency, leg.type, leg.index ?? '', String(leg.notional)])
+  ].join(' ').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+const compareRecords = (a: DealRecord, b: DealRecord, sort: DealSortKey): number => {
+  switch (sort) {
+    case 'id':
+      return (a.deal.id ?? '').localeCompare(b.deal.id ?? '', undefined, { numeric: true });
+    case 'pair':
+      return currencyPair(a.deal).localeCompare(currencyPair(b.deal));
+    case 'notional':
+      return a.deal.leg1.notional - b.deal.leg1.notional;
+    case 'maturity':
+      return a.deal.endDate.localeCompare(b.deal.endDate);
+    case 'npv':
+      // Unpriced deals sort below every priced one
+      return (a.result?.npvTotal ?? -Infinity) - (b.result?.npvTotal ?? -Infinity);
+    case 'status':
+      return dealStatus(a.deal).localeCompare(dealStatus(b.deal));
+  }
+};
+
+export const queryDeals = (records: DealRecord[], query: DealQuery, pageSize = DEAL_PAGE_SIZE): DealQueryResult => {
+  const matches = records.filter(({ deal }) =>
+    matchesSearch(deal, query.search)
+    && (!query.pair || currencyPair(deal) === query.pair)
+    && (!query.status || dealStatus(deal) === query.status)
+    && (!query.structure || legStructure(deal) === query.structure)
+    && (!query.maturityFrom || deal.endDate >= query.maturityFrom)
+    && (!query.maturityTo || deal.endDate <= query.maturityTo)
+  );
+
+  const sign = query.direction === 'asc' ? 1 : -1;
+  const sorted = [...matches].sort((a, b) => sign * (compareRecords(a, b, query.sort) || compareRecords(a, b, 'id')));
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / pageSize));
+  const page = Math.min(Math.max(1, query.page), pageCount);
+  return {
+    rows: sorted.slice((page - 1) * pageSize, page * pageSize),
+    total: sorted.length,
+    pageCount,
+    page
+  };
+};
+
+// --- URL state ---
+
+// Only values that differ from the defaults are written, so the plain dashboard keeps a clean URL
+export const dealQueryToSearchParams = (query: DealQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  (Object.keys(DEFAULT_DEAL_QUERY) as (keyof DealQuery)[]).forEach(key => {
+    if (query[key] !== DEFAULT_DEAL_QUERY[key]) params.set(key, String(query[key]));
+  });
+  return params;
+};
+
+export const dealQueryFromSearchParams = (params: URLSearchParams): DealQuery => {
+  const text = (key: keyof DealQuery) => params.get(key) ?? (DEFAULT_DEAL_QUERY[key] as string);
+  const sort = params.get('sort') as DealSortKey;
+  const structure = params.get('structure') as LegStructure;
+  const page = Number(params.get('page'));
+  return {
+    search: text('search'),
+    pair: text('pair'),
+    status: text('status'),
+    structure: LEG_STRUCTURES.includes(structure) ? structure : '',
+    maturityFrom: text('maturityFrom'),
+    maturityTo: text('maturityTo'),
+    sort: SORT_KEYS.includes(sort) ? sort : DEFAULT_DEAL_QUERY.sort,
+    direction: params.get('direction') === 'asc' ? 'asc' : 'desc',
+    page: Number.isInteger(page) && page > 0 ? page : 1
+  };
+};
@@ -0,0 +1,94 @@
+import { DealRecord, SwapDeal } from '../types';
+
+// Storage contract for deals. The app only talks to this interface, so a REST-backed
+// implementation can replace the local one without touching the UI.
+export interface DealRepository {
+  list: () => Promise<DealRecord[]>;
+  get: (id: string) => Promise<DealRecord | undefined>;
+  save: (record: DealRecord) => Promise<DealRecord>;
+  remove: (id: string) => Promise<void>;
+}
+
+const STORAGE_KEY = 'swappricer.deals.v1';
+
+// Shown on first launch, before anything has been saved
+export const SEED_DEALS: SwapDeal[] = [
+  {
+    id: 'SWP-001',
+    status: 'Active',
+    valueDate: '2024-01-01',
+    startDate: '2024-01-03',
+    endDate: '2025-12-31',
+    leg1: { currency: 'BRL', notional: 5000000, rate: 1.1, type: 'Floating', frequency: 'Quarterly', convention: 'Actual/365' },
+    leg2: { currency: 'USD', notional: 1000000, rate: 4.5, type: 'Fixed', frequency: 'Semi-Annual', convention: '30/360' }
+  },
+  {
+    id: 'SWP-002',
+    status: 'Active',
+    valueDate: '2024-02-15',
+    startDate: '2024-02-17',
+    endDate: '2026-06-15',
+    leg1: { currency: 'EUR', notional: 2500000, rate: 0.5, type: 'Floating', frequency: 'Semi-Annual', convention: 'Actual/360' },
+    leg2: { currency: 'JPY', notional: 350000000, rate: 0.1, type: 'Fixed', frequency: 'Annual', convention: 'Actual/365' }
+  },
+  {
+    id: 'SWP-003',
+    status: 'Pending',
+    valueDate: '2023-08-29',
+    startDate: '2023-09-01',
+    endDate: '2024-09-01',
+    leg1: { currency: 'GBP', notional: 1000000, rate: 1.5, type: 'Fixed', frequency: 'Annual', convention: 'Actual/365' },
+    leg2: { currency: 'AUD', notional: 1800000, rate: 3.2, type: 'Floating', frequency: 'Quarterly', convention: 'Actual/365' }
+  }
+];
+
+export const createLocalStorageDealRepository = (key = STORAGE_KEY, storage?: Storage): DealRepository => {
+  const store = () => storage ?? window.localStorage;
+
+  const read = (): DealRecord[] => {
+    const raw = store().getItem(key);
+    if (raw === null) {
+      return SEED_DEALS.map(deal => ({ deal, updatedAt: new Date().toISOString() }));
+    }
+    try {
+      return JSON.parse(raw) as DealRecord[];
+    } catch (error) {
+      console.error("Stored deals are unreadable, starting empty:", error);
+      return [];
+    }
+  };
+
+  const write = (records: DealRecord[]) => {
+    store().setItem(key, JSON.stringify(records));
+  };
+
+  return {
+    list: async () => read(),
+    get: async (id) => read().find(r => r.deal.id === id),
+    save: async (record) => {
+      const saved = { ...record, updatedAt: new Date().toISOString() };
+      const records = read();
+      const index = records.findIndex(r => r.deal.id === record.deal.id);
+      if (index >= 0) {
+        records[index] = saved;
+      } else {
+        records.unshift(saved);
+      }
+      write(records);
+      return saved;
+    },
+    remove: async (id) => {
+      write(read().filter(r => r.deal.id !== id));
+    }
+  };
+};
+
+export const nextDealId = (deals: SwapDeal[]): string => {
+  const highest = deals.reduce((max, deal) => {
+    const n = Number(/^SWP-(\d+)$/.exec(deal.id ?? '')?.[1] ?? 0);
+    return Math.max(max, n);
+  }, 0);
+  return `SWP-${(highest + 1).toString().padStart(3, '0')}`;
+};
+
+export const dealRepository: DealRepository = createLocalStorageDealRepository();
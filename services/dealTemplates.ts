@@ -0,0 +1,103 @@
+import { DealTemplate, SwapDeal, SwapLeg } from '../types';
+import { addBusinessDays, defaultCalendar } from './calendars';
+import { addTenor, formatDate, parseDate } from './dateUtils';
+
+type LegConventions = Pick<SwapLeg, 'frequency' | 'convention' | 'businessDayConvention' | 'index'>;
+
+// Market-standard conventions per currency: OIS legs on the overnight index, plus the fixed leg quoted
+// against it. Calendars are left to the currency default.
+export const CURRENCY_PRESETS: Record<string, { Fixed: LegConventions, Floating: LegConventions }> = {
+  USD: {
+    Fixed: { frequency: 'Annual', convention: 'Actual/360', businessDayConvention: 'ModifiedFollowing' },
+    Floating: { frequency: 'Annual', convention: 'Actual/360', businessDayConvention: 'ModifiedFollowing', index: 'SOFR' }
+  },
+  EUR: {
+    Fixed: { frequency: 'Annual', convention: 'Actual/360', businessDayConvention: 'ModifiedFollowing' },
+    Floating: { frequency: 'Annual', convention: 'Actual/360', businessDayConvention: 'ModifiedFollowing', index: 'ESTR' }
+  },
+  GBP: {
+    Fixed: { frequency: 'Annual', convention: 'Actual/365', businessDayConvention: 'ModifiedFollowing' },
+    Floating: { frequency: 'Annual', convention: 'Actual/365', businessDayConvention: 'ModifiedFollowing', index: 'SONIA' }
+  },
+  JPY: {
+    Fixed: { frequency: 'Annual', convention: 'Actual/365', businessDayConvention: 'ModifiedFollowing' },
+    Floating: { frequency: 'Annual', convention: 'Actual/365', businessDayConvention: 'ModifiedFollowing', index: 'TONA' }
+  },
+  AUD: {
+    Fixed: { frequency: 'Semi-Annual', convention: 'Actual/365', businessDayConvention: 'ModifiedFollowing' },
+    Floating: { frequency: 'Quarterly', convention: 'Actual/365', businessDayConvention: 'ModifiedFollowing', index: 'BBSW' }
+  },
+  BRL: {
+    Fixed: { frequency: 'Annual', convention: 'Business/252', businessDayConvention: 'Following' },
+    Floating: { frequency: 'Quarterly', convention: 'Business/252', businessDayConvention: 'Following', index: 'CDI' }
+  }
+};
+
+// Conventions follow the currency and leg type; notional, rate and exchanges are kept.
+// The calendar goes back to the one chosen for the currency (or its default) and the index to the preset one.
+export const applyLegPreset = (leg: SwapLeg, currency: string, type: SwapLeg['type'], calendars: Record<string, string> = {}): SwapLeg => {
+  const { index, calendar, lookbackDays, lockoutDays, fixingLagDays, ...kept } = leg;
+  const floatingOnly = type === 'Floating' && leg.type === 'Floating' ? { lookbackDays, lockoutDays, fixingLagDays } : {};
+  const chosenCalendar = calendars[currency] ? { calendar: calendars[currency] } : {};
+  return { ...kept, ...floatingOnly, ...chosenCalendar, ...CURRENCY_PRESETS[currency]?.[type], currency, type };
+};
+
+const legFor = (currency: string, type: SwapLeg['type'], notional: number, rate: number, exchanges = false): SwapLeg => ({
+  ...applyLegPreset({ currency, type, notional, rate, frequency: 'Annual', convention: 'Actual/360' }, currency, type),
+  ...(exchanges ? { initialExchange: true, finalExchange: true } : {})
+});
+
+export const BUILT_IN_TEMPLATES: DealTemplate[] = [
+  { id: 'usd-sofr-ois', name: 'USD SOFR OIS', builtIn: true, tenor: '5Y', leg1: legFor('USD', 'Floating', 10000000, 0), leg2: legFor('USD', 'Fixed', 10000000, 3.75) },
+  { id: 'eur-estr-ois', name: 'EUR €STR OIS', builtIn: true, tenor: '5Y', leg1: legFor('EUR', 'Floating', 10000000, 0), leg2: legFor('EUR', 'Fixed', 10000000, 2.4) },
+  { id: 'gbp-sonia-ois', name: 'GBP SONIA OIS', builtIn: true, tenor: '5Y', leg1: legFor('GBP', 'Floating', 10000000, 0), leg2: legFor('GBP', 'Fixed', 10000000, 3.9) },
+  {
+    id: 'eur-euribor-6m',
+    name: 'EUR EURIBOR 6M vs Fixed',
+    builtIn: true,
+    tenor: '10Y',
+    leg1: { ...legFor('EUR', 'Floating', 10000000, 0), index: 'EURIBOR', frequency: 'Semi-Annual' },
+    leg2: { ...legFor('EUR', 'Fixed', 10000000, 2.55), convention: '30/360' }
+  },
+  { id: 'aud-bbsw-3m', name: 'AUD BBSW 3M vs Fixed', builtIn: true, tenor: '5Y', leg1: legFor('AUD', 'Floating', 10000000, 0), leg2: legFor('AUD', 'Fixed', 10000000, 4.1) },
+  { id: 'brl-di-usd-fixed', name: 'BRL DI x USD Fixed CCS', builtIn: true, tenor: '5Y', leg1: legFor('BRL', 'Floating', 10000000, 1.25, true), leg2: legFor('USD', 'Fixed', 1850000, 3.75, true) },
+  { id: 'eur-estr-gbp-sonia', name: 'EUR €STR vs SONIA basis', builtIn: true, tenor: '5Y', leg1: legFor('EUR', 'Floating', 10000000, 0, true), leg2: legFor('GBP', 'Floating', 8300000, 0, true) },
+  { id: 'usd-sofr-jpy-tona', name: 'USD SOFR vs JPY TONA basis', builtIn: true, tenor: '5Y', leg1: legFor('USD', 'Floating', 10000000, 0, true), leg2: legFor('JPY', 'Floating', 1420000000, -0.3, true) }
+];
+
+// Whole years when the dates allow it, otherwise months
+export const tenorBetween = (startDate: string, endDate: string): string => {
+  const start = parseDate(startDate);
+  const end = parseDate(endDate);
+  const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+  return months % 12 === 0 ? `${months / 12}Y` : `${months}M`;
+};
+
+// Notional steps are dated, so they stay with the deal rather than the template
+export const templateFromDeal = (name: string, deal: SwapDeal): Omit<DealTemplate, 'id'> => {
+  const withoutSteps = ({ notionalSchedule, ...leg }: SwapLeg): SwapLeg => leg;
+  return {
+    name,
+    tenor: tenorBetween(deal.startDate, deal.endDate),
+    leg1: withoutSteps(deal.leg1),
+    leg2: withoutSteps(deal.leg2)
+  };
+};
+
+// The template replaces the legs and maturity; identity and dates already on the deal are kept
+export const applyTemplate = (template: DealTemplate, deal: SwapDeal): SwapDeal => ({
+  ...deal,
+  endDate: formatDate(addTenor(parseDate(deal.startDate), template.tenor)),
+  leg1: { ...template.leg1 },
+  leg2: { ...template.leg2 }
+});
+
+// A new deal from a template: valued on the given date, starting spot (T+2 on the first leg's calendar).
+// Legs the template leaves on the currency default take the calendar chosen for that currency.
+export const dealFromTemplate = (template: DealTemplate, valueDate: string = formatDate(new Date()), calendars: Record<string, string> = {}): SwapDeal => {
+  const withCalendar = (leg: SwapLeg): SwapLeg => leg.calendar || !calendars[leg.currency] ? leg : { ...leg, calendar: calendars[leg.currency] };
+  const leg1 = withCalendar(template.leg1);
+  const leg2 = withCalendar(template.leg2);
+  const startDate = formatDate(addBusinessDays(parseDate(valueDate), 2, leg1.calendar || defaultCalendar(leg1.currency)));
+  return { ...applyTemplate(template, { valueDate, startDate, endDate: startDate, leg1, leg2 }), leg1, leg2 };
+};
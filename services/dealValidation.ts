@@ -0,0 +1,171 @@
+import { MarketData, SwapDeal, SwapLeg } from '../types';
+import { formatDate, parseDate } from './dateUtils';
+import { DAY_COUNT_CONVENTIONS } from './dayCount';
+import { CALENDAR_CODES, CURRENCY_CALENDARS } from './calendars';
+import { RATE_INDICES } from './indices';
+
+// One problem with a deal; `field` is the SwapDeal path, e.g. 'endDate' or 'leg1.notional'
+export interface DealIssue {
+  field: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCY_CALENDARS);
+export const FREQUENCIES = ['Monthly', 'Quarterly', 'Semi-Annual', 'Annual'] as const;
+export const BUSINESS_DAY_CONVENTION_CODES = ['Following', 'ModifiedFollowing', 'Preceding', 'ModifiedPreceding', 'Unadjusted'] as const;
+export const DATE_GENERATIONS = ['Forward', 'Backward'] as const;
+export const STUB_TYPES = ['Short', 'Long'] as const;
+
+// Outside these ranges (in %) a rate is more likely a typo than a trade, so it is flagged but allowed
+const FIXED_RATE_RANGE: [number, number] = [-2, 30];
+const SPREAD_RANGE: [number, number] = [-5, 5];
+const MAX_NOTIONAL = 1e12;
+const MAX_TENOR_YEARS = 50;
+const MAX_LOOKBACK_DAYS = 10;
+
+export const isIsoDate = (text: string | undefined): text is string =>
+  !!text && /^\d{4}-\d{2}-\d{2}$/.test(text) && formatDate(parseDate(text)) === text;
+
+const validateLeg = (leg: SwapLeg, key: 'leg1' | 'leg2', market: MarketData | undefined, issues: DealIssue[]) => {
+  const error = (field: string, message: string) => issues.push({ field: `${key}.${field}`, severity: 'error', message });
+  const warn = (field: string, message: string) => issues.push({ field: `${key}.${field}`, severity: 'warning', message });
+
+  if (!SUPPORTED_CURRENCIES.includes(leg.currency)) {
+    error('currency', `${leg.currency || 'Currency'} is not supported, expected one of ${SUPPORTED_CURRENCIES.join(', ')}`);
+  } else if (market && !market.curves[leg.currency]) {
+    error('currency', `No ${leg.currency} curve in the selected market data`);
+  }
+
+  if (!Number.isFinite(leg.notional)) {
+    error('notional', 'Notional is required');
+  } else if (leg.notional <= 0) {
+    error('notional', 'Notional must be positive');
+  } else if (leg.notional > MAX_NOTIONAL) {
+    warn('notional', `Notional above ${MAX_NOTIONAL.toExponential()} looks like a typo`);
+  }
+
+  const [low, high] = leg.type === 'Fixed' ? FIXED_RATE_RANGE : SPREAD_RANGE;
+  const label = leg.type === 'Fixed' ? 'Rate' : 'Spread';
+  if (!Number.isFinite(leg.rate)) {
+    error('rate', `${label} is required`);
+  } else if (leg.rate < low || leg.rate > high) {
+    warn('rate', `${label} of ${leg.rate}% is outside the usual ${low}% to ${high}% range`);
+  }
+
+  if (!(FREQUENCIES as readonly string[]).includes(leg.frequency)) {
+    error('frequency', `Unknown frequency "${leg.frequency}", expected one of ${FREQUENCIES.join(', ')}`);
+  }
+  if (!DAY_COUNT_CONVENTIONS.some(c => c.value === leg.convention)) {
+    error('convention', `Unknown day count "${leg.convention}"`);
+  }
+  if (leg.calendar) {
+    const unknown = leg.calendar.split('+').filter(code => !CALENDAR_CODES.includes(code));
+    if (unknown.length) error('calendar', `Unknown calendar ${unknown.join(', ')}, expected ${CALENDAR_CODES.join(', ')}`);
+  }
+  if (leg.businessDayConvention && !(BUSINESS_DAY_CONVENTION_CODES as readonly string[]).includes(leg.businessDayConvention)) {
+    error('businessDayConvention', `Unknown business day convention "${leg.businessDayConvention}"`);
+  }
+  if (leg.dateGeneration && !(DATE_GENERATIONS as readonly string[]).includes(leg.dateGeneration)) {
+    error('dateGeneration', `Unknown date generation "${leg.dateGeneration}", expected ${DATE_GENERATIONS.join(' or ')}`);
+  }
+  if (leg.stub && !(STUB_TYPES as readonly string[]).includes(leg.stub)) {
+    error('stub', `Unknown stub "${leg.stub}", expected ${STUB_TYPES.join(' or ')}`);
+  }
+  if (leg.rollDay !== undefined && leg.rollDay !== 'IMM' && !(Number.isInteger(leg.rollDay) && leg.rollDay >= 1 && leg.rollDay <= 31)) {
+    error('rollDay', 'Roll day must be a day of the month from 1 to 31, or IMM');
+  }
+  if (leg.paymentLagDays !== undefined && (!Number.isInteger(leg.paymentLagDays) || leg.paymentLagDays < 0)) {
+    error('paymentLagDays', 'Expected a whole number of days');
+  }
+
+  const steps = leg.notionalSchedule ?? [];
+  steps.forEach(step => {
+    if (!isIsoDate(step.date)) error('notionalSchedule', `Invalid step date "${step.date}"`);
+    else if (!(Number.isFinite(step.notional) && step.notional > 0)) error('notionalSchedule', `Notional on ${step.date} must be positive`);
+  });
+  if (new Set(steps.map(step => step.date)).size < steps.length) {
+    error('notionalSchedule', 'Each step date can only appear once');
+  }
+  if (steps.length && leg.notionalReset) {
+    error('notionalSchedule', 'A resetting leg follows the other leg\'s notional, so it cannot have its own schedule');
+  }
+
+  if (leg.type !== 'Floating') return;
+  const index = leg.index ? RATE_INDICES[leg.index] : Object.values(RATE_INDICES).find(i => i.currency === leg.currency);
+  if (leg.index && !index) {
+    error('index', `Unknown index "${leg.index}"`);
+  } else if (!index) {
+    error('index', `No floating rate index available for ${leg.currency}`);
+  } else if (index.currency !== leg.currency) {
+    error('index', `${index.code} is not a ${leg.currency} index`);
+  }
+  (['lookbackDays', 'lockoutDays'] as const).forEach(field => {
+    const days = leg[field];
+    if (days !== undefined && (!Number.isInteger(days) || days < 0)) error(field, 'Expected a whole number of days');
+  });
+  if ((leg.lookbackDays ?? 0) > MAX_LOOKBACK_DAYS) {
+    warn('lookbackDays', `A lookback over ${MAX_LOOKBACK_DAYS} business days is unusual`);
+  }
+  if (index?.style === 'Term' && (leg.lookbackDays || leg.lockoutDays)) {
+    warn(leg.lookbackDays ? 'lookbackDays' : 'lockoutDays', `Lookback and lockout only apply to overnight indices, not ${index.code}`);
+  }
+  if (leg.fixingLagDays !== undefined && (!Number.isInteger(leg.fixingLagDays) || leg.fixingLagDays < 0)) {
+    error('fixingLagDays', 'Expected a whole number of days');
+  } else if (index?.style === 'Overnight' && leg.fixingLagDays !== undefined) {
+    warn('fixingLagDays', `${index.code} compounds in arrears, so the fixing lag is ignored; use lookback instead`);
+  }
+};
+
+// Schema and business rules for a deal before it is priced or booked. Passing the market also checks
+// that a curve exists for each leg currency.
+export const validateDeal = (deal: SwapDeal, market?: MarketData): DealIssue[] => {
+  const issues: DealIssue[] = [];
+  const error = (field: string, message: string) => issues.push({ field, severity: 'error', message });
+  const warn = (field: string, message: string) => issues.push({ field, severity: 'warning', message });
+
+  (['valueDate', 'startDate', 'endDate'] as const).forEach(field => {
+    if (!deal[field]) error(field, 'Date is required');
+    else if (!isIsoDate(deal[field])) error(field, `Invalid date "${deal[field]}"`);
+  });
+  if (deal.tradeDate && !isIsoDate(deal.tradeDate)) error('tradeDate', `Invalid date "${deal.tradeDate}"`);
+
+  const { valueDate, startDate, endDate, tradeDate } = deal;
+  if (isIsoDate(valueDate) && isIsoDate(startDate) && valueDate > startDate) {
+    error('valueDate', 'Value date must be on or before the start date');
+  }
+  if (isIsoDate(startDate) && isIsoDate(endDate)) {
+    if (startDate >= endDate) {
+      error('endDate', 'End date must be after the start date');
+    } else if (parseDate(endDate).getUTCFullYear() - parseDate(startDate).getUTCFullYear() > MAX_TENOR_YEARS) {
+      warn('endDate', `Tenor is longer than ${MAX_TENOR_YEARS} years`);
+    }
+  }
+  if (isIsoDate(tradeDate) && isIsoDate(startDate) && tradeDate > startDate) {
+    warn('tradeDate', 'Trade date is after the start date');
+  }
+  (['leg1', 'leg2'] as const).forEach(key => {
+    const outside = (deal[key].notionalSchedule ?? []).filter(step => isIsoDate(step.date) && (step.date < startDate || step.date >= endDate));
+    if (outside.length) warn(`${key}.notionalSchedule`, `Steps on ${outside.map(step => step.date).join(', ')} fall outside the deal's dates`);
+  });
+
+  validateLeg(deal.leg1, 'leg1', market, issues);
+  validateLeg(deal.leg2, 'leg2', market, issues);
+
+  const { leg1, leg2 } = deal;
+  if (leg1.currency === leg2.currency) {
+    if (leg1.type === 'Fixed' && leg2.type === 'Fixed') {
+      error('leg2.type', `Both legs pay a fixed ${leg1.currency} rate, so there is nothing to swap`);
+    } else if (leg1.initialExchange || leg1.finalExchange || leg2.initialExchange || leg2.finalExchange) {
+      warn('leg2.currency', `Both legs are in ${leg1.currency}, so the principal exchanges offset each other`);
+    }
+    (['leg1', 'leg2'] as const).filter(key => deal[key].notionalReset).forEach(key =>
+      error(`${key}.notionalReset`, 'Notional resets need legs in different currencies'));
+  } else if (leg1.notionalReset && leg2.notionalReset) {
+    error('leg2.notionalReset', 'Only one leg can reset its notional');
+  }
+
+  return issues;
+};
+
+export const hasErrors = (issues: DealIssue[]): boolean => issues.some(i => i.severity === 'error');
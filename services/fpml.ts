@@ -0,0 +1,348 @@
+import { BusinessDayConvention, DayCountConvention, SwapDeal, SwapLeg } from '../types';
+import { getFrequencyMonths, parseDate, isEndOfMonth } from './dateUtils';
+import { resolveCalendar } from './schedule';
+import { resolveIndex } from './indices';
+import { TradeImportResult, TradeIssue, normalizeDeal } from './tradeFormats';
+
+// FpML 5.x confirmation view. Party 1 is always us: Leg 1 is the stream it receives, Leg 2 the one it pays.
+const FPML_NAMESPACE = 'http://www.fpml.org/FpML-5/confirmation';
+const OUR_PARTY = 'party1';
+
+const DAY_COUNTS: Record<DayCountConvention, string> = {
+  'Actual/365': 'ACT/365.FIXED',
+  'Actual/360': 'ACT/360',
+  '30/360': '30/360',
+  '30E/360': '30E/360',
+  'Actual/Actual ISDA': 'ACT/ACT.ISDA',
+  'Business/252': 'BUS/252'
+};
+
+const BUSINESS_DAY_CONVENTIONS: Record<BusinessDayConvention, string> = {
+  Following: 'FOLLOWING',
+  ModifiedFollowing: 'MODFOLLOWING',
+  Preceding: 'PRECEDING',
+  ModifiedPreceding: 'MODPRECEDING',
+  Unadjusted: 'NONE'
+};
+
+// Our calendar codes against FpML business centers, where they differ
+const BUSINESS_CENTERS: Record<string, string> = { BRBD: 'BRSP', TARGET: 'EUTA' };
+
+const FLOATING_RATE_INDICES: Record<string, string> = {
+  CDI: 'BRL-CDI',
+  SOFR: 'USD-SOFR-COMPOUND',
+  ESTR: 'EUR-EuroSTR-COMPOUND',
+  SONIA: 'GBP-SONIA-COMPOUND',
+  TONA: 'JPY-TONA-OIS-COMPOUND',
+  EURIBOR: 'EUR-EURIBOR-Reuters',
+  TIBOR: 'JPY-TIBOR-17097',
+  BBSW: 'AUD-BBR-BBSW'
+};
+
+const invert = (map: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(map).map(([k, v]) => [v, k]));
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rates are percentages in the app and decimals in FpML
+const toDecimal = (percent: number) => Number((percent / 100).toPrecision(12));
+const toPercent = (decimal: number) => Number((decimal * 100).toPrecision(12));
+
+// --- Export ---
+
+const period = (months: number) => months % 12 === 0
+  ? `<periodMultiplier>${months / 12}</periodMultiplier><period>Y</period>`
+  : `<periodMultiplier>${months}</periodMultiplier><period>M</period>`;
+
+// FpML roll conventions are days 1 to 30, EOM or IMM, so a roll day of 31 goes out as EOM
+const rollConventionFor = (leg: SwapLeg, start: Date): string => {
+  if (leg.rollDay === 'IMM') return 'IMM';
+  if (leg.rollDay === 31 || (leg.rollDay === undefined && leg.endOfMonth && isEndOfMonth(start))) return 'EOM';
+  return String(leg.rollDay ?? start.getUTCDate());
+};
+
+const streamXml = (deal: SwapDeal, leg: SwapLeg, legNo: 1 | 2, counterparty: string): string => {
+  const id = `leg${legNo}`;
+  const months = getFrequencyMonths(leg.frequency);
+  const centers = resolveCalendar(leg).split('+')
+    .map(code => `<businessCenter>${BUSINESS_CENTERS[code] ?? code}</businessCenter>`).join('');
+  const adjustments = `<businessDayConvention>${BUSINESS_DAY_CONVENTIONS[leg.businessDayConvention ?? 'ModifiedFollowing']}</businessDayConvention><businessCenters>${centers}</businessCenters>`;
+  const rollConvention = rollConventionFor(leg, parseDate(deal.startDate));
+  const [payer, receiver] = legNo === 1 ? [counterparty, OUR_PARTY] : [OUR_PARTY, counterparty];
+
+  const rate = leg.type === 'Fixed'
+    ? `<fixedRateSchedule><initialValue>${toDecimal(leg.rate)}</initialValue></fixedRateSchedule>`
+    : `<floatingRateCalculation><floatingRateIndex>${FLOATING_RATE_INDICES[resolveIndex(leg.index, leg.currency).code]}</floatingRateIndex>`
+      + (resolveIndex(leg.index, leg.currency).style === 'Term' ? `<indexTenor>${period(months)}</indexTenor>` : '')
+      + `<spreadSchedule><initialValue>${toDecimal(leg.rate)}</initialValue></spreadSchedule></floatingRateCalculation>`;
+
+  const resetDates = leg.type === 'Floating'
+    ? `<resetDates id="${id}-reset"><calculationPeriodDatesReference href="${id}-calc"/><resetRelativeTo>CalculationPeriodStartDate</resetRelativeTo>`
+      + `<resetFrequency>${period(months)}</resetFrequency><resetDatesAdjustments>${adjustments}</resetDatesAdjustments></resetDates>`
+    : '';
+
+  return `
+      <swapStream id="${id}">
+        <payerPartyReference href="${payer}"/>
+        <receiverPartyReference href="${receiver}"/>
+        <calculationPeriodDates id="${id}-calc">
+          <effectiveDate><unadjustedDate>${deal.startDate}</unadjustedDate><dateAdjustments><businessDayConvention>NONE</businessDayConvention></dateAdjustments></effectiveDate>
+          <terminationDate><unadjustedDate>${deal.endDate}</unadjustedDate><dateAdjustments>${adjustments}</dateAdjustments></terminationDate>
+          <calculationPeriodDatesAdjustments>${adjustments}</calculationPeriodDatesAdjustments>
+          <calculationPeriodFrequency>${period(months)}<rollConvention>${rollConvention}</rollConvention></calculationPeriodFrequency>
+        </calculationPeriodDates>
+        <paymentDates>
+          <calculationPeriodDatesReference href="${id}-calc"/>
+          <paymentFrequency>${period(months)}</paymentFrequency>
+          <payRelativeTo>CalculationPeriodEndDate</payRelativeTo>${leg.paymentLagDays
+            ? `\n          <paymentDaysOffset><periodMultiplier>${leg.paymentLagDays}</periodMultiplier><period>D</period><dayType>Business</dayType></paymentDaysOffset>`
+            : ''}
+          <paymentDatesAdjustments>${adjustments}</paymentDatesAdjustments>
+        </paymentDates>${resetDates ? `\n        ${resetDates}` : ''}
+        <calculationPeriodAmount>
+          <calculation>
+            <notionalSchedule><notionalStepSchedule><initialValue>${leg.notional}</initialValue><currency>${leg.currency}</currency></notionalStepSchedule></notionalSchedule>
+            ${rate}
+            <dayCountFraction>${DAY_COUNTS[leg.convention]}</dayCountFraction>
+          </calculation>
+        </calculationPeriodAmount>${leg.initialExchange || leg.finalExchange
+          ? `\n        <principalExchanges><initialExchange>${!!leg.initialExchange}</initialExchange><finalExchange>${!!leg.finalExchange}</finalExchange><intermediateExchange>false</intermediateExchange></principalExchanges>`
+          : ''}
+      </swapStream>`;
+};
+
+// Terms FpML cannot carry in this mapping are reported rather than dropped without notice
+export const fpmlExportIssues = (deals: SwapDeal[]): TradeIssue[] => deals.flatMap(deal => {
+  const location = deal.id ?? 'deal';
+  const issues: TradeIssue[] = [];
+  if (deal.tradeDate && deal.tradeDate !== deal.valueDate) {
+    issues.push({ location, severity: 'warning', message: `Value date ${deal.valueDate} is not part of FpML; it is read back as the trade date` });
+  }
+  ([[deal.leg1, 1], [deal.leg2, 2]] as const).forEach(([leg, legNo]) => {
+    if (leg.lookbackDays || leg.lockoutDays) {
+      issues.push({ location: `${location} leg${legNo}`, severity: 'warning', message: 'Lookback and lockout are not exported' });
+    }
+    if (leg.notionalReset) {
+      issues.push({ location: `${location} leg${legNo}`, severity: 'warning', message: 'Mark-to-market notional resets are not exported' });
+    }
+    const schedule = [
+      (leg.dateGeneration === 'Backward' || leg.stub === 'Long') && 'stub placement',
+      leg.rollDay === 31 && 'roll day 31 (written as EOM)',
+      leg.fixingLagDays !== undefined && 'fixing lag',
+      leg.notionalSchedule?.length && 'notional steps'
+    ].filter(Boolean);
+    if (schedule.length) {
+      issues.push({ location: `${location} leg${legNo}`, severity: 'warning', message: `Schedule terms not exported: ${schedule.join(', ')}` });
+    }
+  });
+  return issues;
+});
+
+export const dealsToFpml = (deals: SwapDeal[]): string => {
+  // One party per counterparty name; deals without one share an unnamed party
+  const counterparties = Array.from(new Set(deals.map(d => d.counterparty ?? '')));
+  const partyId = (deal: SwapDeal) => `party${counterparties.indexOf(deal.counterparty ?? '') + 2}`;
+
+  const trades = deals.map(deal => `
+  <trade>
+    <tradeHeader>
+      <partyTradeIdentifier><partyReference href="${OUR_PARTY}"/><tradeId tradeIdScheme="http://swappricer/trade-id">${escapeXml(deal.id ?? '')}</tradeId></partyTradeIdentifier>
+      <tradeDate>${deal.tradeDate ?? deal.valueDate}</tradeDate>
+    </tradeHeader>
+    <swap>${streamXml(deal, deal.leg1, 1, partyId(deal))}${streamXml(deal, deal.leg2, 2, partyId(deal))}
+    </swap>
+  </trade>`).join('');
+  const parties = counterparties.map((name, i) =>
+    `\n  <party id="party${i + 2}">${name ? `<partyName>${escapeXml(name)}</partyName>` : ''}</party>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<dataDocument xmlns="${FPML_NAMESPACE}" fpmlVersion="5-10">${trades}
+  <party id="${OUR_PARTY}"><partyName>SwapPricer</partyName></party>${parties}
+</dataDocument>
+`;
+};
+
+// --- Import ---
+
+// Elements the reader understands, nested as in FpML. Anything else in a stream is reported, at any depth.
+interface ElementSpec {
+  [name: string]: ElementSpec;
+}
+
+const LEAF: ElementSpec = {};
+const ADJUSTMENTS: ElementSpec = { businessDayConvention: LEAF, businessCenters: { businessCenter: LEAF } };
+const PERIOD: ElementSpec = { periodMultiplier: LEAF, period: LEAF };
+
+const STREAM_ELEMENTS: ElementSpec = {
+  payerPartyReference: LEAF,
+  receiverPartyReference: LEAF,
+  calculationPeriodDates: {
+    effectiveDate: { unadjustedDate: LEAF, dateAdjustments: ADJUSTMENTS },
+    terminationDate: { unadjustedDate: LEAF, dateAdjustments: ADJUSTMENTS },
+    calculationPeriodDatesAdjustments: ADJUSTMENTS,
+    calculationPeriodFrequency: { ...PERIOD, rollConvention: LEAF }
+  },
+  paymentDates: {
+    calculationPeriodDatesReference: LEAF,
+    paymentFrequency: PERIOD,
+    payRelativeTo: LEAF,
+    paymentDaysOffset: { ...PERIOD, dayType: LEAF },
+    paymentDatesAdjustments: ADJUSTMENTS
+  },
+  resetDates: {
+    calculationPeriodDatesReference: LEAF,
+    resetRelativeTo: LEAF,
+    resetFrequency: PERIOD,
+    resetDatesAdjustments: ADJUSTMENTS
+  },
+  calculationPeriodAmount: {
+    calculation: {
+      // Steps get their own warning below
+      notionalSchedule: { notionalStepSchedule: { initialValue: LEAF, currency: LEAF, step: LEAF } },
+      fixedRateSchedule: { initialValue: LEAF },
+      floatingRateCalculation: { floatingRateIndex: LEAF, indexTenor: PERIOD, spreadSchedule: { initialValue: LEAF } },
+      dayCountFraction: LEAF
+    }
+  },
+  principalExchanges: { initialExchange: LEAF, finalExchange: LEAF, intermediateExchange: LEAF }
+};
+
+const children = (el: Element | null | undefined, name?: string): Element[] =>
+  el ? Array.from(el.children).filter(c => !name || c.localName === name) : [];
+
+// First descendant along a path of local names, ignoring namespaces
+const find = (el: Element | null | undefined, ...path: string[]): Element | undefined => {
+  let current: Element | undefined = el ?? undefined;
+  for (const name of path) {
+    current = current && Array.from(current.getElementsByTagNameNS('*', name))[0];
+  }
+  return current;
+};
+
+const text = (el: Element | null | undefined, ...path: string[]): string | undefined =>
+  find(el, ...path)?.textContent?.trim() || undefined;
+
+const readFrequency = (el: Element | undefined): string | undefined => {
+  const multiplier = Number(text(el, 'periodMultiplier'));
+  const unit = text(el, 'period');
+  const months = unit === 'Y' ? multiplier * 12 : unit === 'M' ? multiplier : NaN;
+  return ({ 1: 'Monthly', 3: 'Quarterly', 6: 'Semi-Annual', 12: 'Annual' } as Record<number, string>)[months]
+    ?? (el ? `${multiplier}${unit}` : undefined);
+};
+
+// Paths of the elements under `el` that the spec does not name, e.g. 'paymentDates/paymentDaysOffset'
+const unsupportedElements = (el: Element, spec: ElementSpec, path = ''): string[] =>
+  children(el).flatMap(child => {
+    const childPath = `${path}${child.localName}`;
+    return Object.hasOwn(spec, child.localName) ? unsupportedElements(child, spec[child.localName], `${childPath}/`) : [childPath];
+  });
+
+const readStream = (stream: Element, location: string, issues: TradeIssue[]): Record<string, unknown> => {
+  const warn = (message: string) => issues.push({ location, severity: 'warning', message });
+  unsupportedElements(stream, STREAM_ELEMENTS).forEach(path => warn(`Unsupported element ${path} ignored`));
+  const calculation = find(stream, 'calculationPeriodAmount', 'calculation');
+  if (find(stream, 'notionalStepSchedule', 'step')) warn('Notional steps are not supported; the initial notional was used');
+  if (text(stream, 'principalExchanges', 'intermediateExchange') === 'true') warn('Intermediate exchanges are not supported and were ignored');
+  const payRelativeTo = text(stream, 'paymentDates', 'payRelativeTo');
+  if (payRelativeTo && payRelativeTo !== 'CalculationPeriodEndDate') warn(`Payment relative to ${payRelativeTo} is not supported; coupons are paid at the period end`);
+  // Payment lags are business days; any other offset is reported and dropped
+  const paymentOffset = find(stream, 'paymentDates', 'paymentDaysOffset');
+  const paymentLag = text(paymentOffset, 'period') === 'D' && text(paymentOffset, 'dayType') === 'Business' ? text(paymentOffset, 'periodMultiplier') : undefined;
+  if (paymentOffset && !paymentLag) warn('Payment offsets other than business days are not supported and were ignored');
+  const rollConvention = text(stream, 'calculationPeriodFrequency', 'rollConvention');
+  if (rollConvention && !/^(\d+|EOM|IMM)$/.test(rollConvention)) warn(`Roll convention ${rollConvention} is not supported; dates roll on the start date's day`);
+  const resetRelativeTo = text(stream, 'resetDates', 'resetRelativeTo');
+  if (resetRelativeTo && resetRelativeTo !== 'CalculationPeriodStartDate') warn(`Reset relative to ${resetRelativeTo} is not supported; rates fix at the period start`);
+
+  const adjustments = find(stream, 'calculationPeriodDatesAdjustments');
+  const centers = children(find(adjustments, 'businessCenters'), 'businessCenter').map(c => c.textContent?.trim() ?? '');
+  const floating = find(calculation, 'floatingRateCalculation');
+  const fpmlIndex = text(floating, 'floatingRateIndex');
+  const index = fpmlIndex ? invert(FLOATING_RATE_INDICES)[fpmlIndex] ?? fpmlIndex : undefined;
+  const rate = floating ? text(floating, 'spreadSchedule', 'initialValue') ?? '0' : text(calculation, 'fixedRateSchedule', 'initialValue');
+  const dayCount = text(calculation, 'dayCountFraction');
+  const businessDayConvention = text(adjustments, 'businessDayConvention');
+  // A numeric roll convention on the start date's day is the default anchor, not a roll day
+  const startDay = Number(text(stream, 'effectiveDate', 'unadjustedDate')?.slice(8));
+  const rollDay = rollConvention === 'IMM' || (rollConvention && /^\d+$/.test(rollConvention) && Number(rollConvention) !== startDay)
+    ? rollConvention
+    : undefined;
+
+  return {
+    currency: text(calculation, 'notionalStepSchedule', 'currency'),
+    notional: text(calculation, 'notionalStepSchedule', 'initialValue'),
+    rate: rate === undefined || Number.isNaN(Number(rate)) ? rate : toPercent(Number(rate)),
+    type: floating ? 'Floating' : 'Fixed',
+    frequency: readFrequency(find(stream, 'paymentDates', 'paymentFrequency')),
+    convention: dayCount ? invert(DAY_COUNTS)[dayCount] ?? dayCount : undefined,
+    calendar: centers.length ? centers.map(c => invert(BUSINESS_CENTERS)[c] ?? c).join('+') : undefined,
+    businessDayConvention: businessDayConvention ? invert(BUSINESS_DAY_CONVENTIONS)[businessDayConvention] ?? businessDayConvention : undefined,
+    endOfMonth: rollConvention === 'EOM' || undefined,
+    rollDay,
+    paymentLagDays: paymentLag,
+    index,
+    initialExchange: text(stream, 'principalExchanges', 'initialExchange'),
+    finalExchange: text(stream, 'principalExchanges', 'finalExchange')
+  };
+};
+
+export const parseFpml = (xml: string): TradeImportResult => {
+  const malformed: TradeImportResult = { deals: [], issues: [{ location: 'file', severity: 'error', message: 'The file is not well-formed XML' }] };
+  let doc: Document;
+  try {
+    doc = new DOMParser().parseFromString(xml, 'application/xml');
+  } catch {
+    return malformed;
+  }
+  if (doc.getElementsByTagName('parsererror').length) return malformed;
+
+  const parties = Object.fromEntries(Array.from(doc.getElementsByTagNameNS('*', 'party'))
+    .map(p => [p.getAttribute('id') ?? '', text(p, 'partyName') ?? text(p, 'partyId') ?? '']));
+  const trades = Array.from(doc.getElementsByTagNameNS('*', 'trade'));
+  if (trades.length === 0) {
+    return { deals: [], issues: [{ location: 'file', severity: 'error', message: 'No <trade> elements found' }] };
+  }
+
+  const deals: SwapDeal[] = [];
+  const issues: TradeIssue[] = [];
+  trades.forEach((trade, i) => {
+    const id = text(trade, 'tradeHeader', 'tradeId');
+    const location = `trade ${id ?? i + 1}`;
+    const swap = find(trade, 'swap');
+    if (!swap) {
+      issues.push({ location, severity: 'error', message: `Unsupported product ${children(trade).find(c => c.localName !== 'tradeHeader')?.localName ?? 'missing'}; only swap is supported` });
+      return;
+    }
+    const streams = children(swap, 'swapStream');
+    if (streams.length !== 2) {
+      issues.push({ location, severity: 'error', message: `Expected two swapStream elements, found ${streams.length}` });
+      return;
+    }
+    children(swap).filter(c => c.localName !== 'swapStream').forEach(c =>
+      issues.push({ location, severity: 'warning', message: `Unsupported element swap/${c.localName} ignored` }));
+
+    // Leg 1 is the stream we receive; fall back to document order when neither side names us
+    const receivedIndex = streams.findIndex(s => find(s, 'receiverPartyReference')?.getAttribute('href') === OUR_PARTY);
+    const [received, paid] = receivedIndex === 1 ? [streams[1], streams[0]] : [streams[0], streams[1]];
+    const counterpartyRef = [find(received, 'payerPartyReference'), find(paid, 'receiverPartyReference')]
+      .map(el => el?.getAttribute('href'))
+      .find(href => href && href !== OUR_PARTY);
+    const tradeDate = text(trade, 'tradeHeader', 'tradeDate');
+
+    const raw: Record<string, unknown> = {
+      id,
+      counterparty: counterpartyRef ? parties[counterpartyRef] || undefined : undefined,
+      tradeDate,
+      valueDate: tradeDate,
+      startDate: text(received, 'effectiveDate', 'unadjustedDate'),
+      endDate: text(received, 'terminationDate', 'unadjustedDate'),
+      leg1: readStream(received, `${location} leg1`, issues),
+      leg2: readStream(paid, `${location} leg2`, issues)
+    };
+    const result = normalizeDeal(raw, location);
+    issues.push(...result.issues);
+    if (result.deal) deals.push(result.deal);
+  });
+
+  return { deals, issues };
+};
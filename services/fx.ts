@@ -0,0 +1,61 @@
+import { MarketData } from '../types';
+import { addTenor, daysBetween, parseDate } from './dateUtils';
+import { getDiscountCurve } from './marketData';
+
+export const FX_PIP = 1e-4;
+
+const usdSpot = (market: MarketData, currency: string): number => {
+  const spot = market.fxSpots[currency];
+  if (spot === undefined) {
+    throw new Error(`No FX spot available for ${currency}`);
+  }
+  return spot;
+};
+
+// Units of `to` per one unit of `from`
+export const fxSpot = (market: MarketData, from: string, to: string): number => {
+  if (from === to) return 1;
+  return usdSpot(market, from) / usdSpot(market, to);
+};
+
+export const convertAtSpot = (market: MarketData, amount: number, from: string, to: string): number => {
+  return amount * fxSpot(market, from, to);
+};
+
+// Quoted points are interpolated linearly in time from zero at spot and held flat beyond the last tenor
+const quotedPoints = (points: Record<string, number>, valuation: Date, date: Date): number => {
+  const nodes = Object.entries(points)
+    .map(([tenor, pips]) => ({ t: daysBetween(valuation, addTenor(valuation, tenor)), pips }))
+    .sort((a, b) => a.t - b.t);
+  const t = daysBetween(valuation, date);
+  let prev = { t: 0, pips: 0 };
+  for (const node of nodes) {
+    if (t <= node.t) {
+      return prev.pips + (node.pips - prev.pips) * (t - prev.t) / (node.t - prev.t);
+    }
+    prev = node;
+  }
+  return prev.pips;
+};
+
+// Forward USD-per-unit rate for a currency, from quoted points or covered interest parity
+const usdForward = (market: MarketData, currency: string, date: Date, valueDate: string): number => {
+  const spot = usdSpot(market, currency);
+  const valuation = parseDate(valueDate);
+  if (currency === 'USD' || date <= valuation) return spot;
+
+  const points = market.fxForwardPoints[currency];
+  if (points && Object.keys(points).length) {
+    return spot + quotedPoints(points, valuation, date) * FX_PIP;
+  }
+  const t = daysBetween(valuation, date) / 365;
+  const foreign = getDiscountCurve(market, currency, valueDate).discount(t);
+  const usd = getDiscountCurve(market, 'USD', valueDate).discount(t);
+  return spot * foreign / usd;
+};
+
+// Units of `to` per one unit of `from` for delivery on `date`
+export const fxForward = (market: MarketData, from: string, to: string, date: Date, valueDate: string): number => {
+  if (from === to) return 1;
+  return usdForward(market, from, date, valueDate) / usdForward(market, to, date, valueDate);
+};
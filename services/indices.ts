@@ -0,0 +1,34 @@
+import { RateIndex } from '../types';
+
+export const RATE_INDICES: Record<string, RateIndex> = {
+  CDI: { code: 'CDI', name: 'CDI (Brazil DI)', currency: 'BRL', style: 'Overnight', basis: 252, calendar: 'BRBD', fixingLagDays: 0 },
+  SOFR: { code: 'SOFR', name: 'SOFR', currency: 'USD', style: 'Overnight', basis: 360, calendar: 'USNY', fixingLagDays: 0 },
+  ESTR: { code: 'ESTR', name: '€STR', currency: 'EUR', style: 'Overnight', basis: 360, calendar: 'TARGET', fixingLagDays: 0 },
+  SONIA: { code: 'SONIA', name: 'SONIA', currency: 'GBP', style: 'Overnight', basis: 365, calendar: 'GBLO', fixingLagDays: 0 },
+  TONA: { code: 'TONA', name: 'TONA', currency: 'JPY', style: 'Overnight', basis: 365, calendar: 'JPTO', fixingLagDays: 0 },
+  EURIBOR: { code: 'EURIBOR', name: 'EURIBOR', currency: 'EUR', style: 'Term', basis: 360, calendar: 'TARGET', fixingLagDays: 2 },
+  TIBOR: { code: 'TIBOR', name: 'TIBOR', currency: 'JPY', style: 'Term', basis: 365, calendar: 'JPTO', fixingLagDays: 2 },
+  BBSW: { code: 'BBSW', name: 'BBSW', currency: 'AUD', style: 'Term', basis: 365, calendar: 'AUSY', fixingLagDays: 0 }
+};
+
+const DEFAULT_INDEX: Record<string, string> = {
+  BRL: 'CDI',
+  USD: 'SOFR',
+  EUR: 'ESTR',
+  GBP: 'SONIA',
+  JPY: 'TONA',
+  AUD: 'BBSW'
+};
+
+export const indicesForCurrency = (currency: string): RateIndex[] => {
+  return Object.values(RATE_INDICES).filter(index => index.currency === currency);
+};
+
+export const resolveIndex = (code: string | undefined, currency: string): RateIndex => {
+  const resolved = code || DEFAULT_INDEX[currency];
+  const index = resolved ? RATE_INDICES[resolved] : undefined;
+  if (!index) {
+    throw new Error(`No floating rate index available for ${currency}`);
+  }
+  return index;
+};
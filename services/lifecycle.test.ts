@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { SwapDeal } from '../types';
+import { amendDeal, bookDeal, terminateDeal } from './lifecycle';
+
+const DEAL: SwapDeal = {
+  id: 'SWP-100',
+  tradeDate: '2024-06-27',
+  valueDate: '2024-06-27',
+  startDate: '2024-07-01',
+  endDate: '2025-07-01',
+  leg1: { currency: 'USD', notional: 10000000, rate: 0, type: 'Floating', frequency: 'Quarterly', convention: 'Actual/360' },
+  leg2: { currency: 'USD', notional: 10000000, rate: 4, type: 'Fixed', frequency: 'Quarterly', convention: 'Actual/360' }
+};
+const AMENDED: SwapDeal = { ...DEAL, leg2: { ...DEAL.leg2, rate: 4.25 } };
+
+describe('amendDeal', () => {
+  const booked = bookDeal(DEAL);
+
+  it('leaves a matured deal alone when nothing changed', () => {
+    expect(amendDeal(booked, DEAL, '2026-10-19')).toBe(booked);
+  });
+
+  it('dates the amendment of a matured deal on its maturity', () => {
+    const amended = amendDeal(booked, AMENDED, '2026-10-19');
+    expect(amended.deal).toEqual(AMENDED);
+    expect(amended.events?.at(-1)).toMatchObject({ type: 'Amended', date: '2025-07-01' });
+  });
+
+  it('dates the amendment of a deal traded after the as-of date on its trade date', () => {
+    expect(amendDeal(booked, AMENDED, '2024-01-02').events?.at(-1)?.date).toBe('2024-06-27');
+  });
+
+  it('corrects a terminated deal without an event', () => {
+    const terminated = terminateDeal(booked, '2024-12-02');
+    const amended = amendDeal(terminated, AMENDED, '2024-12-10');
+    expect(amended.deal).toEqual(AMENDED);
+    expect(amended.events).toBe(terminated.events);
+  });
+});
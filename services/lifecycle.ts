@@ -0,0 +1,212 @@
+import { DealRecord, DealStatus, LifecycleEvent, LifecycleEventType, SwapDeal, SwapLeg } from '../types';
+
+export const LIFECYCLE_EVENT_LABELS: Record<LifecycleEventType, string> = {
+  Booked: 'Booked',
+  Confirmed: 'Confirmed',
+  Amended: 'Amended',
+  PartialUnwind: 'Partial unwind',
+  EarlyTermination: 'Early termination',
+  Novation: 'Novation'
+};
+
+export const tradeDateOf = (deal: SwapDeal): string => deal.tradeDate ?? deal.valueDate;
+
+const terminationOf = (events: LifecycleEvent[] = []): LifecycleEvent | undefined =>
+  events.find(e => e.type === 'EarlyTermination');
+
+export const isConfirmed = (events: LifecycleEvent[] = []): boolean => events.some(e => e.type === 'Confirmed');
+
+// Status as seen on the as-of date: terminated once the termination is effective, matured from the
+// end date, pending until the swap starts accruing and active in between
+export const deriveStatus = (deal: SwapDeal, events: LifecycleEvent[] = [], asOf: string): DealStatus => {
+  const termination = terminationOf(events);
+  if (termination && termination.date <= asOf) return 'Terminated';
+  if (asOf >= deal.endDate) return 'Matured';
+  if (asOf < deal.startDate) return 'Pending';
+  return 'Active';
+};
+
+export const withLifecycleStatus = (record: DealRecord, asOf: string): DealRecord => {
+  const status = deriveStatus(record.deal, record.events, asOf);
+  return record.deal.status === status ? record : { ...record, deal: { ...record.deal, status } };
+};
+
+// --- Events ---
+
+// History is append-only: every event is frozen and a new array is returned, never mutated in place
+const appendEvent = (record: DealRecord, deal: SwapDeal, event: Omit<LifecycleEvent, 'id' | 'recordedAt'>): DealRecord => {
+  const events = record.events ?? [];
+  const recorded: LifecycleEvent = Object.freeze({
+    ...event,
+    id: `${deal.id ?? 'NEW'}-E${events.length + 1}`,
+    recordedAt: new Date().toISOString()
+  });
+  return { ...record, deal, events: Object.freeze([...events, recorded]) as LifecycleEvent[] };
+};
+
+const assertOpen = (record: DealRecord, date: string) => {
+  const { deal } = record;
+  const termination = terminationOf(record.events);
+  if (termination) {
+    throw new Error(`${deal.id} was terminated on ${termination.date}`);
+  }
+  if (date < tradeDateOf(deal) || date > deal.endDate) {
+    throw new Error(`Event date ${date} must fall between the trade date ${tradeDateOf(deal)} and maturity ${deal.endDate}`);
+  }
+};
+
+const formatFee = (fee: number, currency: string) =>
+  `${currency} ${fee.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const bookDeal = (deal: SwapDeal): DealRecord =>
+  appendEvent({ deal, updatedAt: new Date().toISOString() }, deal, {
+    type: 'Booked',
+    date: tradeDateOf(deal),
+    description: `Booked${deal.counterparty ? ` with ${deal.counterparty}` : ''}`
+  });
+
+export const confirmDeal = (record: DealRecord, date: string): DealRecord => {
+  assertOpen(record, date);
+  if (isConfirmed(record.events)) {
+    throw new Error(`${record.deal.id} is already confirmed`);
+  }
+  return appendEvent(record, record.deal, { type: 'Confirmed', date, description: 'Trade confirmed' });
+};
+
+const DEAL_FIELDS: [keyof SwapDeal, string][] = [
+  ['counterparty', 'Counterparty'],
+  ['tradeDate', 'Trade date'],
+  ['valueDate', 'Value date'],
+  ['startDate', 'Start date'],
+  ['endDate', 'End date']
+];
+
+const LEG_FIELDS: [keyof SwapLeg, string][] = [
+  ['currency', 'currency'],
+  ['notional', 'notional'],
+  ['rate', 'rate/spread'],
+  ['type', 'type'],
+  ['frequency', 'frequency'],
+  ['convention', 'day count'],
+  ['calendar', 'calendar'],
+  ['businessDayConvention', 'business day convention'],
+  ['endOfMonth', 'end of month'],
+  ['index', 'index'],
+  ['lookbackDays', 'lookback'],
+  ['lockoutDays', 'lockout'],
+  ['initialExchange', 'initial exchange'],
+  ['finalExchange', 'final exchange'],
+  ['notionalReset', 'notional reset'],
+  ['dateGeneration', 'date generation'],
+  ['stub', 'stub'],
+  ['rollDay', 'roll day'],
+  ['paymentLagDays', 'payment lag'],
+  ['fixingLagDays', 'fixing lag'],
+  ['notionalSchedule', 'notional schedule']
+];
+
+const show = (value: unknown): string => {
+  if (Array.isArray(value)) return value.length ? value.map(step => `${step.date} ${step.notional}`).join(', ') : '—';
+  return value === undefined || value === '' ? '—' : String(value);
+};
+
+export const describeChanges = (before: SwapDeal, after: SwapDeal): string[] => {
+  const changes: string[] = [];
+  DEAL_FIELDS.forEach(([field, label]) => {
+    if (before[field] !== after[field]) changes.push(`${label}: ${show(before[field])} → ${show(after[field])}`);
+  });
+  ([['leg1', 'Leg 1'], ['leg2', 'Leg 2']] as const).forEach(([legKey, legLabel]) => {
+    LEG_FIELDS.forEach(([field, label]) => {
+      const from = show(before[legKey][field]);
+      const to = show(after[legKey][field]);
+      if (from !== to) changes.push(`${legLabel} ${label}: ${from} → ${to}`);
+    });
+  });
+  return changes;
+};
+
+// Amendments replace the terms; the change list keeps the previous values in the history
+// A terminated deal takes corrections without an event, and the amendment of any other deal is dated within its life
+export const amendDeal = (record: DealRecord, amended: SwapDeal, date: string): DealRecord => {
+  const changes = describeChanges(record.deal, amended);
+  if (changes.length === 0) return record;
+  if (terminationOf(record.events)) return { ...record, deal: amended };
+  const tradeDate = tradeDateOf(record.deal);
+  const effective = date < tradeDate ? tradeDate : date > record.deal.endDate ? record.deal.endDate : date;
+  assertOpen(record, effective);
+  return appendEvent(record, amended, {
+    type: 'Amended',
+    date: effective,
+    description: `${changes.length} term${changes.length === 1 ? '' : 's'} amended`,
+    changes
+  });
+};
+
+const scaleNotionals = (deal: SwapDeal, scaled: (notional: number) => number): SwapDeal => {
+  const scale = (leg: SwapLeg): SwapLeg => ({
+    ...leg,
+    notional: scaled(leg.notional),
+    notionalSchedule: leg.notionalSchedule?.map(step => ({ ...step, notional: scaled(step.notional) }))
+  });
+  return { ...deal, leg1: scale(deal.leg1), leg2: scale(deal.leg2) };
+};
+
+// Terms as they stood on a date: the stored notionals already reflect every unwind, so later ones are undone.
+// Amendments only keep a description of what changed, so terms from before one cannot be rebuilt.
+export const dealTermsOn = (record: DealRecord, date: string): SwapDeal => {
+  const amendment = (record.events ?? []).find(e => e.type === 'Amended' && e.date > date);
+  if (amendment) {
+    throw new Error(`Amended on ${amendment.date}, and the terms before the amendment are not kept; choose dates from ${amendment.date} on`);
+  }
+  const remaining = (record.events ?? [])
+    .filter(e => e.type === 'PartialUnwind' && e.date > date)
+    .reduce((acc, e) => acc * (1 - (e.unwindFraction ?? 0)), 1);
+  return remaining === 1 ? record.deal : scaleNotionals(record.deal, notional => notional / remaining);
+};
+
+// Both legs are scaled down, so the remaining trade keeps its original terms on a smaller size
+export const partialUnwind = (record: DealRecord, date: string, fraction: number, fee = 0, feeCurrency = record.deal.leg2.currency): DealRecord => {
+  assertOpen(record, date);
+  if (!(fraction > 0 && fraction < 1)) {
+    throw new Error('Unwound share must be between 0% and 100% (use early termination for a full unwind)');
+  }
+  const deal = scaleNotionals(record.deal, notional => Number((notional * (1 - fraction)).toFixed(2)));
+  return appendEvent(record, deal, {
+    type: 'PartialUnwind',
+    date,
+    description: `${(fraction * 100).toFixed(2)}% of the notional unwound${fee ? ` for ${formatFee(fee, feeCurrency)}` : ''}`,
+    unwindFraction: fraction,
+    fee,
+    feeCurrency
+  });
+};
+
+export const terminateDeal = (record: DealRecord, date: string, fee = 0, feeCurrency = record.deal.leg2.currency): DealRecord => {
+  assertOpen(record, date);
+  return appendEvent(record, record.deal, {
+    type: 'EarlyTermination',
+    date,
+    description: `Terminated early${fee ? ` for ${formatFee(fee, feeCurrency)}` : ''}`,
+    fee,
+    feeCurrency
+  });
+};
+
+export const novateDeal = (record: DealRecord, date: string, toCounterparty: string): DealRecord => {
+  assertOpen(record, date);
+  const to = toCounterparty.trim();
+  const from = record.deal.counterparty;
+  if (!to) {
+    throw new Error('Novation requires the new counterparty');
+  }
+  if (to === from) {
+    throw new Error(`${record.deal.id} is already facing ${to}`);
+  }
+  return appendEvent(record, { ...record.deal, counterparty: to }, {
+    type: 'Novation',
+    date,
+    description: `Novated from ${from || 'unassigned'} to ${to}`,
+    fromCounterparty: from,
+    toCounterparty: to
+  });
+};
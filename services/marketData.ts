@@ -0,0 +1,95 @@
+import { CurveDefinition, CurveQuote, MarketData, YieldCurve } from '../types';
+import { bootstrapCurve } from './curves';
+
+const deposits = (rates: [string, number][]): CurveQuote[] => rates.map(([tenor, quote]) => ({ type: 'Deposit', tenor, quote }));
+const swaps = (rates: [string, number][]): CurveQuote[] => rates.map(([tenor, quote]) => ({ type: 'Swap', tenor, quote }));
+
+const curve = (currency: string, swapFrequency: string, quotes: CurveQuote[]): CurveDefinition => ({
+  currency,
+  interpolation: 'LogLinearDiscount',
+  swapFrequency,
+  quotes
+});
+
+export const DEFAULT_MARKET_DATA: MarketData = {
+  asOf: '2024-09-27',
+  curves: {
+    USD: curve('USD', 'Annual', [
+      ...deposits([['1M', 4.85], ['3M', 4.75], ['6M', 4.50]]),
+      { type: 'Future', tenor: '6x9', quote: 96.10 },
+      { type: 'FRA', tenor: '9x12', quote: 3.70 },
+      ...swaps([['2Y', 3.55], ['3Y', 3.45], ['5Y', 3.40], ['7Y', 3.45], ['10Y', 3.55]])
+    ]),
+    BRL: curve('BRL', 'Annual', [
+      ...deposits([['1M', 10.65], ['3M', 10.90], ['6M', 11.20]]),
+      { type: 'FRA', tenor: '6x12', quote: 11.60 },
+      ...swaps([['2Y', 11.90], ['3Y', 12.00], ['5Y', 12.10], ['10Y', 12.15]])
+    ]),
+    EUR: curve('EUR', 'Annual', [
+      ...deposits([['1M', 3.40], ['3M', 3.30], ['6M', 3.10]]),
+      { type: 'FRA', tenor: '6x12', quote: 2.75 },
+      ...swaps([['2Y', 2.45], ['3Y', 2.35], ['5Y', 2.35], ['7Y', 2.45], ['10Y', 2.55]])
+    ]),
+    GBP: curve('GBP', 'Annual', [
+      ...deposits([['1M', 4.95], ['3M', 4.90], ['6M', 4.70]]),
+      { type: 'FRA', tenor: '6x12', quote: 4.20 },
+      ...swaps([['2Y', 4.00], ['3Y', 3.85], ['5Y', 3.80], ['10Y', 3.85]])
+    ]),
+    JPY: curve('JPY', 'Annual', [
+      ...deposits([['1M', 0.20], ['3M', 0.25], ['6M', 0.30]]),
+      { type: 'FRA', tenor: '6x12', quote: 0.38 },
+      ...swaps([['2Y', 0.45], ['3Y', 0.50], ['5Y', 0.62], ['10Y', 0.90]])
+    ]),
+    AUD: curve('AUD', 'Semi-Annual', [
+      ...deposits([['1M', 4.35], ['3M', 4.40], ['6M', 4.45]]),
+      { type: 'FRA', tenor: '6x12', quote: 4.10 },
+      ...swaps([['2Y', 3.80], ['3Y', 3.70], ['5Y', 3.75], ['10Y', 4.10]])
+    ])
+  },
+  fxSpots: { USD: 1, BRL: 0.1835, EUR: 1.116, GBP: 1.338, JPY: 0.00703, AUD: 0.69 },
+  fxForwardPoints: {},
+  fixings: {
+    CDI: { '2023-01-02': 13.65, '2023-08-03': 13.15, '2023-09-21': 12.65, '2023-11-02': 12.15, '2023-12-14': 11.65, '2024-02-01': 11.15, '2024-03-21': 10.65, '2024-05-09': 10.40, '2024-09-19': 10.65 },
+    SOFR: { '2023-01-03': 4.31, '2023-02-02': 4.55, '2023-03-23': 4.80, '2023-05-04': 5.05, '2023-07-27': 5.31, '2024-09-19': 4.83 },
+    ESTR: { '2023-01-02': 1.90, '2023-02-08': 2.40, '2023-03-22': 2.90, '2023-05-10': 3.15, '2023-06-21': 3.40, '2023-08-02': 3.65, '2023-09-20': 3.90, '2024-06-12': 3.66, '2024-09-18': 3.41 },
+    SONIA: { '2023-01-03': 3.43, '2023-02-03': 3.93, '2023-03-24': 4.18, '2023-05-12': 4.43, '2023-06-23': 4.93, '2023-08-04': 5.19, '2024-08-02': 4.95 },
+    TONA: { '2023-01-04': -0.02, '2024-03-21': 0.08, '2024-08-01': 0.23 },
+    EURIBOR: { '2023-01-02': 2.13, '2023-06-01': 3.47, '2023-10-02': 3.95, '2024-06-03': 3.78, '2024-09-02': 3.49 },
+    TIBOR: { '2023-01-04': 0.07, '2024-04-01': 0.15, '2024-08-01': 0.35 },
+    BBSW: { '2023-01-03': 3.27, '2023-07-03': 4.35, '2024-01-02': 4.36, '2024-09-02': 4.42 }
+  }
+};
+
+// Bootstrapped curves are cached per definition object, so edits (which replace the object) rebuild
+const curveCache = new WeakMap<CurveDefinition, Map<string, YieldCurve>>();
+
+export const getDiscountCurve = (market: MarketData, currency: string, referenceDate: string): YieldCurve => {
+  const definition = market.curves[currency];
+  if (!definition) {
+    throw new Error(`No discount curve available for ${currency}`);
+  }
+  let byDate = curveCache.get(definition);
+  if (!byDate) {
+    byDate = new Map();
+    curveCache.set(definition, byDate);
+  }
+  let built = byDate.get(referenceDate);
+  if (!built) {
+    built = bootstrapCurve(definition, referenceDate);
+    byDate.set(referenceDate, built);
+  }
+  return built;
+};
+
+// Latest fixing published on or before the date
+export const getFixing = (market: MarketData, index: string, date: string): number => {
+  const series = market.fixings[index] ?? {};
+  let latest: string | undefined;
+  for (const fixingDate of Object.keys(series)) {
+    if (fixingDate <= date && (!latest || fixingDate > latest)) latest = fixingDate;
+  }
+  if (!latest) {
+    throw new Error(`Missing ${index} fixing for ${date}`);
+  }
+  return series[latest];
+};
@@ -0,0 +1,335 @@
+import { CurveDefinition, CurveInstrument, CurveQuote, InterpolationMethod, MarketData } from '../types';
+import { parseCsv } from './csv';
+import { parseDate, formatDate, addTenor } from './dateUtils';
+import { bootstrapCurve, quoteMaturity } from './curves';
+import { RATE_INDICES } from './indices';
+
+/*
+ * Market data files
+ *
+ * CSV: one record per row, with a header naming the columns (any order, case-insensitive):
+ *
+ *   record,currency,instrument,tenor,index,date,value
+ *   quote,USD,Deposit,3M,,,4.75        curve quote in % (futures as price, e.g. 96.10; FRA/futures tenor as 6x9)
+ *   fx,BRL,,,,,0.1835                  spot as USD per one unit of the currency
+ *   fxpoints,BRL,,1Y,,,-120            forward points in pips of the USD-per-unit quote
+ *   fixing,,,,SOFR,2024-09-19,4.83     index fixing in %, holding until the next one
+ *
+ * Lines starting with # are ignored. The snapshot date comes from the import form.
+ *
+ * JSON: the MarketData shape, where every section is optional:
+ *
+ *   {
+ *     "asOf": "2024-09-27",
+ *     "curves": { "USD": { "interpolation": "LogLinearDiscount", "swapFrequency": "Annual",
+ *                          "quotes": [{ "type": "Deposit", "tenor": "3M", "quote": 4.75 }] } },
+ *     "fxSpots": { "BRL": 0.1835 },
+ *     "fxForwardPoints": { "BRL": { "1Y": -120 } },
+ *     "fixings": { "SOFR": { "2024-09-19": 4.83 } }
+ *   }
+ *
+ * Imported curves replace the whole quote set of their currency; FX and fixings are merged into the
+ * base market.
+ */
+
+export interface MarketDataPatch {
+  asOf?: string;
+  curves: Record<string, Partial<Omit<CurveDefinition, 'currency'>> & { quotes: CurveQuote[] }>;
+  fxSpots: Record<string, number>;
+  fxForwardPoints: Record<string, Record<string, number>>;
+  fixings: Record<string, Record<string, number>>;
+}
+
+export interface ImportIssue {
+  // CSV line number or JSON path
+  location: string;
+  message: string;
+}
+
+export interface MarketImportResult {
+  patch: MarketDataPatch;
+  records: number;
+  errors: ImportIssue[];
+}
+
+export const MARKET_CSV_COLUMNS = ['record', 'currency', 'instrument', 'tenor', 'index', 'date', 'value'] as const;
+
+const INSTRUMENTS: CurveInstrument[] = ['Deposit', 'FRA', 'Future', 'Swap'];
+const INTERPOLATIONS: InterpolationMethod[] = ['LinearZero', 'LogLinearDiscount'];
+const FREQUENCIES = ['Monthly', 'Quarterly', 'Semi-Annual', 'Annual'];
+
+const emptyPatch = (): MarketDataPatch => ({ curves: {}, fxSpots: {}, fxForwardPoints: {}, fixings: {} });
+
+// --- Field validation, shared by both formats; each returns an error message or undefined ---
+
+const checkCurrency = (value: unknown): string | undefined =>
+  typeof value === 'string' && /^[A-Z]{3}$/.test(value) ? undefined : `Invalid currency "${value}", expected an ISO code such as USD`;
+
+const checkDate = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || formatDate(parseDate(value)) !== value) {
+    return `Invalid date "${value}", expected YYYY-MM-DD`;
+  }
+  return undefined;
+};
+
+const checkNumber = (value: unknown): string | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? undefined : `Invalid number "${value}"`;
+
+const checkTenor = (value: unknown): string | undefined => {
+  try {
+    addTenor(new Date(Date.UTC(2000, 0, 1)), String(value));
+    return undefined;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+};
+
+const checkQuote = (quote: CurveQuote): string | undefined => {
+  if (!INSTRUMENTS.includes(quote.type)) {
+    return `Unknown instrument "${quote.type}", expected one of ${INSTRUMENTS.join(', ')}`;
+  }
+  try {
+    quoteMaturity(quote, new Date(Date.UTC(2000, 0, 1)));
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+  return checkNumber(quote.quote);
+};
+
+const checkIndex = (value: unknown): string | undefined =>
+  typeof value === 'string' && RATE_INDICES[value] ? undefined : `Unknown index "${value}", expected one of ${Object.keys(RATE_INDICES).join(', ')}`;
+
+const toNumber = (text: string): number | string => {
+  const n = Number(text);
+  return text !== '' && Number.isFinite(n) ? n : text;
+};
+
+// --- CSV ---
+
+export const parseMarketCsv = (text: string): MarketImportResult => {
+  const patch = emptyPatch();
+  const errors: ImportIssue[] = [];
+  const rows = parseCsv(text).filter(r => !r.cells[0].startsWith('#'));
+  if (rows.length === 0) {
+    return { patch, records: 0, errors: [{ location: 'file', message: 'The file is empty' }] };
+  }
+
+  const header = rows[0].cells.map(c => c.toLowerCase());
+  const missing = MARKET_CSV_COLUMNS.filter(c => !header.includes(c));
+  if (missing.length) {
+    return { patch, records: 0, errors: [{ location: `line ${rows[0].line}`, message: `Missing column(s): ${missing.join(', ')}` }] };
+  }
+
+  let records = 0;
+  rows.slice(1).forEach(({ line, cells }) => {
+    const get = (column: typeof MARKET_CSV_COLUMNS[number]) => cells[header.indexOf(column)] ?? '';
+    const fail = (message: string) => errors.push({ location: `line ${line}`, message });
+    const value = toNumber(get('value'));
+    const valueError = checkNumber(value);
+
+    switch (get('record').toLowerCase()) {
+      case 'quote': {
+        const currency = get('currency');
+        const quote = { type: get('instrument') as CurveInstrument, tenor: get('tenor'), quote: value as number };
+        const error = checkCurrency(currency) ?? checkQuote(quote);
+        if (error) return fail(error);
+        const curve = patch.curves[currency] ??= { quotes: [] };
+        if (curve.quotes.some(q => q.type === quote.type && q.tenor === quote.tenor)) {
+          return fail(`Duplicate ${currency} ${quote.type} ${quote.tenor} quote`);
+        }
+        curve.quotes.push(quote);
+        break;
+      }
+      case 'fx': {
+        const currency = get('currency');
+        const error = checkCurrency(currency) ?? valueError ?? ((value as number) > 0 ? undefined : 'FX spot must be positive');
+        if (error) return fail(error);
+        patch.fxSpots[currency] = value as number;
+        break;
+      }
+      case 'fxpoints': {
+        const currency = get('currency');
+        const error = checkCurrency(currency) ?? checkTenor(get('tenor')) ?? valueError;
+        if (error) return fail(error);
+        (patch.fxForwardPoints[currency] ??= {})[get('tenor')] = value as number;
+        break;
+      }
+      case 'fixing': {
+        const error = checkIndex(get('index')) ?? checkDate(get('date')) ?? valueError;
+        if (error) return fail(error);
+        (patch.fixings[get('index')] ??= {})[get('date')] = value as number;
+        break;
+      }
+      default:
+        return fail(`Unknown record "${get('record')}", expected quote, fx, fxpoints or fixing`);
+    }
+    records++;
+  });
+
+  return { patch, records, errors };
+};
+
+// --- JSON ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseMarketJson = (text: string): MarketImportResult => {
+  const patch = emptyPatch();
+  const errors: ImportIssue[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { patch, records: 0, errors: [{ location: 'file', message: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` }] };
+  }
+  if (!isObject(data)) {
+    return { patch, records: 0, errors: [{ location: '$', message: 'Expected an object at the top level' }] };
+  }
+
+  const root = data;
+  let records = 0;
+  const fail = (location: string, message: string) => errors.push({ location, message });
+  const section = (key: string): Record<string, unknown> => {
+    const value = root[key];
+    if (value === undefined) return {};
+    if (!isObject(value)) {
+      fail(key, 'Expected an object');
+      return {};
+    }
+    return value;
+  };
+
+  if (root.asOf !== undefined) {
+    const error = checkDate(root.asOf);
+    if (error) fail('asOf', error); else patch.asOf = root.asOf as string;
+  }
+
+  Object.entries(section('curves')).forEach(([currency, raw]) => {
+    const path = `curves.${currency}`;
+    const error = checkCurrency(currency) ?? (isObject(raw) && Array.isArray(raw.quotes) ? undefined : 'Expected an object with a quotes array');
+    if (error) return fail(path, error);
+    const curve = raw as Record<string, unknown>;
+    if (curve.interpolation !== undefined && !INTERPOLATIONS.includes(curve.interpolation as InterpolationMethod)) {
+      fail(`${path}.interpolation`, `Unknown interpolation "${curve.interpolation}", expected ${INTERPOLATIONS.join(' or ')}`);
+    }
+    if (curve.swapFrequency !== undefined && !FREQUENCIES.includes(curve.swapFrequency as string)) {
+      fail(`${path}.swapFrequency`, `Unknown frequency "${curve.swapFrequency}", expected one of ${FREQUENCIES.join(', ')}`);
+    }
+    const quotes: CurveQuote[] = [];
+    (curve.quotes as unknown[]).forEach((q, i) => {
+      const quote = (isObject(q) ? q : {}) as unknown as CurveQuote;
+      const quoteError = checkQuote(quote);
+      if (quoteError) return fail(`${path}.quotes[${i}]`, quoteError);
+      if (quotes.some(other => other.type === quote.type && other.tenor === quote.tenor)) {
+        return fail(`${path}.quotes[${i}]`, `Duplicate ${currency} ${quote.type} ${quote.tenor} quote`);
+      }
+      quotes.push({ type: quote.type, tenor: quote.tenor, quote: quote.quote });
+      records++;
+    });
+    patch.curves[currency] = {
+      interpolation: curve.interpolation as InterpolationMethod | undefined,
+      swapFrequency: curve.swapFrequency as string | undefined,
+      quotes
+    };
+  });
+
+  Object.entries(section('fxSpots')).forEach(([currency, spot]) => {
+    const error = checkCurrency(currency) ?? checkNumber(spot) ?? ((spot as number) > 0 ? undefined : 'FX spot must be positive');
+    if (error) return fail(`fxSpots.${currency}`, error);
+    patch.fxSpots[currency] = spot as number;
+    records++;
+  });
+
+  Object.entries(section('fxForwardPoints')).forEach(([currency, points]) => {
+    if (checkCurrency(currency) || !isObject(points)) return fail(`fxForwardPoints.${currency}`, checkCurrency(currency) ?? 'Expected an object of tenor to points');
+    Object.entries(points).forEach(([tenor, pips]) => {
+      const error = checkTenor(tenor) ?? checkNumber(pips);
+      if (error) return fail(`fxForwardPoints.${currency}.${tenor}`, error);
+      (patch.fxForwardPoints[currency] ??= {})[tenor] = pips as number;
+      records++;
+    });
+  });
+
+  Object.entries(section('fixings')).forEach(([index, series]) => {
+    if (checkIndex(index) || !isObject(series)) return fail(`fixings.${index}`, checkIndex(index) ?? 'Expected an object of date to rate');
+    Object.entries(series).forEach(([date, rate]) => {
+      const error = checkDate(date) ?? checkNumber(rate);
+      if (error) return fail(`fixings.${index}.${date}`, error);
+      (patch.fixings[index] ??= {})[date] = rate as number;
+      records++;
+    });
+  });
+
+  return { patch, records, errors };
+};
+
+export const parseMarketFile = (filename: string, text: string): MarketImportResult =>
+  /\.json$/i.test(filename) || text.trimStart().startsWith('{') ? parseMarketJson(text) : parseMarketCsv(text);
+
+// --- Merge ---
+
+export const applyMarketPatch = (base: MarketData, patch: MarketDataPatch, asOf: string): MarketData => {
+  const curves = { ...base.curves };
+  Object.entries(patch.curves).forEach(([currency, curve]) => {
+    curves[currency] = {
+      currency,
+      interpolation: curve.interpolation ?? base.curves[currency]?.interpolation ?? 'LogLinearDiscount',
+      swapFrequency: curve.swapFrequency ?? base.curves[currency]?.swapFrequency ?? 'Annual',
+      quotes: curve.quotes
+    };
+  });
+
+  const fxForwardPoints = { ...base.fxForwardPoints };
+  Object.entries(patch.fxForwardPoints).forEach(([currency, points]) => {
+    fxForwardPoints[currency] = { ...fxForwardPoints[currency], ...points };
+  });
+
+  const fixings = { ...base.fixings };
+  Object.entries(patch.fixings).forEach(([index, series]) => {
+    fixings[index] = { ...fixings[index], ...series };
+  });
+
+  return {
+    asOf,
+    curves,
+    fxSpots: { ...base.fxSpots, ...patch.fxSpots, USD: 1 },
+    fxForwardPoints,
+    fixings
+  };
+};
+
+// Imported curves must bootstrap on the snapshot date before they can be saved
+export const validateCurves = (market: MarketData, currencies: string[]): ImportIssue[] =>
+  currencies.flatMap(currency => {
+    try {
+      bootstrapCurve(market.curves[currency], market.asOf);
+      return [];
+    } catch (e) {
+      return [{ location: `${currency} curve`, message: e instanceof Error ? e.message : String(e) }];
+    }
+  });
+
+export const EMPTY_MARKET_DATA: MarketData = { asOf: '', curves: {}, fxSpots: { USD: 1 }, fxForwardPoints: {}, fixings: {} };
+
+// Writes a market in the CSV layout above, so an export can be edited and imported again
+export const marketCsvRows = (market: MarketData): (string | number)[][] => [
+  [...MARKET_CSV_COLUMNS],
+  ...Object.values(market.curves).flatMap(curve =>
+    curve.quotes.map(q => ['quote', curve.currency, q.type, q.tenor, '', '', q.quote])),
+  ...Object.entries(market.fxSpots)
+    .filter(([currency]) => currency !== 'USD')
+    .map(([currency, spot]) => ['fx', currency, '', '', '', '', spot]),
+  ...Object.entries(market.fxForwardPoints).flatMap(([currency, points]) =>
+    Object.entries(points).map(([tenor, pips]) => ['fxpoints', currency, '', tenor, '', '', pips])),
+  ...Object.entries(market.fixings).flatMap(([index, series]) =>
+    Object.entries(series).map(([date, rate]) => ['fixing', '', '', '', index, date, rate]))
+];
+
+export const summarizePatch = (patch: MarketDataPatch) => ({
+  curves: Object.keys(patch.curves),
+  quotes: Object.values(patch.curves).reduce((acc, curve) => acc + curve.quotes.length, 0),
+  fx: Object.keys(patch.fxSpots).length
+    + Object.values(patch.fxForwardPoints).reduce((acc, points) => acc + Object.keys(points).length, 0),
+  fixings: Object.values(patch.fixings).reduce((acc, series) => acc + Object.keys(series).length, 0)
+});
@@ -0,0 +1,63 @@
+import { MarketData, MarketSnapshot } from '../types';
+import { DEFAULT_MARKET_DATA } from './marketData';
+
+// Storage contract for dated market snapshots, mirroring the deal repository
+export interface SnapshotRepository {
+  list: () => Promise<MarketSnapshot[]>;
+  save: (name: string, market: MarketData) => Promise<MarketSnapshot>;
+  remove: (id: string) => Promise<void>;
+}
+
+const STORAGE_KEY = 'swappricer.snapshots.v1';
+
+// One snapshot per name and date: saving again under the same name overwrites it
+export const snapshotId = (name: string, asOf: string): string =>
+  `${asOf}:${name.trim().toLowerCase().replace(/\s+/g, '-')}`;
+
+const makeSnapshot = (name: string, market: MarketData): MarketSnapshot => ({
+  id: snapshotId(name, market.asOf),
+  name: name.trim(),
+  asOf: market.asOf,
+  market,
+  savedAt: new Date().toISOString()
+});
+
+const bySnapshotDate = (a: MarketSnapshot, b: MarketSnapshot) => a.asOf.localeCompare(b.asOf) || a.name.localeCompare(b.name);
+
+export const createLocalStorageSnapshotRepository = (key = STORAGE_KEY, storage?: Storage): SnapshotRepository => {
+  const store = () => storage ?? window.localStorage;
+
+  const read = (): MarketSnapshot[] => {
+    const raw = store().getItem(key);
+    if (raw === null) {
+      return [makeSnapshot('Close', DEFAULT_MARKET_DATA)];
+    }
+    try {
+      return JSON.parse(raw) as MarketSnapshot[];
+    } catch (error) {
+      console.error("Stored market snapshots are unreadable, starting empty:", error);
+      return [];
+    }
+  };
+
+  const write = (snapshots: MarketSnapshot[]) => {
+    store().setItem(key, JSON.stringify(snapshots));
+  };
+
+  return {
+    list: async () => read().sort(bySnapshotDate),
+    save: async (name, market) => {
+      if (!name.trim()) {
+        throw new Error('A snapshot needs a name');
+      }
+      const saved = makeSnapshot(name, market);
+      write([...read().filter(s => s.id !== saved.id), saved].sort(bySnapshotDate));
+      return saved;
+    },
+    remove: async (id) => {
+      write(read().filter(s => s.id !== id));
+    }
+  };
+};
+
+export const snapshotRepository: SnapshotRepository = createLocalStorageSnapshotRepository();
@@ -0,0 +1,788 @@
+import { BusinessDayConvention, DayCountConvention, InterpolationMethod, MarketData, PricingResult, RateIndex, SwapDeal, SwapLeg } from '../types';
+import { addMonths, daysBetween, formatDate, getFrequencyMonths, parseDate } from './dateUtils';
+import { addBusinessDays, adjustDate } from './calendars';
+import { getDiscountCurve, getFixing } from './marketData';
+import { fxSpot } from './fx';
+import { resolveIndex } from './indices';
+import { buildSchedule, notionalOn, resolveCalendar } from './schedule';
+
+// Reproducible inputs for QuantLib and ORE, so the app's NPV can be reconciled outside it.
+// Output depends on the deal, market and result only: the same run always gives the same bytes.
+
+export type ModelExportFormat = 'python' | 'cpp' | 'ore';
+
+export interface ExportedFile {
+  name: string;
+  content: string;
+}
+
+export const MODEL_EXPORT_FORMATS: { value: ModelExportFormat, label: string }[] = [
+  { value: 'python', label: 'QuantLib Python' },
+  { value: 'cpp', label: 'QuantLib C++' },
+  { value: 'ore', label: 'ORE' }
+];
+
+interface ExportLeg {
+  legNo: 1 | 2;
+  leg: SwapLeg;
+  // Leg 1 is received and Leg 2 is paid
+  payer: boolean;
+  calendar: string;
+  convention: BusinessDayConvention;
+  months: number;
+  index?: RateIndex;
+  // Term indices: business days from fixing to the period start
+  fixingDays: number;
+  // Adjusted accrual dates as the app generated them, so stubs and roll days need no rules in the library
+  dates: string[];
+  // Scheduled notional of each period
+  notionals: number[];
+  paymentLag: number;
+  // Principal exchanges as the receiver of the leg sees them
+  principal: { date: string, amount: number }[];
+}
+
+interface ExportCurve {
+  currency: string;
+  interpolation: InterpolationMethod;
+  // Reference date first. Zero rates are continuously compounded on Act/365F, as decimals.
+  dates: string[];
+  zeros: number[];
+  discounts: number[];
+}
+
+interface ExportInputs {
+  deal: SwapDeal;
+  name: string;
+  result: PricingResult;
+  legs: ExportLeg[];
+  curves: ExportCurve[];
+  // Units of the reporting currency per one unit of each leg currency
+  fx: { currency: string, rate: number }[];
+  // Past index fixings as decimals, by index code then date
+  fixings: { index: RateIndex, date: string, rate: number }[];
+}
+
+// The app's LinearZero curves hold the last zero rate flat; both libraries would extend the last segment instead
+const FAR_PILLAR_MONTHS = 100 * 12;
+
+// Shortest form that survives a round trip, with binary noise below 15 digits dropped
+const num = (value: number): string => String(Number(value.toPrecision(15)));
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// --- Inputs ---
+
+const exportCurve = (market: MarketData, currency: string, valueDate: string): ExportCurve => {
+  const interpolation = market.curves[currency]?.interpolation ?? 'LinearZero';
+  const pillars = getDiscountCurve(market, currency, valueDate).pillars
+    .filter((p, i, all) => p.t > 0 && all.findIndex(q => q.date === p.date) === i);
+  if (!pillars.length) {
+    throw new Error(`The ${currency} curve has no pillars to export`);
+  }
+  const dates = [valueDate, ...pillars.map(p => p.date)];
+  const zeros = [pillars[0].zeroRate / 100, ...pillars.map(p => p.zeroRate / 100)];
+  const discounts = [1, ...pillars.map(p => p.discountFactor)];
+  if (interpolation === 'LinearZero') {
+    const far = addMonths(parseDate(valueDate), FAR_PILLAR_MONTHS);
+    const zero = zeros[zeros.length - 1];
+    dates.push(formatDate(far));
+    zeros.push(zero);
+    discounts.push(Math.exp(-zero * daysBetween(parseDate(valueDate), far) / 365));
+  }
+  return { currency, interpolation, dates, zeros, discounts };
+};
+
+const exportLeg = (deal: SwapDeal, leg: SwapLeg, legNo: 1 | 2): ExportLeg => {
+  const periods = buildSchedule(leg, deal.startDate, deal.endDate);
+  const notionals = periods.map(p => notionalOn(leg, p.accrualStart));
+  const index = leg.type === 'Floating' ? resolveIndex(leg.index, leg.currency) : undefined;
+  const principal: ExportLeg['principal'] = [];
+  if (leg.initialExchange && periods.length) {
+    principal.push({ date: formatDate(periods[0].accrualStart), amount: -notionals[0] });
+  }
+  // Notional steps are settled as they happen when the notional is exchanged at maturity
+  if (leg.finalExchange) {
+    periods.slice(1).forEach((p, i) => {
+      if (notionals[i] !== notionals[i + 1]) principal.push({ date: formatDate(p.accrualStart), amount: notionals[i] - notionals[i + 1] });
+    });
+  }
+  if (leg.finalExchange && periods.length) {
+    principal.push({ date: formatDate(periods[periods.length - 1].paymentDate), amount: notionals[notionals.length - 1] });
+  }
+  return {
+    legNo,
+    leg,
+    payer: legNo === 2,
+    calendar: resolveCalendar(leg),
+    convention: leg.businessDayConvention ?? 'ModifiedFollowing',
+    months: getFrequencyMonths(leg.frequency),
+    index,
+    fixingDays: leg.fixingLagDays ?? index?.fixingLagDays ?? 0,
+    dates: periods.length ? [periods[0].accrualStart, ...periods.map(p => p.accrualEnd)].map(formatDate) : [],
+    notionals,
+    paymentLag: leg.paymentLagDays ?? 0,
+    principal
+  };
+};
+
+// Past fixings the unpaid coupons observe: every index business day of the overnight window,
+// or the fixing date of each period for term indices
+const pastFixings = (deal: SwapDeal, legs: ExportLeg[], market: MarketData): ExportInputs['fixings'] => {
+  const valuation = parseDate(deal.valueDate);
+  const byKey = new Map<string, ExportInputs['fixings'][number]>();
+  legs.forEach(({ leg, index, fixingDays }) => {
+    if (!index) return;
+    const live = buildSchedule(leg, deal.startDate, deal.endDate).filter(p => p.paymentDate > valuation);
+    if (!live.length) return;
+    const days: Date[] = [];
+    if (index.style === 'Overnight') {
+      for (let day = addBusinessDays(live[0].accrualStart, -((leg.lookbackDays ?? 0) + 1), index.calendar); day < valuation; day = addBusinessDays(day, 1, index.calendar)) {
+        days.push(day);
+      }
+    } else {
+      live.forEach(p => days.push(fixingDays > 0
+        ? addBusinessDays(p.accrualStart, -fixingDays, index.calendar)
+        : adjustDate(p.accrualStart, 'Preceding', index.calendar)));
+    }
+    days.filter(day => day < valuation).map(formatDate).forEach(date => {
+      try {
+        byKey.set(`${index.code} ${date}`, { index, date, rate: getFixing(market, index.code, date) / 100 });
+      } catch {
+        // Days before the first published fixing are not needed by the app either
+      }
+    });
+  });
+  return [...byKey.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, fixing]) => fixing);
+};
+
+const exportInputs = (deal: SwapDeal, market: MarketData, result: PricingResult): ExportInputs => {
+  const legs = [exportLeg(deal, deal.leg1, 1), exportLeg(deal, deal.leg2, 2)];
+  const currencies = Array.from(new Set(legs.flatMap(l => [l.leg.currency, ...(l.index ? [l.index.currency] : [])])));
+  return {
+    deal,
+    name: deal.id || 'deal',
+    result,
+    legs,
+    curves: currencies.map(ccy => exportCurve(market, ccy, deal.valueDate)),
+    fx: Array.from(new Set([deal.leg1.currency, deal.leg2.currency, result.reportingCurrency]))
+      .map(currency => ({ currency, rate: fxSpot(market, currency, result.reportingCurrency) })),
+    fixings: pastFixings(deal, legs, market)
+  };
+};
+
+type Library = 'QuantLib' | 'ORE';
+
+// Where the library cannot follow the app, said up front rather than left as an unexplained break
+const knownDifferences = (inputs: ExportInputs, library: Library): string[] => {
+  const notes: string[] = [];
+  inputs.legs.forEach(({ leg, legNo, index }) => {
+    const other = legNo === 1 ? inputs.deal.leg2 : inputs.deal.leg1;
+    if (leg.notionalReset && leg.currency !== other.currency) {
+      notes.push(`Leg ${legNo} resets its notional at the FX forward each period in the app. The export keeps the traded notional, so this leg will not reconcile.`);
+    }
+    if (library === 'QuantLib' && index?.basis === 252) {
+      notes.push(`Leg ${legNo} compounds ${index.code} as (1 + r)^(1/252) per business day in the app and as 1 + r/252 in QuantLib, so it differs slightly.`);
+    }
+  });
+  notes.push(`Holidays come from ${library}'s own calendars, which can disagree with the app's on a few dates.`);
+  return notes;
+};
+
+const legSummary = ({ leg, legNo, payer, index }: ExportLeg): string => {
+  const terms = index
+    ? `${index.code}${leg.rate ? ` ${leg.rate >= 0 ? '+' : '-'} ${Math.abs(leg.rate)}%` : ''}`
+    : `${leg.rate}% fixed`;
+  const steps = leg.notionalSchedule?.length ? ` (notional steps on ${leg.notionalSchedule.map(step => step.date).join(', ')})` : '';
+  return `Leg ${legNo}: ${payer ? 'pay' : 'receive'} ${leg.currency} ${leg.notional}${steps} ${terms}, ${leg.frequency}, ${leg.convention}`;
+};
+
+// Opening comment of every file, one line per entry
+const header = (inputs: ExportInputs, library: Library): string[] => {
+  const { deal, name, result } = inputs;
+  return [
+    `${name} exported by SwapPricer for ${library}, valued on ${deal.valueDate} in ${result.reportingCurrency}`,
+    ...inputs.legs.map(legSummary),
+    `App NPV ${num(result.npvTotal)} ${result.reportingCurrency} (Leg 1 ${num(result.leg1Npv)} ${deal.leg1.currency}, Leg 2 ${num(result.leg2Npv)} ${deal.leg2.currency})`,
+    '',
+    'Known differences from the app:',
+    ...knownDifferences(inputs, library).map(note => `- ${note}`)
+  ];
+};
+
+// --- QuantLib ---
+
+// Written in C++; the Python form is derived by qualifying names with `ql.`
+const QL_DAY_COUNTERS: Record<DayCountConvention, (calendar: string) => string> = {
+  'Actual/365': () => 'Actual365Fixed()',
+  'Actual/360': () => 'Actual360()',
+  '30/360': () => 'Thirty360(Thirty360::BondBasis)',
+  '30E/360': () => 'Thirty360(Thirty360::European)',
+  'Actual/Actual ISDA': () => 'ActualActual(ActualActual::ISDA)',
+  'Business/252': calendar => `Business252(${qlCalendar(calendar)})`
+};
+
+const QL_CALENDARS: Record<string, string> = {
+  BRBD: 'Brazil()',
+  USNY: 'UnitedStates(UnitedStates::SOFR)',
+  TARGET: 'TARGET()',
+  GBLO: 'UnitedKingdom()',
+  JPTO: 'Japan()',
+  AUSY: 'Australia()'
+};
+
+const QL_FREQUENCIES: Record<number, string> = { 1: 'Monthly', 3: 'Quarterly', 6: 'Semiannual', 12: 'Annual' };
+
+const QL_INDEX_DAY_COUNTERS: Record<RateIndex['basis'], (calendar: string) => string> = {
+  360: QL_DAY_COUNTERS['Actual/360'],
+  365: QL_DAY_COUNTERS['Actual/365'],
+  252: QL_DAY_COUNTERS['Business/252']
+};
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const qlCalendar = (code: string): string => {
+  const parts = code.split('+').map(c => QL_CALENDARS[c] ?? 'NullCalendar()');
+  return parts.length === 1 ? parts[0] : `JointCalendar(${parts.join(', ')})`;
+};
+
+const qlPeriod = (months: number): string => QL_FREQUENCIES[months] ? `Period(${QL_FREQUENCIES[months]})` : `Period(${months}, Months)`;
+
+const qlDate = (iso: string): string => {
+  const d = parseDate(iso);
+  return `Date(${d.getUTCDate()}, ${MONTH_NAMES[d.getUTCMonth()]}, ${d.getUTCFullYear()})`;
+};
+
+const toPython = (cpp: string): string => cpp
+  .replace(/Date\((\d+), (\w+), (\d+)\)/g, (_, d, m, y) => `Date(${d}, ${MONTH_NAMES.indexOf(m) + 1}, ${y})`)
+  .replace(/(^|[^:\w."])([A-Z]\w*)/g, '$1ql.$2')
+  .replace(/\b(true|false)\b/g, b => b === 'true' ? 'True' : 'False')
+  .replace(/::/g, '.');
+
+// The pieces of a QuantLib program that only differ in syntax between the two languages
+interface QlProgram {
+  curveVar: (currency: string) => string;
+  indexVar: (index: RateIndex) => string;
+  curveSetup: (curve: ExportCurve) => string[];
+  indexSetup: (index: RateIndex, fixings: ExportInputs['fixings']) => string[];
+  legSetup: (leg: ExportLeg) => string[];
+}
+
+const qlIndexConstructor = (index: RateIndex, months: number, handle: string): string => {
+  const currency = `${index.currency}Currency()`;
+  const dayCounter = QL_INDEX_DAY_COUNTERS[index.basis](index.calendar);
+  return index.style === 'Overnight'
+    ? `OvernightIndex("${index.code}", ${index.fixingLagDays}, ${currency}, ${qlCalendar(index.calendar)}, ${dayCounter}, ${handle})`
+    : `IborIndex("${index.code}", ${qlPeriod(months)}, ${index.fixingLagDays}, ${currency}, ${qlCalendar(index.calendar)}, ModifiedFollowing, false, ${dayCounter}, ${handle})`;
+};
+
+// The dates are already adjusted; the calendar is still used to count the payment lag
+const qlSchedule = (dates: string, { calendar }: ExportLeg): string => `${dates}, ${qlCalendar(calendar)}, Unadjusted`;
+
+// A single value stands for every period when the notional never changes
+const qlNotionals = ({ notionals }: ExportLeg): string[] =>
+  notionals.every(n => n === notionals[0]) ? [num(notionals[0])] : notionals.map(num);
+
+// Term indices take their tenor from the leg's frequency, so each leg gets its own index object
+const qlIndices = (inputs: ExportInputs): { index: RateIndex, months: number }[] => {
+  const seen = new Map<string, { index: RateIndex, months: number }>();
+  inputs.legs.forEach(({ index, months }) => {
+    if (index && !seen.has(index.code)) seen.set(index.code, { index, months });
+  });
+  return [...seen.values()];
+};
+
+const quantLibPython = (inputs: ExportInputs): string => {
+  const { deal, result } = inputs;
+  const py = toPython;
+  const prefix = (ccy: string) => ccy.toLowerCase();
+  const indexVar = (index: RateIndex) => index.code.toLowerCase();
+  const list = (name: string, items: string[]) => [`${name} = [`, ...items.map(i => `    ${i},`), ']'];
+
+  const curves = inputs.curves.flatMap(curve => {
+    const ccy = prefix(curve.currency);
+    const zero = curve.interpolation === 'LinearZero';
+    return [
+      ...list(`${ccy}_dates`, curve.dates.map(d => py(qlDate(d)))),
+      ...(zero ? list(`${ccy}_zeros`, curve.zeros.map(num)) : list(`${ccy}_discounts`, curve.discounts.map(num))),
+      zero
+        ? `${ccy}_curve = ql.ZeroCurve(${ccy}_dates, ${ccy}_zeros, ql.Actual365Fixed(), ql.NullCalendar(), ql.Linear(), ql.Continuous)`
+        : `${ccy}_curve = ql.DiscountCurve(${ccy}_dates, ${ccy}_discounts, ql.Actual365Fixed())`,
+      `${ccy}_curve.enableExtrapolation()`,
+      `${ccy}_handle = ql.YieldTermStructureHandle(${ccy}_curve)`,
+      ''
+    ];
+  });
+
+  const indices = qlIndices(inputs).flatMap(({ index, months }) => {
+    const fixings = inputs.fixings.filter(f => f.index.code === index.code);
+    const name = indexVar(index);
+    return [
+      `${name} = ${py(qlIndexConstructor(index, months, `${prefix(index.currency)}_handle`))}`,
+      ...(fixings.length ? [
+        ...list(`${name}_fixings`, fixings.map(f => `(${py(qlDate(f.date))}, ${num(f.rate)})`)),
+        `for date, rate in ${name}_fixings:`,
+        `    if ${name}.isValidFixingDate(date):`,
+        `        ${name}.addFixing(date, rate)`
+      ] : []),
+      ''
+    ];
+  });
+
+  const legs = inputs.legs.flatMap(l => {
+    const { leg, legNo, convention, calendar, index, paymentLag } = l;
+    const dayCounter = py(QL_DAY_COUNTERS[leg.convention](calendar));
+    const rate = num(leg.rate / 100);
+    const notionals = `[${qlNotionals(l).join(', ')}]`;
+    const lag = paymentLag ? `, paymentLag=${paymentLag}` : '';
+    const coupons = !index
+      ? `ql.FixedRateLeg(schedule${legNo}, ${dayCounter}, ${notionals}, [${rate}], paymentAdjustment=ql.${convention}${lag})`
+      : `ql.${index.style === 'Overnight' ? 'OvernightLeg' : 'IborLeg'}(${notionals}, schedule${legNo}, ${indexVar(index)}, `
+        + `paymentDayCounter=${dayCounter}, paymentConvention=ql.${convention}, spreads=[${rate}]${lag}`
+        + (index.style === 'Term' && l.fixingDays !== index.fixingLagDays ? `, fixingDays=[${l.fixingDays}]` : '')
+        + (index.style === 'Overnight' && leg.lookbackDays ? `, lookbackDays=${leg.lookbackDays}` : '')
+        + (index.style === 'Overnight' && leg.lockoutDays ? `, lockoutDays=${leg.lockoutDays}` : '')
+        + ')';
+    return [
+      `# ${legSummary(l)}`,
+      ...list(`schedule${legNo}_dates`, l.dates.map(d => py(qlDate(d)))),
+      `schedule${legNo} = ql.Schedule(${py(qlSchedule(`schedule${legNo}_dates`, l))})`,
+      `leg${legNo} = list(${coupons})`,
+      ...l.principal.map(p => `leg${legNo}.append(ql.SimpleCashFlow(${num(p.amount)}, ${py(qlDate(p.date))}))`),
+      ''
+    ];
+  });
+
+  return [
+    ...header(inputs, 'QuantLib').map(line => line ? `# ${line}` : '#'),
+    '#',
+    '# Needs QuantLib-Python 1.33 or later.',
+    'import QuantLib as ql',
+    '',
+    `today = ${py(qlDate(deal.valueDate))}`,
+    'ql.Settings.instance().evaluationDate = today',
+    '',
+    "# The app's bootstrapped curves, on Actual/365F from the valuation date",
+    ...curves,
+    '# Indices, with the fixings the unpaid coupons observe',
+    ...indices,
+    ...legs,
+    '# Each leg on its own currency curve; flows on or before today are excluded as in the app',
+    ...inputs.legs.map(({ leg, legNo, payer }) =>
+      `leg${legNo}_npv = ${payer ? '-' : ''}ql.CashFlows.npv(leg${legNo}, ${prefix(leg.currency)}_curve, False, today, today)`),
+    '',
+    `# Units of ${result.reportingCurrency} per unit of each currency, from the app's FX spots`,
+    `fx = {${inputs.fx.map(f => `'${f.currency}': ${num(f.rate)}`).join(', ')}}`,
+    `npv = ${inputs.legs.map(({ leg, legNo }) => `leg${legNo}_npv * fx['${leg.currency}']`).join(' + ')}`,
+    '',
+    ...list('rows', [
+      `('Leg 1 (${deal.leg1.currency})', leg1_npv, ${num(result.leg1Npv)})`,
+      `('Leg 2 (${deal.leg2.currency})', leg2_npv, ${num(result.leg2Npv)})`,
+      `('NPV (${result.reportingCurrency})', npv, ${num(result.npvTotal)})`
+    ]),
+    `print(f"{'':<14}{'QuantLib':>20}{'App':>20}{'Difference':>16}")`,
+    'for label, quantlib, app in rows:',
+    `    print(f'{label:<14}{quantlib:>20,.2f}{app:>20,.2f}{quantlib - app:>16,.2f}')`,
+    ''
+  ].join('\n');
+};
+
+const quantLibCpp = (inputs: ExportInputs): string => {
+  const { deal, result } = inputs;
+  const prefix = (ccy: string) => ccy.toLowerCase();
+  const indexVar = (index: RateIndex) => index.code.toLowerCase();
+  const list = (type: string, name: string, items: string[]) => [`std::vector<${type}> ${name} = {`, ...items.map(i => `    ${i},`), '};'];
+
+  const curves = inputs.curves.flatMap(curve => {
+    const ccy = prefix(curve.currency);
+    const zero = curve.interpolation === 'LinearZero';
+    return [
+      ...list('Date', `${ccy}Dates`, curve.dates.map(qlDate)),
+      ...(zero ? list('Rate', `${ccy}Zeros`, curve.zeros.map(num)) : list('DiscountFactor', `${ccy}Discounts`, curve.discounts.map(num))),
+      zero
+        ? `auto ${ccy}Curve = ext::make_shared<ZeroCurve>(${ccy}Dates, ${ccy}Zeros, Actual365Fixed(), NullCalendar(), Linear(), Continuous);`
+        : `auto ${ccy}Curve = ext::make_shared<DiscountCurve>(${ccy}Dates, ${ccy}Discounts, Actual365Fixed());`,
+      `${ccy}Curve->enableExtrapolation();`,
+      `Handle<YieldTermStructure> ${ccy}Handle(${ccy}Curve);`,
+      ''
+    ];
+  });
+
+  const indices = qlIndices(inputs).flatMap(({ index, months }) => {
+    const fixings = inputs.fixings.filter(f => f.index.code === index.code);
+    const name = indexVar(index);
+    return [
+      `auto ${name} = ext::make_shared<${qlIndexConstructor(index, months, `${prefix(index.currency)}Handle`).replace('(', '>(')};`,
+      ...(fixings.length ? [
+        ...list('std::pair<Date, Rate>', `${name}Fixings`, fixings.map(f => `{${qlDate(f.date)}, ${num(f.rate)}}`)),
+        `for (const auto& [date, rate] : ${name}Fixings)`,
+        `    if (${name}->isValidFixingDate(date)) ${name}->addFixing(date, rate);`
+      ] : []),
+      ''
+    ];
+  });
+
+  const legs = inputs.legs.flatMap(l => {
+    const { leg, legNo, convention, calendar, index, paymentLag } = l;
+    const dayCounter = QL_DAY_COUNTERS[leg.convention](calendar);
+    const rate = num(leg.rate / 100);
+    const notionals = qlNotionals(l);
+    const withNotionals = `.withNotionals(${notionals.length === 1 ? notionals[0] : `std::vector<Real>{${notionals.join(', ')}}`})`;
+    const lag = paymentLag ? [`.withPaymentLag(${paymentLag})`] : [];
+    const coupons = !index
+      ? [`FixedRateLeg(schedule${legNo})`, withNotionals, `.withCouponRates(${rate}, ${dayCounter})`, `.withPaymentAdjustment(${convention})`, ...lag]
+      : [
+          `${index.style === 'Overnight' ? 'OvernightLeg' : 'IborLeg'}(schedule${legNo}, ${indexVar(index)})`,
+          withNotionals,
+          `.withPaymentDayCounter(${dayCounter})`,
+          `.withPaymentAdjustment(${convention})`,
+          `.withSpreads(${rate})`,
+          ...lag,
+          ...(index.style === 'Term' && l.fixingDays !== index.fixingLagDays ? [`.withFixingDays(${l.fixingDays})`] : []),
+          ...(index.style === 'Overnight' && leg.lookbackDays ? [`.withLookbackDays(${leg.lookbackDays})`] : []),
+          ...(index.style === 'Overnight' && leg.lockoutDays ? [`.withLockoutDays(${leg.lockoutDays})`] : [])
+        ];
+    return [
+      `// ${legSummary(l)}`,
+      ...list('Date', `schedule${legNo}Dates`, l.dates.map(qlDate)),
+      `Schedule schedule${legNo}(${qlSchedule(`schedule${legNo}Dates`, l)});`,
+      `Leg leg${legNo} = ${coupons.join('\n    ')};`,
+      ...l.principal.map(p => `leg${legNo}.push_back(ext::make_shared<SimpleCashFlow>(${num(p.amount)}, ${qlDate(p.date)}));`),
+      ''
+    ];
+  });
+
+  const body = [
+    `Date today = ${qlDate(deal.valueDate)};`,
+    'Settings::instance().evaluationDate() = today;',
+    '',
+    "// The app's bootstrapped curves, on Actual/365F from the valuation date",
+    ...curves,
+    '// Indices, with the fixings the unpaid coupons observe',
+    ...indices,
+    ...legs,
+    '// Each leg on its own currency curve; flows on or before today are excluded as in the app',
+    ...inputs.legs.map(({ leg, legNo, payer }) =>
+      `Real leg${legNo}Npv = ${payer ? '-' : ''}CashFlows::npv(leg${legNo}, *${prefix(leg.currency)}Curve, false, today, today);`),
+    '',
+    `// Units of ${result.reportingCurrency} per unit of each currency, from the app's FX spots`,
+    `std::map<std::string, Real> fx = {${inputs.fx.map(f => `{"${f.currency}", ${num(f.rate)}}`).join(', ')}};`,
+    `Real npv = ${inputs.legs.map(({ leg, legNo }) => `leg${legNo}Npv * fx["${leg.currency}"]`).join(' + ')};`,
+    '',
+    'struct Row { std::string label; Real quantlib, app; };',
+    ...list('Row', 'rows', [
+      `{"Leg 1 (${deal.leg1.currency})", leg1Npv, ${num(result.leg1Npv)}}`,
+      `{"Leg 2 (${deal.leg2.currency})", leg2Npv, ${num(result.leg2Npv)}}`,
+      `{"NPV (${result.reportingCurrency})", npv, ${num(result.npvTotal)}}`
+    ]),
+    'std::cout << std::fixed << std::setprecision(2) << std::setw(14) << ""',
+    '          << std::setw(20) << "QuantLib" << std::setw(20) << "App" << std::setw(16) << "Difference" << "\\n";',
+    'for (const auto& row : rows)',
+    '    std::cout << std::left << std::setw(14) << row.label << std::right << std::setw(20) << row.quantlib',
+    '              << std::setw(20) << row.app << std::setw(16) << row.quantlib - row.app << "\\n";',
+    'return 0;'
+  ];
+
+  return [
+    ...header(inputs, 'QuantLib').map(line => line ? `// ${line}` : '//'),
+    '//',
+    '// Needs QuantLib 1.33 or later and C++17.',
+    '#include <ql/quantlib.hpp>',
+    '#include <iomanip>',
+    '#include <iostream>',
+    '#include <map>',
+    '',
+    'using namespace QuantLib;',
+    '',
+    'int main() {',
+    '    try {',
+    ...body.map(line => line ? `        ${line}` : ''),
+    '    } catch (std::exception& e) {',
+    '        std::cerr << e.what() << std::endl;',
+    '        return 1;',
+    '    }',
+    '}',
+    ''
+  ].join('\n');
+};
+
+// --- ORE ---
+
+const ORE_DAY_COUNTERS: Record<DayCountConvention, string> = {
+  'Actual/365': 'A365F',
+  'Actual/360': 'A360',
+  '30/360': '30/360',
+  '30E/360': '30E/360',
+  'Actual/Actual ISDA': 'ACT/ACT.ISDA',
+  'Business/252': 'BUS/252'
+};
+
+const ORE_BUSINESS_DAY_CONVENTIONS: Record<BusinessDayConvention, string> = {
+  Following: 'F',
+  ModifiedFollowing: 'MF',
+  Preceding: 'P',
+  ModifiedPreceding: 'MP',
+  Unadjusted: 'U'
+};
+
+// ORE reads currency codes as the market's settlement calendar
+const ORE_CALENDARS: Record<string, string> = { BRBD: 'BRL', USNY: 'USD', TARGET: 'TARGET', GBLO: 'GBP', JPTO: 'JPY', AUSY: 'AUD' };
+
+const ORE_OVERNIGHT_INDICES: Record<string, string> = { CDI: 'BRL-CDI', SOFR: 'USD-SOFR', ESTR: 'EUR-ESTER', SONIA: 'GBP-SONIA', TONA: 'JPY-TONAR' };
+
+const ORE_TERM_INDICES: Record<string, string> = { EURIBOR: 'EUR-EURIBOR', TIBOR: 'JPY-TIBOR', BBSW: 'AUD-BBSW' };
+
+const oreTenor = (months: number): string => months % 12 === 0 ? `${months / 12}Y` : `${months}M`;
+
+const oreIndex = (index: RateIndex, months: number): string =>
+  index.style === 'Overnight' ? ORE_OVERNIGHT_INDICES[index.code] : `${ORE_TERM_INDICES[index.code]}-${months}M`;
+
+const oreCalendar = (code: string): string => code.split('+').map(c => ORE_CALENDARS[c] ?? c).join(',');
+
+const oreDate = (iso: string): string => iso.replace(/-/g, '');
+
+const curveId = (currency: string) => `${currency}-SWAPPRICER`;
+
+const ZERO_CONVENTIONS = 'SWAPPRICER-ZERO';
+
+const xmlHeader = (inputs: ExportInputs): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<!--\n${header(inputs, 'ORE').map(line => line ? `  ${line}` : '').join('\n')}\n-->\n`;
+
+const oreLegData = ({ leg, payer, calendar, convention, months, index, fixingDays, dates, notionals, paymentLag }: ExportLeg): string => {
+  const amortising = notionals.some(n => n !== notionals[0]);
+  const exchanges = leg.initialExchange || leg.finalExchange ? `
+          <Exchanges>
+            <NotionalInitialExchange>${!!leg.initialExchange}</NotionalInitialExchange>
+            <NotionalFinalExchange>${!!leg.finalExchange}</NotionalFinalExchange>${amortising ? `
+            <NotionalAmortizingExchange>${!!leg.finalExchange}</NotionalAmortizingExchange>` : ''}
+          </Exchanges>` : '';
+  const rate = num(leg.rate / 100);
+  const rateData = index ? `
+        <FloatingLegData>
+          <Index>${oreIndex(index, months)}</Index>
+          <Spreads>
+            <Spread>${rate}</Spread>
+          </Spreads>
+          <IsInArrears>false</IsInArrears>
+          <FixingDays>${index.style === 'Term' ? fixingDays : index.fixingLagDays}</FixingDays>${index.style === 'Overnight' && leg.lookbackDays ? `
+          <Lookback>${leg.lookbackDays}D</Lookback>` : ''}${index.style === 'Overnight' && leg.lockoutDays ? `
+          <RateCutoff>${leg.lockoutDays}</RateCutoff>` : ''}
+        </FloatingLegData>` : `
+        <FixedLegData>
+          <Rates>
+            <Rate>${rate}</Rate>
+          </Rates>
+        </FixedLegData>`;
+  const bdc = ORE_BUSINESS_DAY_CONVENTIONS[convention];
+  return `
+      <LegData>
+        <LegType>${leg.type}</LegType>
+        <Payer>${payer}</Payer>
+        <Currency>${leg.currency}</Currency>
+        <Notionals>
+${(amortising ? notionals : notionals.slice(0, 1)).map(n => `          <Notional>${num(n)}</Notional>`).join('\n')}${exchanges}
+        </Notionals>
+        <DayCounter>${ORE_DAY_COUNTERS[leg.convention]}</DayCounter>
+        <PaymentConvention>${bdc}</PaymentConvention>${paymentLag ? `
+        <PaymentLag>${paymentLag}</PaymentLag>` : ''}
+        <ScheduleData>
+          <Dates>
+            <Calendar>${oreCalendar(calendar)}</Calendar>
+            <Convention>U</Convention>
+            <Tenor>${oreTenor(months)}</Tenor>
+            <Dates>
+${dates.map(d => `              <Date>${d}</Date>`).join('\n')}
+            </Dates>
+          </Dates>
+        </ScheduleData>${rateData}
+      </LegData>`;
+};
+
+const orePortfolio = (inputs: ExportInputs): string => {
+  const { deal, name } = inputs;
+  const counterparty = escapeXml(deal.counterparty || 'CPTY');
+  return `${xmlHeader(inputs)}<Portfolio>
+  <Trade id="${escapeXml(name)}">
+    <TradeType>Swap</TradeType>
+    <Envelope>
+      <CounterParty>${counterparty}</CounterParty>
+      <NettingSetId>${counterparty}</NettingSetId>
+      <AdditionalFields/>
+    </Envelope>
+    <SwapData>${inputs.legs.map(oreLegData).join('')}
+    </SwapData>
+  </Trade>
+</Portfolio>
+`;
+};
+
+// The reference date is implied by ORE, so only the pillars after it are quoted
+const curveQuotes = (curve: ExportCurve): { key: string, value: number }[] => curve.dates.slice(1).map((date, i) =>
+  curve.interpolation === 'LinearZero'
+    ? { key: `ZERO/RATE/${curve.currency}/${curveId(curve.currency)}/A365F/${date}`, value: curve.zeros[i + 1] }
+    : { key: `DISCOUNT/RATE/${curve.currency}/${curveId(curve.currency)}/${date}`, value: curve.discounts[i + 1] });
+
+const fxQuotes = (inputs: ExportInputs) => inputs.fx
+  .filter(f => f.currency !== inputs.result.reportingCurrency)
+  .map(({ currency, rate }) => {
+    const reporting = inputs.result.reportingCurrency;
+    return { key: `FX/RATE/${currency}/${reporting}`, spec: `FX/${currency}/${reporting}`, pair: `${currency}${reporting}`, value: rate };
+  });
+
+const oreMarket = (inputs: ExportInputs): string => {
+  const asOf = oreDate(inputs.deal.valueDate);
+  return [
+    `# ${inputs.name} market as bootstrapped by SwapPricer on ${inputs.deal.valueDate}`,
+    ...inputs.curves.flatMap(curveQuotes).map(q => `${asOf} ${q.key} ${num(q.value)}`),
+    ...fxQuotes(inputs).map(q => `${asOf} ${q.key} ${num(q.value)}`),
+    ''
+  ].join('\n');
+};
+
+const oreFixings = (inputs: ExportInputs): string => {
+  const months = new Map(inputs.legs.filter(l => l.index).map(l => [l.index!.code, l.months]));
+  return [
+    `# ${inputs.name} past fixings the unpaid coupons observe`,
+    ...inputs.fixings.map(f => `${oreDate(f.date)} ${oreIndex(f.index, months.get(f.index.code) ?? 3)} ${num(f.rate)}`),
+    ''
+  ].join('\n');
+};
+
+const oreCurveConfig = (inputs: ExportInputs): string => {
+  const curves = inputs.curves.map(curve => {
+    const zero = curve.interpolation === 'LinearZero';
+    return `
+    <YieldCurve>
+      <CurveId>${curveId(curve.currency)}</CurveId>
+      <CurveDescription>${curve.currency} curve bootstrapped by SwapPricer</CurveDescription>
+      <Currency>${curve.currency}</Currency>
+      <DiscountCurve/>
+      <Segments>
+        <Direct>
+          <Type>${zero ? 'Zero' : 'Discount'}</Type>
+          <Quotes>
+${curveQuotes(curve).map(q => `            <Quote>${q.key}</Quote>`).join('\n')}
+          </Quotes>${zero ? `
+          <Conventions>${ZERO_CONVENTIONS}</Conventions>` : ''}
+        </Direct>
+      </Segments>
+      <InterpolationVariable>${zero ? 'Zero' : 'Discount'}</InterpolationVariable>
+      <InterpolationMethod>${zero ? 'Linear' : 'LogLinear'}</InterpolationMethod>
+      <YieldCurveDayCounter>A365F</YieldCurveDayCounter>
+      <Extrapolation>true</Extrapolation>
+    </YieldCurve>`;
+  }).join('');
+  return `${xmlHeader(inputs)}<CurveConfiguration>
+  <YieldCurves>${curves}
+  </YieldCurves>
+</CurveConfiguration>
+`;
+};
+
+const oreConventions = (inputs: ExportInputs): string => `${xmlHeader(inputs)}<Conventions>
+  <Zero>
+    <Id>${ZERO_CONVENTIONS}</Id>
+    <TenorBased>false</TenorBased>
+    <DayCounter>A365F</DayCounter>
+    <CompoundingFrequency>Annual</CompoundingFrequency>
+    <Compounding>Continuous</Compounding>
+  </Zero>
+</Conventions>
+`;
+
+const oreTodaysMarket = (inputs: ExportInputs): string => {
+  const indices = Array.from(new Set(inputs.legs.filter(l => l.index).map(l => `${oreIndex(l.index!, l.months)}|${l.index!.currency}`)))
+    .map(entry => entry.split('|'));
+  return `${xmlHeader(inputs)}<TodaysMarket>
+  <Configuration id="default">
+    <DiscountingCurvesId>default</DiscountingCurvesId>
+    <IndexForwardingCurvesId>default</IndexForwardingCurvesId>
+    <FxSpotsId>default</FxSpotsId>
+  </Configuration>
+  <DiscountingCurves id="default">
+${inputs.curves.map(c => `    <DiscountingCurve currency="${c.currency}">Yield/${c.currency}/${curveId(c.currency)}</DiscountingCurve>`).join('\n')}
+  </DiscountingCurves>
+  <IndexForwardingCurves id="default">
+${indices.map(([name, ccy]) => `    <Index name="${name}">Yield/${ccy}/${curveId(ccy)}</Index>`).join('\n')}
+  </IndexForwardingCurves>
+  <FxSpots id="default">
+${fxQuotes(inputs).map(q => `    <FxSpot pair="${q.pair}">${q.spec}</FxSpot>`).join('\n')}
+  </FxSpots>
+</TodaysMarket>
+`;
+};
+
+const orePricingEngines = (inputs: ExportInputs): string => `${xmlHeader(inputs)}<PricingEngines>
+  <Product type="Swap">
+    <Model>DiscountedCashflows</Model>
+    <ModelParameters/>
+    <Engine>DiscountingSwapEngine</Engine>
+    <EngineParameters/>
+  </Product>
+  <Product type="CrossCurrencySwap">
+    <Model>DiscountedCashflows</Model>
+    <ModelParameters/>
+    <Engine>DiscountingCrossCurrencySwapEngine</Engine>
+    <EngineParameters/>
+  </Product>
+</PricingEngines>
+`;
+
+const oreSetup = (inputs: ExportInputs): string => `${xmlHeader(inputs)}<ORE>
+  <Setup>
+    <Parameter name="asofDate">${inputs.deal.valueDate}</Parameter>
+    <Parameter name="inputPath">.</Parameter>
+    <Parameter name="outputPath">Output</Parameter>
+    <Parameter name="logFile">log.txt</Parameter>
+    <Parameter name="logMask">31</Parameter>
+    <Parameter name="marketDataFile">market.txt</Parameter>
+    <Parameter name="fixingDataFile">fixings.txt</Parameter>
+    <Parameter name="implyTodaysFixings">N</Parameter>
+    <Parameter name="curveConfigFile">curveconfig.xml</Parameter>
+    <Parameter name="conventionsFile">conventions.xml</Parameter>
+    <Parameter name="marketConfigFile">todaysmarket.xml</Parameter>
+    <Parameter name="pricingEnginesFile">pricingengine.xml</Parameter>
+    <Parameter name="portfolioFile">portfolio.xml</Parameter>
+    <Parameter name="observationModel">None</Parameter>
+  </Setup>
+  <Markets>
+    <Parameter name="pricing">default</Parameter>
+  </Markets>
+  <Analytics>
+    <Analytic type="npv">
+      <Parameter name="active">Y</Parameter>
+      <Parameter name="baseCurrency">${inputs.result.reportingCurrency}</Parameter>
+      <Parameter name="outputFileName">npv.csv</Parameter>
+    </Analytic>
+    <Analytic type="cashflow">
+      <Parameter name="active">Y</Parameter>
+      <Parameter name="outputFileName">flows.csv</Parameter>
+    </Analytic>
+  </Analytics>
+</ORE>
+`;
+
+// --- Public ---
+
+const fileStem = (inputs: ExportInputs): string => inputs.name.replace(/[^\w-]+/g, '_');
+
+export const exportModel = (format: ModelExportFormat, deal: SwapDeal, market: MarketData, result: PricingResult): ExportedFile[] => {
+  const inputs = exportInputs(deal, market, result);
+  switch (format) {
+    case 'python':
+      return [{ name: `${fileStem(inputs)}_quantlib.py`, content: quantLibPython(inputs) }];
+    case 'cpp':
+      return [{ name: `${fileStem(inputs)}_quantlib.cpp`, content: quantLibCpp(inputs) }];
+    case 'ore':
+      return [
+        { name: 'ore.xml', content: oreSetup(inputs) },
+        { name: 'portfolio.xml', content: orePortfolio(inputs) },
+        { name: 'market.txt', content: oreMarket(inputs) },
+        { name: 'fixings.txt', content: oreFixings(inputs) },
+        { name: 'curveconfig.xml', content: oreCurveConfig(inputs) },
+        { name: 'conventions.xml', content: oreConventions(inputs) },
+        { name: 'todaysmarket.xml', content: oreTodaysMarket(inputs) },
+        { name: 'pricingengine.xml', content: orePricingEngines(inputs) }
+      ];
+  }
+};
@@ -0,0 +1,54 @@
+import { MarketData, SwapDeal } from '../types';
+import { priceSwap } from './pricingEngine';
+
+export interface ParSolution {
+  leg: 1 | 2;
+  // 'Rate' for fixed legs, 'Spread' for floating legs; value is in %
+  field: 'Rate' | 'Spread';
+  value: number;
+  targetNpv: number;
+  iterations: number;
+}
+
+const withLegRate = (deal: SwapDeal, legNo: 1 | 2, rate: number): SwapDeal => {
+  const key = legNo === 1 ? 'leg1' : 'leg2';
+  return { ...deal, [key]: { ...deal[key], rate } };
+};
+
+// Secant search on the leg's rate/spread. NPV is linear in it for plain legs, so this normally
+// converges in one or two steps; the iteration keeps it correct for resetting notionals as well.
+export const solveParRate = (
+  deal: SwapDeal,
+  market: MarketData,
+  reportingCurrency: string,
+  legNo: 1 | 2,
+  targetNpv = 0
+): ParSolution => {
+  const leg = legNo === 1 ? deal.leg1 : deal.leg2;
+  const residual = (rate: number) => priceSwap(withLegRate(deal, legNo, rate), market, reportingCurrency).npvTotal - targetNpv;
+
+  let x0 = leg.rate;
+  let f0 = residual(x0);
+  let x1 = leg.rate + 0.01;
+  let f1 = residual(x1);
+  let iterations = 0;
+
+  while (Math.abs(f1) > 1e-6 && iterations < 50) {
+    if (f1 === f0) {
+      throw new Error(`NPV does not depend on the Leg ${legNo} ${leg.type === 'Fixed' ? 'rate' : 'spread'}`);
+    }
+    const x2 = x1 - f1 * (x1 - x0) / (f1 - f0);
+    x0 = x1;
+    f0 = f1;
+    x1 = x2;
+    f1 = residual(x1);
+    iterations++;
+  }
+
+  return { leg: legNo, field: leg.type === 'Fixed' ? 'Rate' : 'Spread', value: x1, targetNpv, iterations };
+};
+
+export const applyParSolution = (deal: SwapDeal, solution: ParSolution): SwapDeal => {
+  // Drop floating-point noise before the rate is written back into the deal
+  return withLegRate(deal, solution.leg, Number(solution.value.toFixed(6)));
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DealRecord, SwapDeal } from '../types';
+import { explainPnl } from './pnlExplain';
+import { amendDeal, bookDeal, partialUnwind, terminateDeal } from './lifecycle';
+import { DEFAULT_MARKET_DATA } from './marketData';
+
+const FROM = DEFAULT_MARKET_DATA;
+const TO = { ...DEFAULT_MARKET_DATA, asOf: '2024-12-27' };
+
+const DEAL: SwapDeal = {
+  id: 'SWP-100',
+  tradeDate: '2024-06-27',
+  valueDate: '2024-06-27',
+  startDate: '2024-07-01',
+  endDate: '2027-07-01',
+  leg1: { currency: 'USD', notional: 10000000, rate: 0, type: 'Floating', frequency: 'Quarterly', convention: 'Actual/360' },
+  leg2: { currency: 'USD', notional: 10000000, rate: 4, type: 'Fixed', frequency: 'Quarterly', convention: 'Actual/360' }
+};
+
+const explain = (record: DealRecord) => explainPnl([record], FROM, TO, 'USD').deals[0];
+const stepValue = (pnl: ReturnType<typeof explain>, category: string) =>
+  pnl.steps.filter(s => s.category === category).reduce((acc, s) => acc + s.value, 0);
+const sumOfSteps = (pnl: ReturnType<typeof explain>) => pnl.steps.reduce((acc, s) => acc + s.value, 0);
+
+describe('explainPnl lifecycle', () => {
+  const booked = bookDeal(DEAL);
+  const whole = explain(booked);
+
+  it('values the start date on the terms before a later unwind', () => {
+    const unwound = explain(partialUnwind(booked, '2024-11-15', 0.5));
+    expect(unwound.startValue).toBeCloseTo(whole.startValue, 2);
+    expect(sumOfSteps(unwound)).toBeCloseTo(unwound.total, 6);
+  });
+
+  it('books the unwound share and its fee under Lifecycle, not the market steps', () => {
+    const withoutFee = explain(partialUnwind(booked, '2024-11-15', 0.5));
+    const withFee = explain(partialUnwind(booked, '2024-11-15', 0.5, 25000, 'USD'));
+    expect(stepValue(withFee, 'Lifecycle') - stepValue(withoutFee, 'Lifecycle')).toBeCloseTo(25000, 6);
+    expect(stepValue(withoutFee, 'Curve')).toBeCloseTo(stepValue(whole, 'Curve') / 2, 2);
+    expect(stepValue(withoutFee, 'Carry')).toBeCloseTo(stepValue(whole, 'Carry') / 2, 2);
+    expect(withoutFee.endValue).toBeCloseTo(whole.endValue / 2, 2);
+  });
+
+  it('reports a deal amended after the start date instead of explaining it', () => {
+    const amended = amendDeal(booked, { ...DEAL, leg2: { ...DEAL.leg2, rate: 4.5 } }, '2024-11-15');
+    const run = explainPnl([amended], FROM, TO, 'USD');
+    expect(run.deals).toEqual([]);
+    expect(run.errors).toEqual([{ id: 'SWP-100', message: 'Amended on 2024-11-15, and the terms before the amendment are not kept; choose dates from 2024-11-15 on' }]);
+  });
+
+  it('closes what is left of the trade on termination', () => {
+    const record = terminateDeal(partialUnwind(booked, '2024-10-15', 0.25, 1000, 'USD'), '2024-11-15', -2000, 'USD');
+    const pnl = explain(record);
+    expect(pnl.endValue).toBe(0);
+    expect(pnl.steps.map(s => s.category)).toEqual(['Lifecycle']);
+    expect(pnl.total).toBeCloseTo(pnl.cash - pnl.startValue, 6);
+    expect(pnl.startValue).toBeCloseTo(whole.startValue, 2);
+  });
+});
@@ -0,0 +1,173 @@
+import { DealRecord, MarketData, SwapDeal } from '../types';
+import { priceSwap } from './pricingEngine';
+import { convertAtSpot } from './fx';
+import { dealTermsOn, deriveStatus, tradeDateOf } from './lifecycle';
+
+export type PnlCategory = 'Carry' | 'Fixings' | 'Curve' | 'FX' | 'Lifecycle' | 'NewTrades' | 'Unexplained';
+
+export interface PnlStep {
+  category: PnlCategory;
+  label: string;
+  value: number;
+}
+
+export interface DealPnl {
+  id: string;
+  isNew: boolean;
+  startValue: number;
+  endValue: number;
+  // Flows settled between the two dates, which leave the NPV but stay in the P&L
+  cash: number;
+  steps: PnlStep[];
+  total: number;
+}
+
+export interface PnlExplain {
+  fromDate: string;
+  toDate: string;
+  reportingCurrency: string;
+  startValue: number;
+  endValue: number;
+  cash: number;
+  total: number;
+  steps: PnlStep[];
+  deals: DealPnl[];
+  errors: { id: string, message: string }[];
+}
+
+export const PNL_CATEGORY_LABELS: Record<PnlCategory, string> = {
+  Carry: 'Carry / time decay',
+  Fixings: 'Fixings',
+  Curve: 'Curve moves',
+  FX: 'FX moves',
+  Lifecycle: 'Unwinds and terminations',
+  NewTrades: 'New trades',
+  Unexplained: 'Unexplained'
+};
+
+const CATEGORY_ORDER: PnlCategory[] = ['Carry', 'Fixings', 'Curve', 'FX', 'Lifecycle', 'NewTrades', 'Unexplained'];
+
+const isLive = (record: DealRecord, date: string) => {
+  const status = deriveStatus(record.deal, record.events, date);
+  return status === 'Active' || status === 'Pending';
+};
+
+// Each step swaps one block of start-date market data for its end-date value, so the steps add up to
+// the full move; whatever the sequence does not capture (e.g. settled coupons that reset on the new
+// fixings) is left in Unexplained.
+// Unwinds and terminations between the two dates close a share of the start-date trade: that share's
+// start value, the flows it settled up to the event and the fee are booked under Lifecycle, and only the
+// remaining share goes through the market steps.
+const explainDeal = (record: DealRecord, from: MarketData, to: MarketData, reportingCurrency: string): DealPnl => {
+  const id = record.deal.id ?? '—';
+  const npvAt = (market: MarketData, date: string, d: SwapDeal) =>
+    priceSwap({ ...d, valueDate: date }, market, reportingCurrency);
+
+  const start = npvAt(from, from.asOf, dealTermsOn(record, from.asOf));
+  const startValue = start.npvTotal;
+  const settledBy = (date: string) => start.cashflows
+    .filter(row => row.date <= date)
+    .reduce((acc, row) => acc + convertAtSpot(from, row.leg1Flow + row.leg2Flow, row.currency, reportingCurrency), 0);
+
+  const closings = (record.events ?? [])
+    .filter(e => (e.type === 'PartialUnwind' || e.type === 'EarlyTermination') && e.date > from.asOf && e.date <= to.asOf)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  let outstanding = 1;
+  let closedCash = 0;
+  let lifecycle = 0;
+  closings.forEach(e => {
+    const share = outstanding * (e.type === 'EarlyTermination' ? 1 : e.unwindFraction ?? 0);
+    outstanding -= share;
+    const closed = share * settledBy(e.date) + convertAtSpot(to, e.fee ?? 0, e.feeCurrency ?? reportingCurrency, reportingCurrency);
+    closedCash += closed;
+    lifecycle += closed - share * startValue;
+  });
+  const lifecycleSteps: PnlStep[] = closings.length ? [{ category: 'Lifecycle', label: PNL_CATEGORY_LABELS.Lifecycle, value: lifecycle }] : [];
+
+  if (outstanding <= 0) {
+    return { id, isNew: false, startValue, endValue: 0, cash: closedCash, steps: lifecycleSteps, total: lifecycle };
+  }
+
+  const deal = dealTermsOn(record, to.asOf);
+  const cash = outstanding * settledBy(to.asOf);
+  const steps: PnlStep[] = [...lifecycleSteps];
+  let market = from;
+  let previous = outstanding * startValue;
+  const step = (category: PnlCategory, label: string, next: MarketData) => {
+    market = next;
+    const value = npvAt(market, to.asOf, deal).npvTotal + cash;
+    steps.push({ category, label, value: value - previous });
+    previous = value;
+  };
+
+  step('Carry', PNL_CATEGORY_LABELS.Carry, from);
+  step('Fixings', PNL_CATEGORY_LABELS.Fixings, { ...market, fixings: to.fixings });
+  Array.from(new Set([deal.leg1.currency, deal.leg2.currency])).sort().forEach(currency => {
+    if (!to.curves[currency]) {
+      throw new Error(`No ${currency} curve in the ${to.asOf} market`);
+    }
+    step('Curve', `${currency} curve`, { ...market, curves: { ...market.curves, [currency]: to.curves[currency] } });
+  });
+  step('FX', PNL_CATEGORY_LABELS.FX, { ...market, fxSpots: to.fxSpots, fxForwardPoints: to.fxForwardPoints });
+
+  const endValue = npvAt(to, to.asOf, deal).npvTotal;
+  steps.push({ category: 'Unexplained', label: PNL_CATEGORY_LABELS.Unexplained, value: endValue + cash - previous });
+
+  return { id, isNew: false, startValue, endValue, cash: cash + closedCash, steps, total: endValue + cash + closedCash - startValue };
+};
+
+const explainNewDeal = (record: DealRecord, to: MarketData, reportingCurrency: string): DealPnl => {
+  const endValue = priceSwap({ ...dealTermsOn(record, to.asOf), valueDate: to.asOf }, to, reportingCurrency).npvTotal;
+  return {
+    id: record.deal.id ?? '—',
+    isNew: true,
+    startValue: 0,
+    endValue,
+    cash: 0,
+    steps: [{ category: 'NewTrades', label: PNL_CATEGORY_LABELS.NewTrades, value: endValue }],
+    total: endValue
+  };
+};
+
+// Deals live on the start date are explained step by step; deals traded after it count as new trades
+export const explainPnl = (records: DealRecord[], from: MarketData, to: MarketData, reportingCurrency = 'USD'): PnlExplain => {
+  if (from.asOf >= to.asOf) {
+    throw new Error(`The start snapshot (${from.asOf}) must be before the end snapshot (${to.asOf})`);
+  }
+
+  const deals: DealPnl[] = [];
+  const errors: PnlExplain['errors'] = [];
+  records.forEach(record => {
+    const tradeDate = tradeDateOf(record.deal);
+    const existing = tradeDate <= from.asOf && isLive(record, from.asOf);
+    const traded = tradeDate > from.asOf && tradeDate <= to.asOf && isLive(record, to.asOf);
+    if (!existing && !traded) return;
+    try {
+      deals.push(existing ? explainDeal(record, from, to, reportingCurrency) : explainNewDeal(record, to, reportingCurrency));
+    } catch (e) {
+      errors.push({ id: record.deal.id ?? '—', message: e instanceof Error ? e.message : String(e) });
+    }
+  });
+
+  const totals = new Map<string, PnlStep>();
+  deals.flatMap(d => d.steps).forEach(s => {
+    const key = `${s.category}|${s.label}`;
+    totals.set(key, { ...s, value: (totals.get(key)?.value ?? 0) + s.value });
+  });
+  const steps = Array.from(totals.values())
+    .sort((a, b) => CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || a.label.localeCompare(b.label));
+
+  const sum = (pick: (d: DealPnl) => number) => deals.reduce((acc, d) => acc + pick(d), 0);
+  return {
+    fromDate: from.asOf,
+    toDate: to.asOf,
+    reportingCurrency,
+    startValue: sum(d => d.startValue),
+    endValue: sum(d => d.endValue),
+    cash: sum(d => d.cash),
+    total: sum(d => d.total),
+    steps,
+    deals,
+    errors
+  };
+};
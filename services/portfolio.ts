@@ -0,0 +1,116 @@
+import { CurveInstrument, DealRecord, MarketData, PricingResult, SwapDeal } from '../types';
+import { priceSwapWithRisk } from './risk';
+import { deriveStatus } from './lifecycle';
+
+export type LadderGranularity = 'Month' | 'Quarter';
+
+export interface PortfolioValuation {
+  deal: SwapDeal;
+  result?: PricingResult;
+  error?: string;
+}
+
+export interface PortfolioAnalytics {
+  reportingCurrency: string;
+  valuationDate: string;
+  dealCount: number;
+  npvTotal: number;
+  pv01Total: number;
+  // NPV of the legs in each currency, converted into the reporting currency
+  npvByCurrency: { currency: string, value: number }[];
+  npvByCounterparty: { counterparty: string, value: number, dealCount: number }[];
+  // Key-rate DV01 summed across deals, in curve quote order
+  dv01Buckets: { currency: string, instrument: CurveInstrument, tenor: string, value: number }[];
+  // Undiscounted future flows in each currency, received (+) and paid (-)
+  cashflowLadder: { period: string, currency: string, inflow: number, outflow: number, net: number }[];
+  errors: { id: string, message: string }[];
+}
+
+export const UNASSIGNED_COUNTERPARTY = 'Unassigned';
+
+// Deals still alive on the market date; matured and terminated trades carry no value or risk
+export const liveDeals = (records: DealRecord[], asOf: string): DealRecord[] =>
+  records.filter(r => {
+    const status = deriveStatus(r.deal, r.events, asOf);
+    return status === 'Active' || status === 'Pending';
+  });
+
+// Every deal is revalued on the market's own date so the book is consistent with one set of curves
+export const valuePortfolio = (records: DealRecord[], market: MarketData, reportingCurrency: string): PortfolioValuation[] =>
+  liveDeals(records, market.asOf).map(({ deal }) => {
+    try {
+      return { deal, result: priceSwapWithRisk({ ...deal, valueDate: market.asOf }, market, reportingCurrency) };
+    } catch (e) {
+      return { deal, error: e instanceof Error ? e.message : String(e) };
+    }
+  });
+
+export const ladderPeriod = (date: string, granularity: LadderGranularity): string => {
+  const [year, month] = date.split('-');
+  return granularity === 'Month' ? `${year}-${month}` : `${year}-Q${Math.ceil(Number(month) / 3)}`;
+};
+
+const addTo = <K>(map: Map<K, number>, key: K, value: number) => map.set(key, (map.get(key) ?? 0) + value);
+
+export const aggregatePortfolio = (
+  valuations: PortfolioValuation[],
+  reportingCurrency: string,
+  valuationDate: string,
+  granularity: LadderGranularity = 'Quarter'
+): PortfolioAnalytics => {
+  const priced = valuations.filter((v): v is PortfolioValuation & { result: PricingResult } => !!v.result);
+
+  const byCurrency = new Map<string, number>();
+  const byCounterparty = new Map<string, { value: number, dealCount: number }>();
+  const buckets = new Map<string, PortfolioAnalytics['dv01Buckets'][number]>();
+  const ladder = new Map<string, PortfolioAnalytics['cashflowLadder'][number]>();
+  let pv01Total = 0;
+
+  priced.forEach(({ deal, result }) => {
+    addTo(byCurrency, deal.leg1.currency, result.leg1NpvReporting);
+    addTo(byCurrency, deal.leg2.currency, result.leg2NpvReporting);
+
+    const counterparty = deal.counterparty || UNASSIGNED_COUNTERPARTY;
+    const entry = byCounterparty.get(counterparty) ?? { value: 0, dealCount: 0 };
+    byCounterparty.set(counterparty, { value: entry.value + result.npvTotal, dealCount: entry.dealCount + 1 });
+
+    result.risk?.pv01.forEach(r => { pv01Total += r.value; });
+    result.risk?.keyRateDv01.forEach(r => {
+      const key = `${r.currency}|${r.instrument}|${r.tenor}`;
+      const bucket = buckets.get(key) ?? { currency: r.currency, instrument: r.instrument, tenor: r.tenor, value: 0 };
+      buckets.set(key, { ...bucket, value: bucket.value + r.value });
+    });
+
+    result.cashflows.forEach(row => {
+      const amount = row.leg1Flow + row.leg2Flow;
+      const period = ladderPeriod(row.date, granularity);
+      const key = `${period}|${row.currency}`;
+      const bucket = ladder.get(key) ?? { period, currency: row.currency, inflow: 0, outflow: 0, net: 0 };
+      ladder.set(key, {
+        ...bucket,
+        inflow: bucket.inflow + Math.max(amount, 0),
+        outflow: bucket.outflow + Math.min(amount, 0),
+        net: bucket.net + amount
+      });
+    });
+  });
+
+  const npvByCurrency = Array.from(byCurrency, ([currency, value]) => ({ currency, value }))
+    .sort((a, b) => a.currency.localeCompare(b.currency));
+
+  return {
+    reportingCurrency,
+    valuationDate,
+    dealCount: priced.length,
+    npvTotal: npvByCurrency.reduce((acc, r) => acc + r.value, 0),
+    pv01Total,
+    npvByCurrency,
+    npvByCounterparty: Array.from(byCounterparty, ([counterparty, v]) => ({ counterparty, ...v }))
+      .sort((a, b) => Math.abs(b.value) - Math.abs(a.value)),
+    // Map insertion order already follows each curve's quote order
+    dv01Buckets: Array.from(buckets.values()).sort((a, b) => a.currency.localeCompare(b.currency)),
+    cashflowLadder: Array.from(ladder.values())
+      .sort((a, b) => a.period.localeCompare(b.period) || a.currency.localeCompare(b.currency)),
+    errors: valuations.filter(v => v.error).map(v => ({ id: v.deal.id ?? '—', message: v.error! }))
+  };
+};
@@ -0,0 +1,159 @@
+import { SwapDeal, SwapLeg, PricingResult, CashflowRow, MarketData, YieldCurve } from '../types';
+import { parseDate, formatDate, daysBetween } from './dateUtils';
+import { getDiscountCurve } from './marketData';
+import { convertAtSpot, fxForward } from './fx';
+import { buildSchedule, notionalOn, resolveCalendar, SchedulePeriod } from './schedule';
+import { yearFraction } from './dayCount';
+import { projectFloatingRate } from './projection';
+
+interface LegValuation {
+  flows: CashflowRow[];
+  pv: number;
+  // PV of 1% of running coupon, used to solve for the par rate
+  annuity: number;
+}
+
+// Recorded with every pricing run; bump it when a change moves prices so older runs can be told apart
+export const PRICING_ENGINE_VERSION = '1.0.0';
+
+// Leg 1 is received and Leg 2 is paid, so Leg 2 flows carry a negative sign.
+const LEG_SIGN: Record<1 | 2, number> = { 1: 1, 2: -1 };
+
+const yearsFrom = (valuation: Date, date: Date): number => daysBetween(valuation, date) / 365;
+
+// Notional outstanding in each period, following the leg's notional schedule. MtM legs reset to the
+// other leg's scheduled notional at the FX forward for the reset date, except for the first period,
+// which keeps the traded notional.
+const legNotionals = (leg: SwapLeg, other: SwapLeg, periods: SchedulePeriod[], market: MarketData, valueDate: string): number[] => {
+  const resets = !!leg.notionalReset && leg.currency !== other.currency;
+  return periods.map((period, i) => resets && i > 0
+    ? notionalOn(other, period.accrualStart) * fxForward(market, other.currency, leg.currency, period.accrualStart, valueDate)
+    : notionalOn(leg, period.accrualStart));
+};
+
+const valueLeg = (
+  leg: SwapLeg,
+  legNo: 1 | 2,
+  periods: SchedulePeriod[],
+  notionals: number[],
+  curve: YieldCurve,
+  market: MarketData,
+  valueDate: string
+): LegValuation => {
+  const valuation = parseDate(valueDate);
+  const sign = LEG_SIGN[legNo];
+  const flows: CashflowRow[] = [];
+  let pv = 0;
+  let annuity = 0;
+  const calendar = resolveCalendar(leg);
+
+  const addFlow = (date: Date, amount: number, flowType: CashflowRow['flowType'], accrual: number, coupon?: Partial<CashflowRow>) => {
+    if (date <= valuation || amount === 0) return;
+    const discountFactor = curve.discount(yearsFrom(valuation, date));
+    pv += amount * discountFactor;
+    flows.push({
+      date: formatDate(date),
+      leg: legNo,
+      currency: leg.currency,
+      flowType,
+      ...coupon,
+      leg1Flow: legNo === 1 ? Number(amount.toFixed(2)) : 0,
+      leg2Flow: legNo === 2 ? Number(amount.toFixed(2)) : 0,
+      accrualFraction: accrual,
+      discountFactor: Number(discountFactor.toFixed(6)),
+      presentValue: amount * discountFactor
+    });
+  };
+
+  // Principal moves against the coupons: the receiving side lends the notional out and gets it back
+  if (leg.initialExchange && periods.length) {
+    addFlow(periods[0].accrualStart, -sign * notionals[0], 'Principal', 0);
+  }
+
+  // Notional steps and resets are settled when the new period starts
+  periods.forEach((period, i) => {
+    if (i > 0 && (leg.finalExchange || leg.notionalReset)) {
+      addFlow(period.accrualStart, sign * (notionals[i - 1] - notionals[i]), 'Principal', 0);
+    }
+    if (period.paymentDate <= valuation) return;
+
+    const accrual = yearFraction(leg.convention, period.accrualStart, period.accrualEnd, calendar);
+    // Floating legs quote a spread over the projected index rate in `rate`
+    const projection = leg.type === 'Floating' ? projectFloatingRate(leg, period, market, valueDate) : undefined;
+    const couponRate = projection ? projection.rate + leg.rate : leg.rate;
+
+    addFlow(period.paymentDate, sign * notionals[i] * (couponRate / 100) * accrual, 'Interest', accrual, {
+      accrualStart: formatDate(period.accrualStart),
+      accrualEnd: formatDate(period.accrualEnd),
+      fixingDate: projection?.fixingDate,
+      notional: Number(notionals[i].toFixed(2)),
+      rate: Number(couponRate.toFixed(6))
+    });
+    annuity += notionals[i] * accrual * curve.discount(yearsFrom(valuation, period.paymentDate)) / 100;
+  });
+
+  if (leg.finalExchange && periods.length) {
+    addFlow(periods[periods.length - 1].paymentDate, sign * notionals[notionals.length - 1], 'Principal', 0);
+  }
+
+  return { flows, pv, annuity };
+};
+
+export const priceSwap = (deal: SwapDeal, market: MarketData, reportingCurrency = 'USD'): PricingResult => {
+  const legs: [SwapLeg, 1 | 2][] = [[deal.leg1, 1], [deal.leg2, 2]];
+
+  const valuations = legs.map(([leg, legNo]) => {
+    const other = legNo === 1 ? deal.leg2 : deal.leg1;
+    const curve = getDiscountCurve(market, leg.currency, deal.valueDate);
+    const periods = buildSchedule(leg, deal.startDate, deal.endDate);
+    const notionals = legNotionals(leg, other, periods, market, deal.valueDate);
+    return valueLeg(leg, legNo, periods, notionals, curve, market, deal.valueDate);
+  });
+
+  const toReporting = (amount: number, currency: string) => convertAtSpot(market, amount, currency, reportingCurrency);
+
+  const cashflows = valuations
+    .flatMap(v => v.flows)
+    .map(row => ({ ...row, presentValue: Number(toReporting(row.presentValue, row.currency).toFixed(2)) }))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.leg - b.leg || a.flowType.localeCompare(b.flowType));
+
+  const [leg1, leg2] = valuations;
+  const principal = cashflows
+    .filter(row => row.flowType === 'Principal')
+    .reduce((acc, row) => acc + row.presentValue, 0);
+  const leg1NpvReporting = toReporting(leg1.pv, deal.leg1.currency);
+  const leg2NpvReporting = toReporting(leg2.pv, deal.leg2.currency);
+  const npvTotal = leg1NpvReporting + leg2NpvReporting;
+
+  // Rate (or spread) on a leg that zeroes the NPV, from the leg's annuity in the reporting currency
+  const parValue = (legNo: 1 | 2): number => {
+    const leg = legNo === 1 ? deal.leg1 : deal.leg2;
+    const annuity = toReporting(valuations[legNo - 1].annuity, leg.currency);
+    return annuity === 0 ? leg.rate : leg.rate - LEG_SIGN[legNo] * npvTotal / annuity;
+  };
+
+  // Quote the par rate on the fixed leg (Leg 2 by preference), otherwise as a spread on Leg 2
+  const parRateLeg: 1 | 2 = deal.leg2.type === 'Fixed' || deal.leg1.type !== 'Fixed' ? 2 : 1;
+  const parRate = parValue(parRateLeg);
+
+  // The swap spread is the par spread of the floating leg; fixed/fixed deals show how far the
+  // quoted fixed rate is off market instead
+  const floatingLeg: 1 | 2 | undefined = deal.leg2.type === 'Floating' ? 2 : deal.leg1.type === 'Floating' ? 1 : undefined;
+  const spread = floatingLeg
+    ? parValue(floatingLeg) * 100
+    : (parRate - (parRateLeg === 1 ? deal.leg1 : deal.leg2).rate) * 100;
+
+  return {
+    npvTotal,
+    reportingCurrency,
+    spread,
+    parRate,
+    parRateLeg,
+    principal,
+    leg1Npv: leg1.pv,
+    leg2Npv: leg2.pv,
+    leg1NpvReporting,
+    leg2NpvReporting,
+    cashflows
+  };
+};
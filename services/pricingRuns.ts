@@ -0,0 +1,62 @@
+import { MarketData, PricingResult, PricingRun, SwapDeal } from '../types';
+import { PRICING_ENGINE_VERSION } from './pricingEngine';
+
+type FieldValue = string | number | boolean | null;
+
+export interface RunFieldDiff {
+  // Dotted path, with list entries named by their identifying fields, e.g. 'result.cashflows[2025-01-03 1 Interest].presentValue'
+  field: string;
+  before?: FieldValue;
+  after?: FieldValue;
+  changed: boolean;
+}
+
+// Deep copies, so later edits to the deal or market in the app cannot reach a recorded run
+export const createPricingRun = (deal: SwapDeal, market: MarketData, marketSnapshotId: string, result: PricingResult, pricedAt: Date = new Date()): Omit<PricingRun, 'id'> => ({
+  pricedAt: pricedAt.toISOString(),
+  engineVersion: PRICING_ENGINE_VERSION,
+  deal: structuredClone(deal),
+  marketSnapshotId,
+  market: structuredClone(market),
+  result: structuredClone(result)
+});
+
+// Fields that name an entry in a list (cashflows, risk buckets, curve quotes), in label order
+const IDENTITY_FIELDS = ['date', 'leg', 'currency', 'flowType', 'type', 'instrument', 'tenor'];
+
+const entryLabels = (items: unknown[]): string[] => {
+  const labels = items.map((item, i) => {
+    if (item === null || typeof item !== 'object') return String(i);
+    const record = item as Record<string, unknown>;
+    const parts = IDENTITY_FIELDS.filter(f => record[f] !== undefined).map(f => String(record[f]));
+    return parts.length ? parts.join(' ') : String(i);
+  });
+  // Entries that cannot be told apart fall back to their position
+  return labels.map((label, i) => labels.indexOf(label) === labels.lastIndexOf(label) ? label : String(i));
+};
+
+const flatten = (value: unknown, path: string, into: Map<string, FieldValue>) => {
+  if (Array.isArray(value)) {
+    const labels = entryLabels(value);
+    value.forEach((item, i) => flatten(item, `${path}[${labels[i]}]`, into));
+  } else if (value !== null && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => flatten(item, path ? `${path}.${key}` : key, into));
+  } else if (value !== undefined) {
+    into.set(path, value as FieldValue);
+  }
+};
+
+const runFields = (run: PricingRun): Map<string, FieldValue> => {
+  const fields = new Map<string, FieldValue>();
+  const { id, pricedAt, ...compared } = run;
+  flatten(compared, '', fields);
+  return fields;
+};
+
+// Every field of either run, in the first run's order with fields only the second has at the end
+export const diffRuns = (before: PricingRun, after: PricingRun): RunFieldDiff[] => {
+  const a = runFields(before);
+  const b = runFields(after);
+  const fields = [...a.keys(), ...[...b.keys()].filter(f => !a.has(f))];
+  return fields.map(field => ({ field, before: a.get(field), after: b.get(field), changed: a.get(field) !== b.get(field) }));
+};
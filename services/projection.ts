@@ -0,0 +1,105 @@
+import { MarketData, RateIndex, SwapLeg, YieldCurve } from '../types';
+import { daysBetween, formatDate, parseDate } from './dateUtils';
+import { addBusinessDays, adjustDate } from './calendars';
+import { getDiscountCurve, getFixing } from './marketData';
+import { resolveIndex } from './indices';
+import { SchedulePeriod } from './schedule';
+
+export interface RateProjection {
+  // Index rate in % for the period, excluding the leg spread
+  rate: number;
+  // Last observation date the rate depends on
+  fixingDate: string;
+  // True when every observation is already published
+  fixed: boolean;
+}
+
+interface ProjectionContext {
+  index: RateIndex;
+  curve: YieldCurve;
+  market: MarketData;
+  valuation: Date;
+}
+
+const yearsFrom = (valuation: Date, date: Date): number => daysBetween(valuation, date) / 365;
+
+// Annualised rate in % between two dates, in the index's own basis
+const forwardRate = (ctx: ProjectionContext, from: Date, to: Date): number => {
+  const growth = ctx.curve.discount(yearsFrom(ctx.valuation, from)) / ctx.curve.discount(yearsFrom(ctx.valuation, to));
+  if (ctx.index.basis === 252) {
+    return (Math.pow(growth, 252) - 1) * 100;
+  }
+  return (growth - 1) / (daysBetween(from, to) / ctx.index.basis) * 100;
+};
+
+const observedRate = (ctx: ProjectionContext, observation: Date, until: Date): number => {
+  if (observation < ctx.valuation) {
+    return getFixing(ctx.market, ctx.index.code, formatDate(observation));
+  }
+  return forwardRate(ctx, observation, until);
+};
+
+// Daily compounding in arrears over the period's business days, with optional lookback and lockout
+const projectOvernight = (ctx: ProjectionContext, period: SchedulePeriod, lookbackDays: number, lockoutDays: number): RateProjection => {
+  const { index } = ctx;
+  const days: Date[] = [];
+  for (let d = adjustDate(period.accrualStart, 'Following', index.calendar); d < period.accrualEnd; d = addBusinessDays(d, 1, index.calendar)) {
+    days.push(d);
+  }
+  if (days.length === 0) {
+    return { rate: forwardRate(ctx, period.accrualStart, period.accrualEnd), fixingDate: formatDate(period.accrualStart), fixed: false };
+  }
+
+  // Days inside the lockout window reuse the rate observed on the last day before it
+  const lockoutStart = Math.max(days.length - Math.max(lockoutDays, 0), 1);
+  let growth = 1;
+  let totalWeight = 0;
+  let fixed = true;
+  let lastObservation = days[0];
+
+  days.forEach((day, i) => {
+    const next = i + 1 < days.length ? days[i + 1] : period.accrualEnd;
+    const observationDay = days[Math.min(i, lockoutStart - 1)];
+    const observation = addBusinessDays(observationDay, -lookbackDays, index.calendar);
+    const rate = observedRate(ctx, observation, addBusinessDays(observation, 1, index.calendar)) / 100;
+
+    if (index.basis === 252) {
+      growth *= Math.pow(1 + rate, 1 / 252);
+      totalWeight += 1 / 252;
+    } else {
+      const weight = daysBetween(day, next) / index.basis;
+      growth *= 1 + rate * weight;
+      totalWeight += weight;
+    }
+    fixed = fixed && observation < ctx.valuation;
+    lastObservation = observation;
+  });
+
+  return { rate: (growth - 1) / totalWeight * 100, fixingDate: formatDate(lastObservation), fixed };
+};
+
+// Term rates are fixed in advance, a number of business days before the period starts
+const projectTerm = (ctx: ProjectionContext, period: SchedulePeriod, fixingLagDays: number): RateProjection => {
+  const { index } = ctx;
+  const fixingDate = fixingLagDays > 0
+    ? addBusinessDays(period.accrualStart, -fixingLagDays, index.calendar)
+    : adjustDate(period.accrualStart, 'Preceding', index.calendar);
+  const fixed = fixingDate < ctx.valuation;
+  const rate = fixed
+    ? getFixing(ctx.market, index.code, formatDate(fixingDate))
+    : forwardRate(ctx, period.accrualStart, period.accrualEnd);
+  return { rate, fixingDate: formatDate(fixingDate), fixed };
+};
+
+export const projectFloatingRate = (leg: SwapLeg, period: SchedulePeriod, market: MarketData, valueDate: string): RateProjection => {
+  const index = resolveIndex(leg.index, leg.currency);
+  const ctx: ProjectionContext = {
+    index,
+    curve: getDiscountCurve(market, index.currency, valueDate),
+    market,
+    valuation: parseDate(valueDate)
+  };
+  return index.style === 'Overnight'
+    ? projectOvernight(ctx, period, leg.lookbackDays ?? 0, leg.lockoutDays ?? 0)
+    : projectTerm(ctx, period, leg.fixingLagDays ?? index.fixingLagDays);
+};
@@ -0,0 +1,38 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { SwapDeal } from '../types';
+import { termSheetHtml } from './reportExport';
+import { priceSwap } from './pricingEngine';
+import { DEFAULT_MARKET_DATA } from './marketData';
+
+const DEAL: SwapDeal = {
+  id: 'SWP-100',
+  valueDate: '2024-09-27',
+  startDate: '2024-10-01',
+  endDate: '2026-10-01',
+  leg1: { currency: 'USD', notional: 10000000, rate: 0, type: 'Floating', frequency: 'Quarterly', convention: 'Actual/360' },
+  leg2: { currency: 'USD', notional: 10000000, rate: 4, type: 'Fixed', frequency: 'Quarterly', convention: 'Actual/360' }
+};
+
+// First fixed coupon row of the cashflow table, by column header
+const fixedCoupon = (): Record<string, string> => {
+  const doc = new DOMParser().parseFromString(termSheetHtml(DEAL, priceSwap(DEAL, DEFAULT_MARKET_DATA, 'USD'), []), 'text/html');
+  const table = Array.from(doc.querySelectorAll('section')).find(s => s.querySelector('h2')?.textContent === 'Cashflows')!.querySelector('table')!;
+  const head = Array.from(table.querySelectorAll('th')).map(th => th.textContent ?? '');
+  const row = Array.from(table.querySelectorAll('tbody tr'))
+    .map(tr => Array.from(tr.querySelectorAll('td')).map(td => td.textContent ?? ''))
+    .find(cells => cells[head.indexOf('Type')] === 'Interest' && cells[head.indexOf('Rate (%)')] !== '' && cells[head.indexOf(`Leg 2 (USD)`)] !== '0.00')!;
+  return Object.fromEntries(head.map((h, i) => [h, row[i]]));
+};
+
+describe('termSheetHtml cashflows', () => {
+  it('prints each column with its own precision', () => {
+    const row = fixedCoupon();
+    expect(row['Rate (%)']).toMatch(/^4\.0000$/);
+    expect(row.Notional).toMatch(/^10,000,000\.00$/);
+    expect(row.Accrual).toMatch(/^0\.\d{6}$/);
+    expect(row['Discount Factor']).toMatch(/^0\.\d{6}$/);
+    expect(row['Fixing Date']).toBe('');
+    expect(row.Leg).toBe('2');
+  });
+});
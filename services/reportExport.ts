@@ -0,0 +1,203 @@
+import { PricingResult, SwapDeal, SwapLeg } from '../types';
+import { resolveCalendar } from './schedule';
+import { resolveIndex } from './indices';
+import { tradeDateOf } from './lifecycle';
+import { Sheet, toXlsx } from './xlsx';
+
+type Cell = string | number;
+
+const escapeCell = (cell: Cell): string => {
+  const text = String(cell);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Cell[][]): string => rows.map(row => row.map(escapeCell).join(',')).join('\n');
+
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Opens a standalone HTML document and hands it to the browser's print dialog, where it can be saved as PDF
+export const printDocument = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) {
+    throw new Error('The print window was blocked; allow pop-ups for this site and try again.');
+  }
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  // Give the new document a moment to lay out before printing
+  setTimeout(() => win.print(), 250);
+};
+
+const LEG_DIRECTION: Record<1 | 2, string> = { 1: 'Receive', 2: 'Pay' };
+
+const legTermRows = (leg: SwapLeg): [string, Cell][] => [
+  ['Type', leg.type],
+  ['Currency', leg.currency],
+  ['Notional', leg.notional],
+  [leg.type === 'Fixed' ? 'Fixed rate (%)' : 'Spread (%)', leg.rate],
+  ['Index', leg.type === 'Floating' ? resolveIndex(leg.index, leg.currency).name : '—'],
+  ['Frequency', leg.frequency],
+  ['Day count', leg.convention],
+  ['Calendar', resolveCalendar(leg)],
+  ['Business day convention', leg.businessDayConvention ?? 'ModifiedFollowing'],
+  ['Date generation', `${leg.dateGeneration ?? 'Forward'}, ${(leg.stub ?? 'Short').toLowerCase()} stub`],
+  ['Roll day', leg.rollDay ?? '—'],
+  ['Payment lag (days)', leg.paymentLagDays ?? 0],
+  ['Notional steps', leg.notionalSchedule?.map(step => `${step.date}: ${step.notional}`).join(', ') || '—'],
+  ['Principal exchange', [leg.initialExchange && 'Initial', leg.finalExchange && 'Final'].filter(Boolean).join(' + ') || 'None']
+];
+
+export const dealTermRows = (deal: SwapDeal): Cell[][] => [
+  ['Term', 'Leg 1', 'Leg 2'],
+  ['Operation ID', deal.id ?? '—', ''],
+  ['Counterparty', deal.counterparty ?? '—', ''],
+  ['Trade date', tradeDateOf(deal), ''],
+  ['Valuation date', deal.valueDate, ''],
+  ['Start date', deal.startDate, ''],
+  ['End date', deal.endDate, ''],
+  ['Direction', LEG_DIRECTION[1], LEG_DIRECTION[2]],
+  ...legTermRows(deal.leg1).map(([label, value], i) => [label, value, legTermRows(deal.leg2)[i][1]])
+];
+
+export const kpiRows = (result: PricingResult): Cell[][] => {
+  const sum = (values: { value: number }[] = []) => values.reduce((acc, r) => acc + r.value, 0);
+  return [
+    ['KPI', 'Value', 'Unit'],
+    ['Total NPV', result.npvTotal, result.reportingCurrency],
+    ['Leg 1 NPV', result.leg1NpvReporting, result.reportingCurrency],
+    ['Leg 2 NPV', result.leg2NpvReporting, result.reportingCurrency],
+    ['Principal value', result.principal, result.reportingCurrency],
+    ['Swap spread', result.spread, 'bps'],
+    [`Par rate (Leg ${result.parRateLeg})`, result.parRate, '%'],
+    ['PV01', sum(result.risk?.pv01), result.reportingCurrency],
+    ['Spread01', sum(result.risk?.basisSpread01), result.reportingCurrency]
+  ];
+};
+
+export const cashflowRows = (deal: SwapDeal, result: PricingResult): Cell[][] => [
+  ['Payment Date', 'Leg', 'Type', 'Currency', 'Accrual Start', 'Accrual End', 'Fixing Date', 'Notional', 'Rate (%)',
+    `Leg 1 (${deal.leg1.currency})`, `Leg 2 (${deal.leg2.currency})`, 'Accrual', 'Discount Factor', `PV (${result.reportingCurrency})`],
+  ...result.cashflows.map(row => [
+    row.date, row.leg, row.flowType, row.currency, row.accrualStart ?? '', row.accrualEnd ?? '', row.fixingDate ?? '', row.notional ?? '', row.rate ?? '',
+    row.leg1Flow, row.leg2Flow, row.accrualFraction, row.discountFactor, row.presentValue
+  ])
+];
+
+export const riskRows = (result: PricingResult): Cell[][] => {
+  const risk = result.risk;
+  if (!risk) return [];
+  return [
+    ['Measure', 'Currency', 'Bucket', `Value (${result.reportingCurrency})`],
+    ...risk.pv01.map(r => ['PV01', r.currency, 'Parallel', r.value]),
+    ...risk.keyRateDv01.map(r => ['DV01', r.currency, `${r.instrument} ${r.tenor}`, r.value]),
+    ...risk.basisSpread01.map(r => ['Spread01', r.currency, `Leg ${r.leg}`, r.value]),
+    ...risk.fxDelta.map(r => ['FX Delta (1%)', r.currency, 'Spot', r.value])
+  ];
+};
+
+// KPIs, cashflows and the risk ladder as blocks of the same CSV file
+export const pricingReportCsv = (deal: SwapDeal, result: PricingResult): string => {
+  return toCsv([...kpiRows(result), [], ...cashflowRows(deal, result), [], ...riskRows(result)]);
+};
+
+// The same report with one worksheet per block
+export const pricingReportXlsx = (deal: SwapDeal, result: PricingResult): Uint8Array => {
+  const sheets: Sheet[] = [
+    { name: 'Summary', rows: [...kpiRows(result), [], ...dealTermRows(deal)] },
+    { name: 'Cashflows', rows: cashflowRows(deal, result) }
+  ];
+  if (result.risk) sheets.push({ name: 'Risk', rows: riskRows(result) });
+  return toXlsx(sheets);
+};
+
+// --- Term sheet ---
+
+export interface CurvePoint {
+  name: string;
+  leg1: number;
+  leg2: number;
+}
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Fixed decimals when given, otherwise as many as the value has (rates, notionals)
+const formatCell = (cell: Cell, digits?: number) => typeof cell === 'number'
+  ? cell.toLocaleString(undefined, { minimumFractionDigits: digits ?? 0, maximumFractionDigits: digits ?? 6 })
+  : escapeHtml(cell);
+
+const htmlTable = (rows: Cell[][], digits?: (column: number) => number) => {
+  const [head, ...body] = rows;
+  return `<table><thead><tr>${head.map(h => `<th>${escapeHtml(String(h))}</th>`).join('')}</tr></thead><tbody>${
+    body.map(row => `<tr>${row.map((cell, i) => `<td class="${typeof cell === 'number' ? 'num' : ''}">${formatCell(cell, digits?.(i))}</td>`).join('')}</tr>`).join('')
+  }</tbody></table>`;
+};
+
+// Zero rate curves of both legs as a static SVG line chart, so the printout does not depend on the app's charts
+const curveSvg = (points: CurvePoint[], labels: [string, string]) => {
+  const width = 640;
+  const height = 220;
+  const pad = { left: 40, right: 10, top: 10, bottom: 30 };
+  const values = points.flatMap(p => [p.leg1, p.leg2]);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const x = (i: number) => pad.left + (i * (width - pad.left - pad.right)) / Math.max(points.length - 1, 1);
+  const y = (v: number) => pad.top + ((max - v) * (height - pad.top - pad.bottom)) / span;
+  const line = (key: 'leg1' | 'leg2', color: string) =>
+    `<polyline fill="none" stroke="${color}" stroke-width="2" points="${points.map((p, i) => `${x(i).toFixed(1)},${y(p[key]).toFixed(1)}`).join(' ')}"/>`;
+  const ticks = [min, (min + max) / 2, max].map(v =>
+    `<line x1="${pad.left}" x2="${width - pad.right}" y1="${y(v)}" y2="${y(v)}" stroke="#f0f0f0"/><text x="${pad.left - 6}" y="${y(v) + 4}" text-anchor="end">${v.toFixed(2)}</text>`);
+  const xLabels = points.map((p, i) => `<text x="${x(i)}" y="${height - 10}" text-anchor="middle">${escapeHtml(p.name)}</text>`);
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" font-size="10" fill="#6b7280">${ticks.join('')}${xLabels.join('')}${line('leg1', '#28a745')}${line('leg2', '#dc3545')}</svg>
+    <p class="legend"><span style="color:#28a745">■</span> ${escapeHtml(labels[0])} zero rate (%) &nbsp; <span style="color:#dc3545">■</span> ${escapeHtml(labels[1])} zero rate (%)</p>`;
+};
+
+// Cashflow columns, by header, that are not amounts: leg numbers are whole, rates and factors need more precision
+const CASHFLOW_DIGITS: Record<string, number> = { Leg: 0, 'Rate (%)': 4, Accrual: 6, 'Discount Factor': 6 };
+
+export const termSheetHtml = (deal: SwapDeal, result: PricingResult, curve: CurvePoint[]): string => {
+  const title = `Swap Term Sheet ${deal.id ?? ''}`.trim();
+  const cashflows = cashflowRows(deal, result);
+  const cashflowDigits = (column: number) => CASHFLOW_DIGITS[String(cashflows[0][column])] ?? 2;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Inter, Arial, sans-serif; color: #111827; margin: 32px; font-size: 12px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; border-bottom: 2px solid #137fec; padding-bottom: 4px; }
+  .meta { color: #6b7280; margin: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+  th { background: #f9fafb; font-size: 10px; text-transform: uppercase; color: #6b7280; }
+  td.num { text-align: right; font-family: ui-monospace, monospace; }
+  .legend { color: #6b7280; margin: 4px 0 0; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; }
+  section { break-inside: avoid; }
+  @media print { body { margin: 12mm; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="meta">Valued ${escapeHtml(deal.valueDate)} in ${escapeHtml(result.reportingCurrency)} · generated ${escapeHtml(new Date().toISOString().slice(0, 16).replace('T', ' '))} UTC</p>
+  <section><h2>Deal Terms</h2>${htmlTable(dealTermRows(deal))}</section>
+  <div class="grid">
+    <section><h2>Valuation</h2>${htmlTable(kpiRows(result), () => 4)}</section>
+    ${result.risk ? `<section><h2>Risk</h2>${htmlTable(riskRows(result), () => 2)}</section>` : ''}
+  </div>
+  <section><h2>Zero Curves</h2>${curveSvg(curve, [deal.leg1.currency, deal.leg2.currency])}</section>
+  <section><h2>Cashflows</h2>${htmlTable(cashflows, cashflowDigits)}</section>
+</body>
+</html>
+`;
+};
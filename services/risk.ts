@@ -0,0 +1,65 @@
+import { CurveDefinition, CurveQuote, MarketData, PricingResult, RiskMetrics, SwapDeal } from '../types';
+import { priceSwap } from './pricingEngine';
+
+const BP = 0.01; // in % quote units
+
+export const bumpQuote = (quote: CurveQuote, bp: number): CurveQuote => ({
+  ...quote,
+  // Futures are quoted as price, so a higher rate is a lower quote
+  quote: quote.type === 'Future' ? quote.quote - bp * BP : quote.quote + bp * BP
+});
+
+export const bumpCurve = (market: MarketData, currency: string, bp: number, quoteIndex?: number): MarketData => {
+  const definition = market.curves[currency];
+  const bumped: CurveDefinition = {
+    ...definition,
+    quotes: definition.quotes.map((q, i) => quoteIndex === undefined || i === quoteIndex ? bumpQuote(q, bp) : q)
+  };
+  return { ...market, curves: { ...market.curves, [currency]: bumped } };
+};
+
+// Moves the currency's value by `pct` percent against every other currency
+export const bumpFxSpot = (market: MarketData, currency: string, pct: number): MarketData => ({
+  ...market,
+  fxSpots: { ...market.fxSpots, [currency]: market.fxSpots[currency] * (1 + pct / 100) }
+});
+
+export const computeRisk = (deal: SwapDeal, market: MarketData, reportingCurrency: string, baseNpv?: number): RiskMetrics => {
+  const base = baseNpv ?? priceSwap(deal, market, reportingCurrency).npvTotal;
+  const npv = (m: MarketData, d: SwapDeal = deal) => priceSwap(d, m, reportingCurrency).npvTotal;
+  const currencies = Array.from(new Set([deal.leg1.currency, deal.leg2.currency]));
+
+  const pv01 = currencies.map(currency => ({
+    currency,
+    value: npv(bumpCurve(market, currency, 1)) - base
+  }));
+
+  const keyRateDv01 = currencies.flatMap(currency =>
+    market.curves[currency].quotes.map((quote, i) => ({
+      currency,
+      instrument: quote.type,
+      tenor: quote.tenor,
+      value: npv(bumpCurve(market, currency, 1, i)) - base
+    }))
+  );
+
+  const basisSpread01 = ([1, 2] as const)
+    .filter(legNo => deal[`leg${legNo}`].type === 'Floating')
+    .map(legNo => {
+      const key = `leg${legNo}` as const;
+      const bumped = { ...deal, [key]: { ...deal[key], rate: deal[key].rate + BP } };
+      return { leg: legNo, currency: deal[key].currency, value: npv(market, bumped) - base };
+    });
+
+  // Moving the reporting currency itself is equivalent to moving everything else, so skip it
+  const fxDelta = currencies
+    .filter(currency => currency !== reportingCurrency)
+    .map(currency => ({ currency, value: npv(bumpFxSpot(market, currency, 1)) - base }));
+
+  return { pv01, keyRateDv01, basisSpread01, fxDelta };
+};
+
+export const priceSwapWithRisk = (deal: SwapDeal, market: MarketData, reportingCurrency = 'USD'): PricingResult => {
+  const result = priceSwap(deal, market, reportingCurrency);
+  return { ...result, risk: computeRisk(deal, market, reportingCurrency, result.npvTotal) };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { MarketData, PricingRun, SwapDeal } from '../types';
+import { MAX_STORED_RUNS, createLocalStorageRunRepository } from './runRepository';
+
+// In-memory Storage that refuses writes above a size, like a browser out of quota
+const memoryStorage = (limit = Infinity): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: i => Array.from(items.keys())[i] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => {
+      if (value.length > limit) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      items.set(key, value);
+    }
+  };
+};
+
+const run = (n: number): Omit<PricingRun, 'id'> => ({
+  pricedAt: new Date(Date.UTC(2024, 0, 1, 0, n)).toISOString(),
+  engineVersion: '1.0.0',
+  deal: { id: `SWP-${n}` } as SwapDeal,
+  marketSnapshotId: '',
+  market: { asOf: `2024-01-${String(n % 28 + 1).padStart(2, '0')}` } as MarketData,
+  result: {} as PricingRun['result']
+});
+
+describe('local run repository', () => {
+  it('keeps the newest runs and does not reuse their IDs', async () => {
+    const repository = createLocalStorageRunRepository('runs', memoryStorage());
+    for (let n = 1; n <= MAX_STORED_RUNS + 5; n++) await repository.record(run(n));
+    const runs = await repository.list();
+    expect(runs).toHaveLength(MAX_STORED_RUNS);
+    expect(runs[0].id).toBe(`RUN-${String(MAX_STORED_RUNS + 5).padStart(5, '0')}`);
+    expect(runs[runs.length - 1].deal.id).toBe('SWP-6');
+    expect(runs[runs.length - 1].market.asOf).toBe('2024-01-07');
+  });
+
+  it('drops old runs when storage is full', async () => {
+    const storage = memoryStorage(2000);
+    const repository = createLocalStorageRunRepository('runs', storage);
+    for (let n = 1; n <= 20; n++) await repository.record(run(n));
+    const runs = await repository.list();
+    expect(runs[0].deal.id).toBe('SWP-20');
+    expect(runs.length).toBeLessThan(20);
+    expect(storage.getItem('runs')!.length).toBeLessThanOrEqual(2000);
+  });
+
+  it('rejects a run that does not fit on its own', async () => {
+    const repository = createLocalStorageRunRepository('runs', memoryStorage(10));
+    await expect(repository.record(run(1))).rejects.toThrow('Pricing history storage is full');
+  });
+});
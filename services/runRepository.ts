@@ -0,0 +1,86 @@
+import { MarketData, PricingRun } from '../types';
+
+// Storage contract for pricing runs. Runs are append-only: there is no way to change one, and only the
+// oldest are dropped, to keep the history within storage limits.
+export interface RunRepository {
+  list: () => Promise<PricingRun[]>;
+  record: (run: Omit<PricingRun, 'id'>) => Promise<PricingRun>;
+}
+
+const STORAGE_KEY = 'swappricer.runs.v1';
+export const MAX_STORED_RUNS = 200;
+
+// Most runs share a handful of markets, so each distinct market is stored once and runs refer to it
+interface StoredRuns {
+  runs: (Omit<PricingRun, 'market'> & { marketKey: string })[];
+  markets: Record<string, MarketData>;
+  // Last run number handed out, so IDs are not reused once old runs are dropped; absent in older data
+  sequence?: number;
+}
+
+// Keeps the newest runs and only the markets they still refer to
+const newest = (stored: StoredRuns, count: number): StoredRuns => {
+  const runs = stored.runs.slice(-count);
+  const markets = Object.fromEntries(Array.from(new Set(runs.map(r => r.marketKey))).map(k => [k, stored.markets[k]]));
+  return { ...stored, runs, markets };
+};
+
+const marketKey = (json: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < json.length; i++) hash = ((hash * 33) ^ json.charCodeAt(i)) >>> 0;
+  return `${hash.toString(36)}-${json.length.toString(36)}`;
+};
+
+export const runId = (sequence: number): string => `RUN-${String(sequence).padStart(5, '0')}`;
+
+export const createLocalStorageRunRepository = (key = STORAGE_KEY, storage?: Storage): RunRepository => {
+  const store = () => storage ?? window.localStorage;
+
+  const read = (): StoredRuns => {
+    const raw = store().getItem(key);
+    if (raw === null) return { runs: [], markets: {} };
+    try {
+      return JSON.parse(raw) as StoredRuns;
+    } catch (error) {
+      console.error("Stored pricing runs are unreadable, starting empty:", error);
+      return { runs: [], markets: {} };
+    }
+  };
+
+  return {
+    // Newest first
+    list: async () => {
+      const { runs, markets } = read();
+      return runs.map(({ marketKey: k, ...run }) => ({ ...run, market: markets[k] })).reverse();
+    },
+    record: async (run) => {
+      const stored = read();
+      const { market, ...rest } = run;
+      const json = JSON.stringify(market);
+      let k = marketKey(json);
+      // On the off chance two markets hash alike, the newer one takes a different key
+      while (stored.markets[k] && JSON.stringify(stored.markets[k]) !== json) k += '+';
+      const sequence = (stored.sequence ?? stored.runs.length) + 1;
+      const saved: PricingRun = { ...run, id: runId(sequence) };
+      const next = newest({
+        runs: [...stored.runs, { ...rest, id: saved.id, marketKey: k }],
+        markets: { ...stored.markets, [k]: market },
+        sequence
+      }, MAX_STORED_RUNS);
+      // When storage is full, the oldest half of the history makes room, down to the new run alone
+      for (let count = next.runs.length; ; count = Math.ceil(count / 2)) {
+        try {
+          store().setItem(key, JSON.stringify(newest(next, count)));
+          return saved;
+        } catch (error) {
+          if (count === 1) {
+            console.error("Unable to store the pricing run:", error);
+            throw new Error('Pricing history storage is full, so this run was not recorded.');
+          }
+        }
+      }
+    }
+  };
+};
+
+export const runRepository: RunRepository = createLocalStorageRunRepository();
@@ -0,0 +1,60 @@
+import { Scenario } from '../types';
+import { BUILT_IN_SCENARIOS } from './scenarios';
+
+// Storage contract for user-defined stress scenarios; built-in scenarios are always listed first
+export interface ScenarioRepository {
+  list: () => Promise<Scenario[]>;
+  save: (scenario: Omit<Scenario, 'id' | 'builtIn'> & { id?: string }) => Promise<Scenario>;
+  remove: (id: string) => Promise<void>;
+}
+
+const STORAGE_KEY = 'swappricer.scenarios.v1';
+
+export const createLocalStorageScenarioRepository = (key = STORAGE_KEY, storage?: Storage): ScenarioRepository => {
+  const store = () => storage ?? window.localStorage;
+
+  const read = (): Scenario[] => {
+    const raw = store().getItem(key);
+    if (raw === null) return [];
+    try {
+      return JSON.parse(raw) as Scenario[];
+    } catch (error) {
+      console.error("Stored scenarios are unreadable, starting empty:", error);
+      return [];
+    }
+  };
+
+  const write = (scenarios: Scenario[]) => {
+    store().setItem(key, JSON.stringify(scenarios));
+  };
+
+  return {
+    list: async () => [...BUILT_IN_SCENARIOS, ...read()],
+    save: async (scenario) => {
+      if (!scenario.name.trim()) {
+        throw new Error('A scenario needs a name');
+      }
+      if (scenario.shocks.length === 0) {
+        throw new Error('A scenario needs at least one shock');
+      }
+      if (scenario.shocks.some(s => s.type === 'FxSpot' && !(s.pct > -100))) {
+        throw new Error('FX spot shocks must be above -100%');
+      }
+      if (BUILT_IN_SCENARIOS.some(s => s.id === scenario.id)) {
+        throw new Error('Built-in scenarios cannot be changed');
+      }
+      const saved: Scenario = { ...scenario, name: scenario.name.trim(), id: scenario.id ?? `custom-${Date.now().toString(36)}` };
+      const stored = read();
+      write(stored.some(s => s.id === saved.id) ? stored.map(s => s.id === saved.id ? saved : s) : [...stored, saved]);
+      return saved;
+    },
+    remove: async (id) => {
+      if (BUILT_IN_SCENARIOS.some(s => s.id === id)) {
+        throw new Error('Built-in scenarios cannot be deleted');
+      }
+      write(read().filter(s => s.id !== id));
+    }
+  };
+};
+
+export const scenarioRepository: ScenarioRepository = createLocalStorageScenarioRepository();
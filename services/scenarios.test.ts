@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Scenario, SwapDeal } from '../types';
+import { applyScenario, scenarioWarnings } from './scenarios';
+import { DEFAULT_MARKET_DATA } from './marketData';
+
+const DEAL: SwapDeal = {
+  id: 'SWP-100',
+  valueDate: '2024-09-27',
+  startDate: '2024-10-01',
+  endDate: '2027-10-01',
+  leg1: { currency: 'EUR', notional: 10000000, rate: 0, type: 'Floating', frequency: 'Quarterly', convention: 'Actual/360' },
+  leg2: { currency: 'USD', notional: 11160000, rate: 3.5, type: 'Fixed', frequency: 'Quarterly', convention: 'Actual/360' }
+};
+const scenario = (shocks: Scenario['shocks']): Scenario => ({ id: 'test', name: 'Test', shocks });
+
+describe('applyScenario', () => {
+  it('moves every other currency against a USD FX shock', () => {
+    const { market } = applyScenario(DEAL, DEFAULT_MARKET_DATA, scenario([{ type: 'FxSpot', currency: 'USD', pct: 25 }]));
+    expect(market.fxSpots.USD).toBe(1);
+    Object.keys(DEFAULT_MARKET_DATA.fxSpots).filter(c => c !== 'USD').forEach(currency => {
+      expect(market.fxSpots[currency]).toBeCloseTo(DEFAULT_MARKET_DATA.fxSpots[currency] / 1.25, 12);
+    });
+  });
+
+  it('moves one currency against USD', () => {
+    const { market } = applyScenario(DEAL, DEFAULT_MARKET_DATA, scenario([{ type: 'FxSpot', currency: 'EUR', pct: -10 }]));
+    expect(market.fxSpots.EUR).toBeCloseTo(DEFAULT_MARKET_DATA.fxSpots.EUR * 0.9, 12);
+    expect(market.fxSpots.GBP).toBe(DEFAULT_MARKET_DATA.fxSpots.GBP);
+  });
+});
+
+describe('scenarioWarnings', () => {
+  it('flags tenor shocks that match no quote', () => {
+    expect(scenarioWarnings(scenario([{ type: 'Tenor', currency: 'USD', tenor: '5Y', bp: 10 }]), DEFAULT_MARKET_DATA)).toEqual([]);
+    expect(scenarioWarnings(scenario([{ type: 'Tenor', currency: 'USD', tenor: '4Y', bp: 10 }]), DEFAULT_MARKET_DATA))
+      .toEqual(['Test: USD 4Y +10bp matches no curve quote']);
+  });
+});
@@ -0,0 +1,253 @@
+import { CurveQuote, MarketData, Scenario, ScenarioShock, SwapDeal } from '../types';
+import { priceSwap } from './pricingEngine';
+import { bumpFxSpot, bumpQuote } from './risk';
+
+export const ALL_CURRENCIES = '*';
+
+const BP = 0.01; // in % quote units
+const TWIST_SHORT_YEARS = 2;
+const TWIST_LONG_YEARS = 10;
+
+export const SHOCK_TYPE_LABELS: Record<ScenarioShock['type'], string> = {
+  Parallel: 'Parallel shift',
+  Tenor: 'Tenor shift',
+  Twist: 'Twist',
+  Basis: 'Basis spread',
+  FxSpot: 'FX spot'
+};
+
+// Moves are rounded approximations of what the markets did over each episode, scaled to a single shock
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    id: 'parallel-up-100',
+    name: 'Rates +100bp',
+    description: 'Every curve up 100bp',
+    builtIn: true,
+    shocks: [{ type: 'Parallel', currency: ALL_CURRENCIES, bp: 100 }]
+  },
+  {
+    id: 'parallel-down-100',
+    name: 'Rates -100bp',
+    description: 'Every curve down 100bp',
+    builtIn: true,
+    shocks: [{ type: 'Parallel', currency: ALL_CURRENCIES, bp: -100 }]
+  },
+  {
+    id: 'usd-strength-10',
+    name: 'USD +10%',
+    description: 'Every currency 10% weaker against the dollar',
+    builtIn: true,
+    shocks: [{ type: 'FxSpot', currency: ALL_CURRENCIES, pct: -10 }]
+  },
+  {
+    id: 'gfc-2008',
+    name: '2008 Lehman default',
+    description: 'Sep-Oct 2008: G10 rates rally hard at the front, BRL and AUD sell off',
+    builtIn: true,
+    shocks: [
+      { type: 'Twist', currency: 'USD', shortBp: -150, longBp: -60 },
+      { type: 'Twist', currency: 'EUR', shortBp: -100, longBp: -50 },
+      { type: 'Twist', currency: 'GBP', shortBp: -150, longBp: -70 },
+      { type: 'Parallel', currency: 'BRL', bp: 250 },
+      { type: 'Parallel', currency: 'AUD', bp: -150 },
+      { type: 'FxSpot', currency: 'BRL', pct: -25 },
+      { type: 'FxSpot', currency: 'AUD', pct: -20 },
+      { type: 'FxSpot', currency: 'GBP', pct: -12 },
+      { type: 'FxSpot', currency: 'EUR', pct: -8 },
+      { type: 'FxSpot', currency: 'JPY', pct: 15 }
+    ]
+  },
+  {
+    id: 'taper-2013',
+    name: '2013 Taper tantrum',
+    description: 'May-Jun 2013: USD long end up 100bp, emerging markets sell off',
+    builtIn: true,
+    shocks: [
+      { type: 'Twist', currency: 'USD', shortBp: 10, longBp: 100 },
+      { type: 'Twist', currency: 'EUR', shortBp: 5, longBp: 50 },
+      { type: 'Parallel', currency: 'BRL', bp: 200 },
+      { type: 'Parallel', currency: 'AUD', bp: 50 },
+      { type: 'FxSpot', currency: 'BRL', pct: -10 },
+      { type: 'FxSpot', currency: 'AUD', pct: -10 }
+    ]
+  },
+  {
+    id: 'covid-2020',
+    name: '2020 COVID crash',
+    description: 'Mar 2020: emergency cuts, dollar funding squeeze',
+    builtIn: true,
+    shocks: [
+      { type: 'Twist', currency: 'USD', shortBp: -150, longBp: -80 },
+      { type: 'Parallel', currency: 'GBP', bp: -60 },
+      { type: 'Parallel', currency: 'EUR', bp: -20 },
+      { type: 'Parallel', currency: 'AUD', bp: -50 },
+      { type: 'Parallel', currency: 'BRL', bp: 150 },
+      { type: 'FxSpot', currency: 'BRL', pct: -20 },
+      { type: 'FxSpot', currency: 'AUD', pct: -12 },
+      { type: 'FxSpot', currency: 'GBP', pct: -8 },
+      { type: 'FxSpot', currency: 'EUR', pct: -3 },
+      { type: 'FxSpot', currency: 'JPY', pct: 3 }
+    ]
+  },
+  {
+    id: 'hikes-2022',
+    name: '2022 Hiking cycle',
+    description: 'H1 2022: global tightening led by the Fed, yen weakness',
+    builtIn: true,
+    shocks: [
+      { type: 'Twist', currency: 'USD', shortBp: 250, longBp: 150 },
+      { type: 'Parallel', currency: 'EUR', bp: 150 },
+      { type: 'Parallel', currency: 'GBP', bp: 150 },
+      { type: 'Parallel', currency: 'AUD', bp: 200 },
+      { type: 'Parallel', currency: 'BRL', bp: 150 },
+      { type: 'Parallel', currency: 'JPY', bp: 20 },
+      { type: 'FxSpot', currency: 'JPY', pct: -15 },
+      { type: 'FxSpot', currency: 'GBP', pct: -10 },
+      { type: 'FxSpot', currency: 'EUR', pct: -8 }
+    ]
+  },
+  {
+    id: 'gilts-2022',
+    name: '2022 UK gilt crisis',
+    description: 'Sep 2022: mini-budget, long gilts and sterling sell off',
+    builtIn: true,
+    shocks: [
+      { type: 'Twist', currency: 'GBP', shortBp: 100, longBp: 150 },
+      { type: 'FxSpot', currency: 'GBP', pct: -7 }
+    ]
+  }
+];
+
+const periodYears = (tenor: string): number => {
+  const match = /^(\d+)([DWMY])$/.exec(tenor.trim().toUpperCase());
+  if (!match) {
+    throw new Error(`Invalid tenor "${tenor}"`);
+  }
+  const n = Number(match[1]);
+  return match[2] === 'D' ? n / 365 : match[2] === 'W' ? (7 * n) / 365 : match[2] === 'M' ? n / 12 : n;
+};
+
+// FRAs and futures ('6x9') mature at the end of their period
+const quoteYears = (quote: CurveQuote): number => {
+  const fra = /^(\d+)x(\d+)$/i.exec(quote.tenor);
+  return fra ? Number(fra[2]) / 12 : periodYears(quote.tenor);
+};
+
+const appliesTo = (shock: ScenarioShock, currency: string) => shock.currency === ALL_CURRENCIES || shock.currency === currency;
+
+const curveShockBp = (shock: ScenarioShock, years: number): number => {
+  switch (shock.type) {
+    case 'Parallel':
+      return shock.bp;
+    case 'Tenor':
+      return Math.abs(periodYears(shock.tenor) - years) < 1e-9 ? shock.bp : 0;
+    case 'Twist': {
+      const w = Math.min(Math.max((years - TWIST_SHORT_YEARS) / (TWIST_LONG_YEARS - TWIST_SHORT_YEARS), 0), 1);
+      return shock.shortBp + (shock.longBp - shock.shortBp) * w;
+    }
+    default:
+      return 0;
+  }
+};
+
+// Spots are USD per unit, so a USD move is applied as the opposite move of every other currency
+const fxSpotMovePct = (shock: Extract<ScenarioShock, { type: 'FxSpot' }>): number =>
+  shock.currency === 'USD' ? (100 / (1 + shock.pct / 100) - 100) : shock.pct;
+
+// Shocks on currencies the market or deal does not have are simply left out
+export const applyScenario = (deal: SwapDeal, market: MarketData, scenario: Scenario): { deal: SwapDeal, market: MarketData } => {
+  const curves = { ...market.curves };
+  Object.entries(market.curves).forEach(([currency, definition]) => {
+    const shocks = scenario.shocks.filter(s => appliesTo(s, currency));
+    if (shocks.length === 0) return;
+    curves[currency] = {
+      ...definition,
+      quotes: definition.quotes.map(quote => {
+        const years = quoteYears(quote);
+        return bumpQuote(quote, shocks.reduce((acc, s) => acc + curveShockBp(s, years), 0));
+      })
+    };
+  });
+
+  const stressed = scenario.shocks
+    .filter((s): s is Extract<ScenarioShock, { type: 'FxSpot' }> => s.type === 'FxSpot')
+    .reduce((m, shock) => Object.keys(m.fxSpots)
+      .filter(currency => currency !== 'USD' && (shock.currency === 'USD' || appliesTo(shock, currency)))
+      .reduce((acc, currency) => bumpFxSpot(acc, currency, fxSpotMovePct(shock)), m), { ...market, curves });
+
+  const shockLeg = (leg: SwapDeal['leg1']) => {
+    if (leg.type !== 'Floating') return leg;
+    const bp = scenario.shocks.filter(s => s.type === 'Basis' && appliesTo(s, leg.currency))
+      .reduce((acc, s) => acc + (s.type === 'Basis' ? s.bp : 0), 0);
+    return bp ? { ...leg, rate: leg.rate + bp * BP } : leg;
+  };
+
+  return { deal: { ...deal, leg1: shockLeg(deal.leg1), leg2: shockLeg(deal.leg2) }, market: stressed };
+};
+
+export interface ScenarioResult {
+  scenario: Scenario;
+  baseNpv: number;
+  stressedNpv: number;
+  delta: number;
+  byDeal: { id: string, baseNpv: number, stressedNpv: number, delta: number }[];
+}
+
+export interface ScenarioRun {
+  reportingCurrency: string;
+  baseNpv: number;
+  results: ScenarioResult[];
+  errors: { id: string, message: string }[];
+  // Shocks that move nothing in this market, e.g. a tenor no curve quotes
+  warnings: string[];
+}
+
+// A tenor shock only moves quotes at exactly that tenor, so one that matches none would pass unnoticed
+export const scenarioWarnings = (scenario: Scenario, market: MarketData): string[] =>
+  scenario.shocks.flatMap(shock => {
+    if (shock.type !== 'Tenor') return [];
+    const matched = Object.entries(market.curves).some(([currency, definition]) =>
+      appliesTo(shock, currency) && definition.quotes.some(quote => curveShockBp(shock, quoteYears(quote)) !== 0));
+    return matched ? [] : [`${scenario.name}: ${describeShock(shock)} matches no curve quote`];
+  });
+
+// Deals are priced as given, so callers choose the valuation date; a deal that fails in the base
+// or any scenario is left out of every total so the columns stay comparable
+export const runScenarios = (deals: SwapDeal[], market: MarketData, scenarios: Scenario[], reportingCurrency = 'USD'): ScenarioRun => {
+  const errors: ScenarioRun['errors'] = [];
+  const rows = deals.flatMap(deal => {
+    const id = deal.id ?? '—';
+    try {
+      const baseNpv = priceSwap(deal, market, reportingCurrency).npvTotal;
+      const stressed = scenarios.map(scenario => {
+        const shocked = applyScenario(deal, market, scenario);
+        return priceSwap(shocked.deal, shocked.market, reportingCurrency).npvTotal;
+      });
+      return [{ id, baseNpv, stressed }];
+    } catch (e) {
+      errors.push({ id, message: e instanceof Error ? e.message : String(e) });
+      return [];
+    }
+  });
+
+  const baseNpv = rows.reduce((acc, r) => acc + r.baseNpv, 0);
+  const results = scenarios.map((scenario, i) => {
+    const byDeal = rows.map(r => ({ id: r.id, baseNpv: r.baseNpv, stressedNpv: r.stressed[i], delta: r.stressed[i] - r.baseNpv }));
+    const stressedNpv = byDeal.reduce((acc, d) => acc + d.stressedNpv, 0);
+    return { scenario, baseNpv, stressedNpv, delta: stressedNpv - baseNpv, byDeal };
+  });
+
+  return { reportingCurrency, baseNpv, results, errors, warnings: scenarios.flatMap(scenario => scenarioWarnings(scenario, market)) };
+};
+
+export const describeShock = (shock: ScenarioShock): string => {
+  const where = shock.currency === ALL_CURRENCIES ? 'All' : shock.currency;
+  const signed = (n: number, unit: string) => `${n > 0 ? '+' : ''}${n}${unit}`;
+  switch (shock.type) {
+    case 'Parallel': return `${where} curve ${signed(shock.bp, 'bp')}`;
+    case 'Tenor': return `${where} ${shock.tenor} ${signed(shock.bp, 'bp')}`;
+    case 'Twist': return `${where} twist ${signed(shock.shortBp, 'bp')} short / ${signed(shock.longBp, 'bp')} long`;
+    case 'Basis': return `${where} floating spreads ${signed(shock.bp, 'bp')}`;
+    case 'FxSpot': return shock.currency === 'USD' ? `USD vs all ${signed(shock.pct, '%')}` : `${where} vs USD ${signed(shock.pct, '%')}`;
+  }
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { SwapLeg } from '../types';
+import { buildSchedule, notionalOn } from './schedule';
+import { formatDate, parseDate } from './dateUtils';
+
+// Unadjusted so the dates read as generated
+const leg = (terms: Partial<SwapLeg> = {}): SwapLeg => ({
+  currency: 'EUR',
+  notional: 10000000,
+  rate: 3,
+  type: 'Fixed',
+  frequency: 'Quarterly',
+  convention: 'Actual/360',
+  businessDayConvention: 'Unadjusted',
+  ...terms
+});
+
+const accrualDates = (terms: Partial<SwapLeg>, start: string, end: string): string[] => {
+  const periods = buildSchedule(leg(terms), start, end);
+  return [periods[0].accrualStart, ...periods.map(p => p.accrualEnd)].map(formatDate);
+};
+
+describe('buildSchedule', () => {
+  it('rolls forward from the start and keeps a short back stub', () => {
+    expect(accrualDates({}, '2024-01-15', '2024-12-01'))
+      .toEqual(['2024-01-15', '2024-04-15', '2024-07-15', '2024-10-15', '2024-12-01']);
+  });
+
+  it('merges the back stub into the last period when it is long', () => {
+    expect(accrualDates({ stub: 'Long' }, '2024-01-15', '2024-12-01'))
+      .toEqual(['2024-01-15', '2024-04-15', '2024-07-15', '2024-12-01']);
+  });
+
+  it('rolls backward from the end and puts the stub at the front', () => {
+    expect(accrualDates({ dateGeneration: 'Backward' }, '2024-01-15', '2024-12-01'))
+      .toEqual(['2024-01-15', '2024-03-01', '2024-06-01', '2024-09-01', '2024-12-01']);
+    expect(accrualDates({ dateGeneration: 'Backward', stub: 'Long' }, '2024-01-15', '2024-12-01'))
+      .toEqual(['2024-01-15', '2024-06-01', '2024-09-01', '2024-12-01']);
+  });
+
+  it('has no stub when the dates fit the frequency', () => {
+    expect(accrualDates({ stub: 'Long' }, '2024-01-15', '2025-01-15'))
+      .toEqual(['2024-01-15', '2024-04-15', '2024-07-15', '2024-10-15', '2025-01-15']);
+  });
+
+  it('starts rolling on the first roll day after the start', () => {
+    expect(accrualDates({ rollDay: 20 }, '2024-01-15', '2025-01-20'))
+      .toEqual(['2024-01-15', '2024-01-20', '2024-04-20', '2024-07-20', '2024-10-20', '2025-01-20']);
+    expect(accrualDates({ rollDay: 20, stub: 'Long' }, '2024-01-15', '2025-01-20'))
+      .toEqual(['2024-01-15', '2024-04-20', '2024-07-20', '2024-10-20', '2025-01-20']);
+  });
+
+  it('moves to the next month when the roll day has passed in the start month', () => {
+    expect(accrualDates({ rollDay: 5 }, '2024-01-15', '2024-11-05'))
+      .toEqual(['2024-01-15', '2024-02-05', '2024-05-05', '2024-08-05', '2024-11-05']);
+  });
+
+  it('rolls backward from the last roll day before the end', () => {
+    expect(accrualDates({ frequency: 'Monthly', rollDay: 5, dateGeneration: 'Backward' }, '2024-01-05', '2024-05-15'))
+      .toEqual(['2024-01-05', '2024-02-05', '2024-03-05', '2024-04-05', '2024-05-05', '2024-05-15']);
+    expect(accrualDates({ frequency: 'Monthly', rollDay: 5, dateGeneration: 'Backward', stub: 'Long' }, '2024-01-05', '2024-05-15'))
+      .toEqual(['2024-01-05', '2024-02-05', '2024-03-05', '2024-04-05', '2024-05-15']);
+  });
+
+  it('clamps the roll day to the month end', () => {
+    expect(accrualDates({ frequency: 'Monthly', rollDay: 31 }, '2024-01-31', '2024-05-31'))
+      .toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31']);
+  });
+
+  it('rolls on third Wednesdays for IMM', () => {
+    expect(accrualDates({ rollDay: 'IMM' }, '2024-03-20', '2025-03-19'))
+      .toEqual(['2024-03-20', '2024-06-19', '2024-09-18', '2024-12-18', '2025-03-19']);
+  });
+
+  it('keeps month ends when rolling end of month', () => {
+    expect(accrualDates({ endOfMonth: true }, '2024-02-29', '2024-11-30'))
+      .toEqual(['2024-02-29', '2024-05-31', '2024-08-31', '2024-11-30']);
+  });
+
+  it('pays after the payment lag in business days', () => {
+    const periods = buildSchedule(leg({ businessDayConvention: 'ModifiedFollowing', paymentLagDays: 2 }), '2024-01-15', '2024-07-15');
+    expect(periods.map(p => [formatDate(p.accrualEnd), formatDate(p.paymentDate)]))
+      .toEqual([['2024-04-15', '2024-04-17'], ['2024-07-15', '2024-07-17']]);
+  });
+});
+
+describe('notionalOn', () => {
+  const amortising = leg({ notionalSchedule: [{ date: '2025-01-15', notional: 5000000 }, { date: '2024-07-15', notional: 8000000 }] });
+
+  it('follows the last step on or before the date', () => {
+    expect(notionalOn(amortising, parseDate('2024-04-15'))).toBe(10000000);
+    expect(notionalOn(amortising, parseDate('2024-07-15'))).toBe(8000000);
+    expect(notionalOn(amortising, parseDate('2025-04-15'))).toBe(5000000);
+  });
+});
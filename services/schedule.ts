@@ -0,0 +1,85 @@
+import { SwapLeg } from '../types';
+import { parseDate, addMonths, getFrequencyMonths, isEndOfMonth, daysInMonth, thirdWednesday } from './dateUtils';
+import { addBusinessDays, adjustDate, defaultCalendar } from './calendars';
+
+export interface SchedulePeriod {
+  accrualStart: Date;
+  accrualEnd: Date;
+  paymentDate: Date;
+}
+
+export const resolveCalendar = (leg: SwapLeg): string => leg.calendar || defaultCalendar(leg.currency);
+
+// Moves a regular date onto the leg's roll day within the same month
+const applyRollDay = (date: Date, rollDay: SwapLeg['rollDay']): Date => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  if (rollDay === 'IMM') return thirdWednesday(year, month);
+  if (rollDay) return new Date(Date.UTC(year, month, Math.min(rollDay, daysInMonth(year, month))));
+  return date;
+};
+
+// Unadjusted accrual dates, from the start date to the end date inclusive
+const scheduleDates = (leg: SwapLeg, start: Date, end: Date): Date[] => {
+  const months = getFrequencyMonths(leg.frequency);
+  const backward = leg.dateGeneration === 'Backward';
+  const step = backward ? -1 : 1;
+  const from = backward ? end : start;
+  // End-of-month rolling only applies when the date the schedule rolls from is itself a month end
+  const rollEom = !!leg.endOfMonth && isEndOfMonth(from);
+  const roll = (date: Date) => applyRollDay(date, leg.rollDay);
+
+  // Regular dates run from the first roll date after the start (before the end, when generating backward).
+  // Without a roll day that is the start (end) date itself, so there is no odd period on that side.
+  let anchor = roll(from);
+  if (backward ? anchor > end : anchor < start) anchor = roll(addMonths(from, step));
+  const nearStub = anchor.getTime() !== from.getTime();
+
+  // Each date rolls off the anchor so month-end clipping does not accumulate
+  const regular: Date[] = [];
+  let farStub = true;
+  for (let n = nearStub ? 0 : 1; ; n++) {
+    const next = roll(addMonths(anchor, step * n * months, rollEom));
+    if (backward ? next <= start : next >= end) {
+      farStub = next.getTime() !== (backward ? start : end).getTime();
+      break;
+    }
+    regular.push(next);
+  }
+  if (backward) regular.reverse();
+
+  // A long stub absorbs the regular period next to it
+  const [frontStub, backStub] = backward ? [farStub, nearStub] : [nearStub, farStub];
+  if (leg.stub === 'Long') {
+    if (frontStub && regular.length) regular.shift();
+    if (backStub && regular.length) regular.pop();
+  }
+  return [start, ...regular, end];
+};
+
+export const buildSchedule = (leg: SwapLeg, startDate: string, endDate: string): SchedulePeriod[] => {
+  const calendar = resolveCalendar(leg);
+  const convention = leg.businessDayConvention ?? 'ModifiedFollowing';
+  const paymentLag = leg.paymentLagDays ?? 0;
+
+  const adjusted = scheduleDates(leg, parseDate(startDate), parseDate(endDate)).map(d => adjustDate(d, convention, calendar));
+  const periods: SchedulePeriod[] = [];
+  for (let i = 1; i < adjusted.length; i++) {
+    periods.push({
+      accrualStart: adjusted[i - 1],
+      accrualEnd: adjusted[i],
+      paymentDate: paymentLag > 0 ? addBusinessDays(adjusted[i], paymentLag, calendar) : adjusted[i]
+    });
+  }
+  return periods;
+};
+
+// Scheduled notional on a date: the last step on or before it, or the traded notional before the first step.
+// Step dates are adjusted like the accrual dates so a step on a holiday still lines up with its period.
+export const notionalOn = (leg: SwapLeg, date: Date): number => {
+  const calendar = resolveCalendar(leg);
+  const convention = leg.businessDayConvention ?? 'ModifiedFollowing';
+  return [...(leg.notionalSchedule ?? [])]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .reduce((notional, step) => adjustDate(parseDate(step.date), convention, calendar) <= date ? step.notional : notional, leg.notional);
+};
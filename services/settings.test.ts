@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, resolveValuationDate, validateSettings } from './settings';
+
+const fixed = (fixedValuationDate: string) => ({ ...DEFAULT_SETTINGS, valuationDateRule: 'Fixed' as const, fixedValuationDate });
+
+describe('fixed valuation date', () => {
+  it('accepts a real date', () => {
+    expect(validateSettings(fixed('2024-02-29'))).toEqual([]);
+    expect(resolveValuationDate(fixed('2024-02-29'))).toBe('2024-02-29');
+  });
+
+  it('rejects a date that does not exist', () => {
+    expect(validateSettings(fixed('2024-02-31'))).toEqual(['Invalid fixed valuation date "2024-02-31"']);
+    expect(validateSettings(fixed(''))).toEqual(['A fixed valuation date rule needs a date']);
+  });
+
+  it('falls back to today for a stored date that does not exist', () => {
+    expect(resolveValuationDate(fixed('2024-02-31'), new Date(Date.UTC(2024, 5, 3)))).toBe('2024-06-03');
+  });
+});
@@ -0,0 +1,111 @@
+import { AppSettings, MarketData, MarketSnapshot, NumberFormat, ValuationDateRule } from '../types';
+import { CALENDAR_CODES, addBusinessDays } from './calendars';
+import { formatDate, parseDate } from './dateUtils';
+import { SUPPORTED_CURRENCIES, isIsoDate } from './dealValidation';
+
+export const VALUATION_DATE_RULE_LABELS: Record<ValuationDateRule, string> = {
+  Today: 'Today',
+  PreviousBusinessDay: 'Previous business day (T-1)',
+  Fixed: 'Fixed date'
+};
+
+export const NUMBER_LOCALES = [
+  { value: '', label: 'Browser default' },
+  { value: 'en-US', label: '1,234,567.89' },
+  { value: 'de-DE', label: '1.234.567,89' },
+  { value: 'fr-FR', label: '1 234 567,89' },
+  { value: 'de-CH', label: "1'234'567.89" }
+];
+
+export const AI_MODELS: Record<AppSettings['ai']['provider'], string[]> = {
+  gemini: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+  'openai-compatible': ['llama3.1', 'qwen2.5', 'mistral', 'gpt-4o-mini'],
+  mock: ['offline']
+};
+
+const MAX_DECIMALS = 6;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  reportingCurrency: 'USD',
+  valuationDateRule: 'Today',
+  fixedValuationDate: '',
+  valuationCalendar: 'USNY',
+  defaultCurves: {},
+  legCalendars: {},
+  defaultTemplateId: 'brl-di-usd-fixed',
+  numberFormat: { locale: '', decimals: 2 },
+  ai: { provider: 'gemini', model: 'gemini-2.5-flash', apiKey: '', baseUrl: 'http://localhost:11434/v1' }
+};
+
+export const resolveValuationDate = (settings: AppSettings, today: Date = new Date()): string => {
+  switch (settings.valuationDateRule) {
+    case 'PreviousBusinessDay':
+      return formatDate(addBusinessDays(parseDate(formatDate(today)), -1, settings.valuationCalendar));
+    case 'Fixed':
+      // Settings saved before dates were checked may still hold an impossible one
+      return isIsoDate(settings.fixedValuationDate) ? settings.fixedValuationDate : formatDate(today);
+    default:
+      return formatDate(today);
+  }
+};
+
+export const formatAmount = (value: number, format: NumberFormat, decimals = format.decimals): string =>
+  value.toLocaleString(format.locale || undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+// Currencies without a chosen snapshot, or whose snapshot no longer has that curve, keep the market's own
+export const applyDefaultCurves = (market: MarketData, snapshots: MarketSnapshot[], defaultCurves: Record<string, string>): MarketData => {
+  const curves = { ...market.curves };
+  Object.entries(defaultCurves).forEach(([currency, id]) => {
+    const curve = snapshots.find(s => s.id === id)?.market.curves[currency];
+    if (curve) curves[currency] = curve;
+  });
+  return { ...market, curves };
+};
+
+// Stored settings may predate fields added since, so they are layered over the defaults
+export const withDefaults = (stored: Partial<AppSettings>): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...stored,
+  numberFormat: { ...DEFAULT_SETTINGS.numberFormat, ...stored.numberFormat },
+  ai: { ...DEFAULT_SETTINGS.ai, ...stored.ai }
+});
+
+// Malformed tags throw rather than coming back unsupported
+const isSupportedLocale = (locale: string): boolean => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+export const validateSettings = (settings: AppSettings): string[] => {
+  const issues: string[] = [];
+  const isKnownCalendar = (code: string) => code.split('+').every(c => CALENDAR_CODES.includes(c));
+  if (!SUPPORTED_CURRENCIES.includes(settings.reportingCurrency)) {
+    issues.push(`Reporting currency ${settings.reportingCurrency} is not supported`);
+  }
+  if (settings.valuationDateRule === 'Fixed' && !isIsoDate(settings.fixedValuationDate)) {
+    issues.push(settings.fixedValuationDate ? `Invalid fixed valuation date "${settings.fixedValuationDate}"` : 'A fixed valuation date rule needs a date');
+  }
+  if (!isKnownCalendar(settings.valuationCalendar)) {
+    issues.push(`Unknown valuation calendar ${settings.valuationCalendar}`);
+  }
+  Object.entries(settings.legCalendars).forEach(([currency, code]) => {
+    if (!isKnownCalendar(code)) issues.push(`Unknown ${currency} calendar ${code}`);
+  });
+  const { decimals, locale } = settings.numberFormat;
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    issues.push(`Decimals must be a whole number from 0 to ${MAX_DECIMALS}`);
+  }
+  if (locale && !isSupportedLocale(locale)) {
+    issues.push(`Unknown number locale "${locale}"`);
+  }
+  if (!settings.ai.model.trim()) {
+    issues.push('An AI model is required');
+  }
+  if (settings.ai.provider === 'openai-compatible' && !/^https?:\/\/\S+$/.test(settings.ai.baseUrl.trim())) {
+    issues.push('An OpenAI-compatible provider needs an http(s) base URL');
+  }
+  return issues;
+};
@@ -0,0 +1,43 @@
+import { AppSettings } from '../types';
+import { DEFAULT_SETTINGS, validateSettings, withDefaults } from './settings';
+
+// Storage contract for the user's settings, a single document rather than a list
+export interface SettingsRepository {
+  load: () => Promise<AppSettings>;
+  save: (settings: AppSettings) => Promise<AppSettings>;
+  reset: () => Promise<AppSettings>;
+}
+
+const STORAGE_KEY = 'swappricer.settings.v1';
+
+export const createLocalStorageSettingsRepository = (key = STORAGE_KEY, storage?: Storage): SettingsRepository => {
+  const store = () => storage ?? window.localStorage;
+
+  return {
+    load: async () => {
+      const raw = store().getItem(key);
+      if (raw === null) return DEFAULT_SETTINGS;
+      try {
+        return withDefaults(JSON.parse(raw) as Partial<AppSettings>);
+      } catch (error) {
+        console.error("Stored settings are unreadable, using the defaults:", error);
+        return DEFAULT_SETTINGS;
+      }
+    },
+    save: async (settings) => {
+      const issues = validateSettings(settings);
+      if (issues.length) {
+        throw new Error(issues.join('; '));
+      }
+      const saved = { ...settings, ai: { ...settings.ai, model: settings.ai.model.trim(), apiKey: settings.ai.apiKey.trim(), baseUrl: settings.ai.baseUrl.trim() } };
+      store().setItem(key, JSON.stringify(saved));
+      return saved;
+    },
+    reset: async () => {
+      store().removeItem(key);
+      return DEFAULT_SETTINGS;
+    }
+  };
+};
+
+export const settingsRepository: SettingsRepository = createLocalStorageSettingsRepository();
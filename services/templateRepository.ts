@@ -0,0 +1,56 @@
+import { DealTemplate } from '../types';
+import { BUILT_IN_TEMPLATES } from './dealTemplates';
+
+// Storage contract for user-saved deal templates; built-in templates are always listed first
+export interface TemplateRepository {
+  list: () => Promise<DealTemplate[]>;
+  save: (template: Omit<DealTemplate, 'id' | 'builtIn'>) => Promise<DealTemplate>;
+  remove: (id: string) => Promise<void>;
+}
+
+const STORAGE_KEY = 'swappricer.templates.v1';
+
+// Saving again under the same name overwrites the template
+export const templateId = (name: string): string => `custom:${name.trim().toLowerCase().replace(/\s+/g, '-')}`;
+
+export const createLocalStorageTemplateRepository = (key = STORAGE_KEY, storage?: Storage): TemplateRepository => {
+  const store = () => storage ?? window.localStorage;
+
+  const read = (): DealTemplate[] => {
+    const raw = store().getItem(key);
+    if (raw === null) return [];
+    try {
+      return JSON.parse(raw) as DealTemplate[];
+    } catch (error) {
+      console.error("Stored templates are unreadable, starting empty:", error);
+      return [];
+    }
+  };
+
+  const write = (templates: DealTemplate[]) => {
+    store().setItem(key, JSON.stringify(templates));
+  };
+
+  return {
+    list: async () => [...BUILT_IN_TEMPLATES, ...read()],
+    save: async (template) => {
+      if (!template.name.trim()) {
+        throw new Error('A template needs a name');
+      }
+      if (BUILT_IN_TEMPLATES.some(t => t.name.toLowerCase() === template.name.trim().toLowerCase())) {
+        throw new Error(`"${template.name.trim()}" is a built-in template; choose another name`);
+      }
+      const saved: DealTemplate = { ...template, id: templateId(template.name), name: template.name.trim() };
+      write([...read().filter(t => t.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      return saved;
+    },
+    remove: async (id) => {
+      if (BUILT_IN_TEMPLATES.some(t => t.id === id)) {
+        throw new Error('Built-in templates cannot be deleted');
+      }
+      write(read().filter(t => t.id !== id));
+    }
+  };
+};
+
+export const templateRepository: TemplateRepository = createLocalStorageTemplateRepository();
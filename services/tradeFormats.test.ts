@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { SwapDeal, SwapLeg } from '../types';
+import { dealsCsvRows, dealsToJson, parseDealsCsv, parseDealsJson } from './tradeFormats';
+import { dealsToFpml, fpmlExportIssues, parseFpml } from './fpml';
+import { toCsv } from './reportExport';
+import { SEED_DEALS } from './dealRepository';
+import { BUILT_IN_TEMPLATES, dealFromTemplate } from './dealTemplates';
+import { resolveCalendar } from './schedule';
+import { resolveIndex } from './indices';
+
+// Status is derived by the lifecycle engine, so no format carries it
+const withoutStatus = ({ status, ...deal }: SwapDeal): SwapDeal => deal;
+
+const DEALS: [string, SwapDeal][] = [
+  ...SEED_DEALS.map(deal => [deal.id!, withoutStatus(deal)] as [string, SwapDeal]),
+  ...BUILT_IN_TEMPLATES.map(t => [t.id, { ...dealFromTemplate(t, '2024-06-03'), id: `TPL-${t.id}`, counterparty: 'Bank A' }] as [string, SwapDeal])
+];
+
+// FpML always spells out what the app leaves to defaults, and has no separate value date
+const fpmlView = (deal: SwapDeal): SwapDeal => {
+  const explicit = (leg: SwapLeg): SwapLeg => ({
+    ...leg,
+    calendar: resolveCalendar(leg),
+    businessDayConvention: leg.businessDayConvention ?? 'ModifiedFollowing',
+    ...(leg.type === 'Floating' ? { index: resolveIndex(leg.index, leg.currency).code } : {})
+  });
+  return { ...deal, tradeDate: deal.tradeDate ?? deal.valueDate, leg1: explicit(deal.leg1), leg2: explicit(deal.leg2) };
+};
+
+const errors = (issues: { severity: string }[]) => issues.filter(i => i.severity === 'error');
+
+describe('trade file round trips', () => {
+  it.each(DEALS)('CSV gives back %s', (_, deal) => {
+    const result = parseDealsCsv(toCsv(dealsCsvRows([deal])));
+    expect(errors(result.issues)).toEqual([]);
+    expect(result.deals).toEqual([deal]);
+  });
+
+  it.each(DEALS)('JSON gives back %s', (_, deal) => {
+    const result = parseDealsJson(dealsToJson([deal]));
+    expect(errors(result.issues)).toEqual([]);
+    expect(result.deals).toEqual([deal]);
+  });
+
+  it.each(DEALS)('FpML gives back %s', (_, deal) => {
+    const result = parseFpml(dealsToFpml([deal]));
+    expect(result.issues).toEqual([]);
+    expect(result.deals).toEqual([fpmlView(deal)]);
+  });
+
+  it.each([
+    ['a roll day', { rollDay: 20 }],
+    ['IMM rolls', { rollDay: 'IMM' }],
+    ['a payment lag', { paymentLagDays: 2 }]
+  ] as [string, Partial<SwapLeg>][])('FpML gives back %s', (_, terms) => {
+    const [, base] = DEALS.find(([id]) => id === 'eur-euribor-6m')!;
+    const deal = { ...base, leg1: { ...base.leg1, ...terms }, leg2: { ...base.leg2, ...terms } };
+    expect(fpmlExportIssues([deal])).toEqual([]);
+    const result = parseFpml(dealsToFpml([deal]));
+    expect(result.issues).toEqual([]);
+    expect(result.deals).toEqual([fpmlView(deal)]);
+  });
+
+  it('keeps every deal of a multi-deal file in order', () => {
+    const deals = DEALS.map(([, deal]) => deal);
+    expect(parseDealsCsv(toCsv(dealsCsvRows(deals))).deals).toEqual(deals);
+    expect(parseDealsJson(dealsToJson(deals)).deals).toEqual(deals);
+    expect(parseFpml(dealsToFpml(deals)).deals).toEqual(deals.map(fpmlView));
+  });
+});
+
+describe('FpML import report', () => {
+  const [, deal] = DEALS.find(([id]) => id === 'eur-euribor-6m')!;
+  const xml = dealsToFpml([deal]);
+
+  it('warns on unsupported elements at any depth', () => {
+    const edited = xml
+      .replace('<spreadSchedule>', '<calculationParameters><lookback>2</lookback></calculationParameters><spreadSchedule>')
+      .replace('</fixedRateSchedule>', '<step><stepDate>2026-06-05</stepDate><stepValue>0.03</stepValue></step></fixedRateSchedule>')
+      .replace('<calculationPeriodFrequency>', '<firstRegularPeriodStartDate>2024-09-05</firstRegularPeriodStartDate><calculationPeriodFrequency>');
+    const messages = parseFpml(edited).issues.map(i => `${i.location}: ${i.message}`);
+    expect(messages).toEqual(expect.arrayContaining([
+      'trade TPL-eur-euribor-6m leg1: Unsupported element calculationPeriodAmount/calculation/floatingRateCalculation/calculationParameters ignored',
+      'trade TPL-eur-euribor-6m leg2: Unsupported element calculationPeriodAmount/calculation/fixedRateSchedule/step ignored',
+      'trade TPL-eur-euribor-6m leg1: Unsupported element calculationPeriodDates/firstRegularPeriodStartDate ignored'
+    ]));
+  });
+
+  it('warns on notional steps and intermediate exchanges', () => {
+    const edited = xml
+      .replace('</currency></notionalStepSchedule>', '</currency><step><stepDate>2026-06-05</stepDate><stepValue>5000000</stepValue></step></notionalStepSchedule>')
+      .replace('<calculationPeriodAmount>', '<principalExchanges><initialExchange>false</initialExchange><finalExchange>false</finalExchange><intermediateExchange>true</intermediateExchange></principalExchanges><calculationPeriodAmount>');
+    const messages = parseFpml(edited).issues.map(i => i.message);
+    expect(messages).toContain('Notional steps are not supported; the initial notional was used');
+    expect(messages).toContain('Intermediate exchanges are not supported and were ignored');
+  });
+});
@@ -0,0 +1,275 @@
+import { NotionalStep, SwapDeal, SwapLeg } from '../types';
+import { parseCsv } from './csv';
+import { formatDate, parseDate } from './dateUtils';
+import { DAY_COUNT_CONVENTIONS } from './dayCount';
+import { CALENDAR_CODES } from './calendars';
+import { RATE_INDICES } from './indices';
+import { BUSINESS_DAY_CONVENTION_CODES, FREQUENCIES, validateDeal } from './dealValidation';
+import { parseFpml } from './fpml';
+import { nextDealId } from './dealRepository';
+
+export interface TradeIssue {
+  // CSV line, JSON path or FpML element
+  location: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface TradeImportResult {
+  deals: SwapDeal[];
+  issues: TradeIssue[];
+}
+
+// --- Field specs shared by every format ---
+
+type FieldKind = 'text' | 'date' | 'currency' | 'number' | 'count' | 'boolean' | 'calendar' | 'rollDay' | 'notionalSchedule' | readonly string[];
+
+const DEAL_FIELDS: Record<string, FieldKind> = {
+  id: 'text',
+  counterparty: 'text',
+  tradeDate: 'date',
+  valueDate: 'date',
+  startDate: 'date',
+  endDate: 'date'
+};
+
+const LEG_FIELDS: Record<keyof SwapLeg, FieldKind> = {
+  currency: 'currency',
+  notional: 'number',
+  rate: 'number',
+  type: ['Fixed', 'Floating'],
+  frequency: FREQUENCIES,
+  convention: DAY_COUNT_CONVENTIONS.map(c => c.value),
+  calendar: 'calendar',
+  businessDayConvention: BUSINESS_DAY_CONVENTION_CODES,
+  endOfMonth: 'boolean',
+  index: Object.keys(RATE_INDICES),
+  lookbackDays: 'count',
+  lockoutDays: 'count',
+  initialExchange: 'boolean',
+  finalExchange: 'boolean',
+  notionalReset: 'boolean',
+  dateGeneration: ['Forward', 'Backward'],
+  stub: ['Short', 'Long'],
+  rollDay: 'rollDay',
+  paymentLagDays: 'count',
+  fixingLagDays: 'count',
+  notionalSchedule: 'notionalSchedule'
+};
+
+const REQUIRED_DEAL_FIELDS = ['valueDate', 'startDate', 'endDate'];
+const REQUIRED_LEG_FIELDS: (keyof SwapLeg)[] = ['currency', 'notional', 'rate', 'type', 'frequency', 'convention'];
+const FLOATING_ONLY_FIELDS: (keyof SwapLeg)[] = ['index', 'lookbackDays', 'lockoutDays', 'fixingLagDays'];
+
+// CSV cells hold a notional schedule as date:notional pairs, e.g. 2026-06-05:7500000;2027-06-05:5000000
+const notionalScheduleText = (steps: NotionalStep[]): string => steps.map(step => `${step.date}:${step.notional}`).join(';');
+
+// Returns the typed value, undefined for an empty cell, or an error message
+const coerce = (kind: FieldKind, raw: unknown): { value?: unknown, error?: string } => {
+  if (raw === undefined || raw === null || raw === '') return {};
+  const text = String(raw).trim();
+  if (Array.isArray(kind)) {
+    const match = kind.find(option => option.toLowerCase() === text.toLowerCase());
+    return match ? { value: match } : { error: `"${text}" is not one of ${kind.join(', ')}` };
+  }
+  switch (kind) {
+    case 'text':
+      return { value: text };
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(text) && formatDate(parseDate(text)) === text
+        ? { value: text }
+        : { error: `Invalid date "${text}", expected YYYY-MM-DD` };
+    case 'currency':
+      return /^[A-Z]{3}$/.test(text) ? { value: text } : { error: `Invalid currency "${text}"` };
+    case 'number': {
+      const n = typeof raw === 'number' ? raw : Number(text);
+      return Number.isFinite(n) ? { value: n } : { error: `Invalid number "${text}"` };
+    }
+    case 'count': {
+      const n = typeof raw === 'number' ? raw : Number(text);
+      return Number.isInteger(n) && n >= 0 ? { value: n } : { error: `Expected a whole number of days, got "${text}"` };
+    }
+    case 'boolean':
+      if (raw === true || /^(true|yes|1)$/i.test(text)) return { value: true };
+      if (raw === false || /^(false|no|0)$/i.test(text)) return { value: false };
+      return { error: `Expected true or false, got "${text}"` };
+    case 'calendar': {
+      const unknown = text.split('+').filter(code => !CALENDAR_CODES.includes(code));
+      return unknown.length ? { error: `Unknown calendar ${unknown.join(', ')}, expected ${CALENDAR_CODES.join(', ')}` } : { value: text };
+    }
+    case 'rollDay': {
+      if (text.toUpperCase() === 'IMM') return { value: 'IMM' };
+      const n = typeof raw === 'number' ? raw : Number(text);
+      return Number.isInteger(n) && n >= 1 && n <= 31 ? { value: n } : { error: `Expected a day of the month or IMM, got "${text}"` };
+    }
+    case 'notionalSchedule': {
+      // JSON carries the steps as objects; CSV and hand-written JSON may use the text form
+      const items = Array.isArray(raw)
+        ? raw.map(item => [(item as NotionalStep)?.date, (item as NotionalStep)?.notional])
+        : text.split(';').filter(Boolean).map(pair => pair.split(':'));
+      const steps: NotionalStep[] = [];
+      for (const [date, notional] of items) {
+        const parsedDate = coerce('date', date);
+        if (parsedDate.error || parsedDate.value === undefined) return { error: parsedDate.error ?? 'Notional step is missing its date' };
+        const parsedNotional = coerce('number', notional);
+        if (parsedNotional.error || parsedNotional.value === undefined) return { error: parsedNotional.error ?? `Notional step on ${date} is missing its notional` };
+        steps.push({ date: parsedDate.value as string, notional: parsedNotional.value as number });
+      }
+      return steps.length ? { value: steps } : {};
+    }
+  }
+  return {};
+};
+
+// Turns loosely-typed fields (strings from CSV, values from JSON or FpML) into a deal, reporting
+// every problem; once the fields parse, the deal goes through the same rules as the pricer form.
+// The deal is only returned when there are no errors.
+export const normalizeDeal = (raw: Record<string, unknown>, location: string): { deal?: SwapDeal, issues: TradeIssue[] } => {
+  const issues: TradeIssue[] = [];
+  const error = (field: string, message: string) => issues.push({ location: `${location}${field ? ` ${field}` : ''}`, severity: 'error', message });
+  const warn = (field: string, message: string) => issues.push({ location: `${location}${field ? ` ${field}` : ''}`, severity: 'warning', message });
+
+  const deal: Record<string, unknown> = {};
+  Object.entries(raw).forEach(([field, value]) => {
+    if (field === 'leg1' || field === 'leg2') return;
+    if (field === 'status') {
+      if (value !== undefined && value !== '') warn(field, 'Status is derived from the deal dates and lifecycle events, so it was ignored');
+      return;
+    }
+    const kind = DEAL_FIELDS[field];
+    if (!kind) return warn(field, 'Unsupported field ignored');
+    const result = coerce(kind, value);
+    if (result.error) return error(field, result.error);
+    if (result.value !== undefined) deal[field] = result.value;
+  });
+  REQUIRED_DEAL_FIELDS.filter(field => deal[field] === undefined).forEach(field => error(field, 'Required field is missing'));
+
+  (['leg1', 'leg2'] as const).forEach(legKey => {
+    const legRaw = raw[legKey];
+    if (typeof legRaw !== 'object' || legRaw === null) return error(legKey, 'Leg is missing');
+    const leg: Record<string, unknown> = {};
+    Object.entries(legRaw as Record<string, unknown>).forEach(([field, value]) => {
+      const kind = LEG_FIELDS[field as keyof SwapLeg];
+      if (!kind) return warn(`${legKey}.${field}`, 'Unsupported field ignored');
+      const result = coerce(kind, value);
+      if (result.error) return error(`${legKey}.${field}`, result.error);
+      if (result.value !== undefined) leg[field] = result.value;
+    });
+    REQUIRED_LEG_FIELDS.filter(field => leg[field] === undefined).forEach(field => error(`${legKey}.${field}`, 'Required field is missing'));
+    if (leg.type === 'Fixed') {
+      FLOATING_ONLY_FIELDS.filter(field => leg[field] !== undefined).forEach(field => {
+        warn(`${legKey}.${field}`, 'Only used by floating legs, ignored on a fixed leg');
+        delete leg[field];
+      });
+    }
+    deal[legKey] = leg;
+  });
+
+  if (issues.some(i => i.severity === 'error')) return { issues };
+  validateDeal(deal as unknown as SwapDeal).forEach(issue => (issue.severity === 'error' ? error : warn)(issue.field, issue.message));
+  return issues.some(i => i.severity === 'error') ? { issues } : { deal: deal as unknown as SwapDeal, issues };
+};
+
+// --- CSV ---
+
+const LEG_COLUMNS = Object.keys(LEG_FIELDS) as (keyof SwapLeg)[];
+
+export const DEAL_CSV_COLUMNS = [
+  ...Object.keys(DEAL_FIELDS),
+  ...LEG_COLUMNS.map(field => `leg1.${field}`),
+  ...LEG_COLUMNS.map(field => `leg2.${field}`)
+];
+
+export const dealsCsvRows = (deals: SwapDeal[]): (string | number)[][] => [
+  DEAL_CSV_COLUMNS,
+  ...deals.map(deal => DEAL_CSV_COLUMNS.map(column => {
+    const [head, field] = column.split('.');
+    const value = field ? deal[head as 'leg1' | 'leg2'][field as keyof SwapLeg] : deal[head as keyof SwapDeal];
+    if (Array.isArray(value)) return notionalScheduleText(value);
+    return value === undefined ? '' : typeof value === 'number' ? value : String(value);
+  }))
+];
+
+export const parseDealsCsv = (text: string): TradeImportResult => {
+  const rows = parseCsv(text);
+  if (rows.length < 2) {
+    return { deals: [], issues: [{ location: 'file', severity: 'error', message: 'Expected a header and at least one deal' }] };
+  }
+  const header = rows[0].cells;
+  const deals: SwapDeal[] = [];
+  // Unknown columns are reported once against the header rather than on every line
+  const issues: TradeIssue[] = header
+    .filter(column => column !== 'status' && !DEAL_CSV_COLUMNS.includes(column))
+    .map(column => ({ location: `line ${rows[0].line} ${column}`, severity: 'warning' as const, message: 'Unsupported column ignored' }));
+
+  rows.slice(1).forEach(({ line, cells }) => {
+    const raw: Record<string, unknown> = { leg1: {}, leg2: {} };
+    header.forEach((column, i) => {
+      if (column !== 'status' && !DEAL_CSV_COLUMNS.includes(column)) return;
+      const [head, field] = column.split('.');
+      if (field) {
+        (raw[head] as Record<string, unknown>)[field] = cells[i];
+      } else {
+        raw[column] = cells[i];
+      }
+    });
+    const result = normalizeDeal(raw, `line ${line}`);
+    issues.push(...result.issues);
+    if (result.deal) deals.push(result.deal);
+  });
+  return { deals, issues };
+};
+
+// --- JSON ---
+
+export const dealsToJson = (deals: SwapDeal[]): string =>
+  JSON.stringify({ deals: deals.map(({ status, ...deal }) => deal) }, null, 2);
+
+export const parseDealsJson = (text: string): TradeImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { deals: [], issues: [{ location: 'file', severity: 'error', message: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` }] };
+  }
+  const list = Array.isArray(data) ? data : (data as { deals?: unknown })?.deals;
+  if (!Array.isArray(list)) {
+    return { deals: [], issues: [{ location: '$', severity: 'error', message: 'Expected an array of deals or an object with a "deals" array' }] };
+  }
+  const issues: TradeIssue[] = [];
+  const deals: SwapDeal[] = [];
+  list.forEach((item, i) => {
+    if (typeof item !== 'object' || item === null) {
+      issues.push({ location: `deals[${i}]`, severity: 'error', message: 'Expected a deal object' });
+      return;
+    }
+    const result = normalizeDeal(item as Record<string, unknown>, `deals[${i}]`);
+    issues.push(...result.issues);
+    if (result.deal) deals.push(result.deal);
+  });
+  return { deals, issues };
+};
+
+export const parseTradeFile = (filename: string, text: string): TradeImportResult => {
+  const start = text.trimStart();
+  if (/\.xml$/i.test(filename) || start.startsWith('<')) return parseFpml(text);
+  if (/\.json$/i.test(filename) || start.startsWith('{') || start.startsWith('[')) return parseDealsJson(text);
+  return parseDealsCsv(text);
+};
+
+// Imported deals never overwrite the book: IDs already taken (or repeated in the file) get the next free one
+export const assignImportIds = (result: TradeImportResult, existing: SwapDeal[]): TradeImportResult => {
+  const taken = [...existing];
+  const issues = [...result.issues];
+  const deals = result.deals.map(deal => {
+    if (deal.id && !taken.some(d => d.id === deal.id)) {
+      taken.push(deal);
+      return deal;
+    }
+    const renamed = { ...deal, id: nextDealId(taken) };
+    if (deal.id) issues.push({ location: deal.id, severity: 'warning', message: `ID already in use, imported as ${renamed.id}` });
+    taken.push(renamed);
+    return renamed;
+  });
+  return { deals, issues };
+};
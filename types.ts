@@ -3,21 +3,82 @@ export enum Page {
   DASHBOARD = 'dashboard',
   PRICER = 'pricer',
   RESULTS = 'results',
+  CURVES = 'curves',
+  PNL = 'pnl',
+  MARKET_DATA = 'market-data',
+  HISTORY = 'history',
   SETTINGS = 'settings'
 }
 
+export type DayCountConvention = 'Actual/365' | 'Actual/360' | '30/360' | '30E/360' | 'Actual/Actual ISDA' | 'Business/252';
+
+export type BusinessDayConvention = 'Following' | 'ModifiedFollowing' | 'Preceding' | 'ModifiedPreceding' | 'Unadjusted';
+
+export interface RateIndex {
+  code: string;
+  name: string;
+  currency: string;
+  // Overnight indices are compounded in arrears, term indices are fixed in advance
+  style: 'Overnight' | 'Term';
+  // Compounding/accrual basis: simple on 360 or 365 days, or exponential on business days over 252
+  basis: 360 | 365 | 252;
+  calendar: string;
+  fixingLagDays: number;
+}
+
+export type DateGeneration = 'Forward' | 'Backward';
+
+export type StubType = 'Short' | 'Long';
+
+export interface NotionalStep {
+  date: string;
+  notional: number;
+}
+
 export interface SwapLeg {
   currency: string;
   notional: number;
+  // Fixed legs: coupon rate in %. Floating legs: spread in % over the index
   rate: number;
   type: 'Fixed' | 'Floating';
   frequency: string;
-  convention: string;
+  convention: DayCountConvention;
+  // Calendar code, or a joint calendar such as 'BRBD+USNY'; defaults to the currency's calendar
+  calendar?: string;
+  businessDayConvention?: BusinessDayConvention;
+  endOfMonth?: boolean;
+  // Floating legs only; defaults to the overnight index of the leg currency
+  index?: string;
+  lookbackDays?: number;
+  lockoutDays?: number;
+  initialExchange?: boolean;
+  finalExchange?: boolean;
+  // Mark-to-market CCS: the notional resets each period to the other leg's notional at FX
+  notionalReset?: boolean;
+  // Forward rolls from the start date and leaves any odd period at the end; Backward rolls from the end date
+  dateGeneration?: DateGeneration;
+  // Each odd period stays a short stub, or is merged into its neighbour as a long one
+  stub?: StubType;
+  // Day of month the regular dates fall on (clamped to the month end), or third Wednesdays for 'IMM'.
+  // Rolling starts on the first roll date after the start (before the end, for Backward).
+  rollDay?: number | 'IMM';
+  // Business days from the accrual end to payment, on the leg calendar
+  paymentLagDays?: number;
+  // Term indices: business days from fixing to the period start; defaults to the index's own lag
+  fixingLagDays?: number;
+  // Amortising or accreting notional; each step applies to the periods that start on or after its date
+  notionalSchedule?: NotionalStep[];
 }
 
+export type DealStatus = 'Active' | 'Pending' | 'Matured' | 'Terminated';
+
 export interface SwapDeal {
   id?: string;
-  status?: 'Active' | 'Pending' | 'Matured';
+  // Derived by the lifecycle engine from the dates and events; not edited directly
+  status?: DealStatus;
+  counterparty?: string;
+  // Defaults to the value date when missing
+  tradeDate?: string;
   valueDate: string;
   startDate: string;
   endDate: string;
@@ -25,20 +86,227 @@ export interface SwapDeal {
   leg2: SwapLeg;
 }
 
+// Reusable deal shape: leg structure and conventions plus a tenor, without dates or counterparty
+export interface DealTemplate {
+  id: string;
+  name: string;
+  // Shipped with the app rather than saved by the user
+  builtIn?: boolean;
+  // Maturity from the start date, e.g. '5Y' or '18M'
+  tenor: string;
+  leg1: SwapLeg;
+  leg2: SwapLeg;
+}
+
+export type LifecycleEventType = 'Booked' | 'Confirmed' | 'Amended' | 'PartialUnwind' | 'EarlyTermination' | 'Novation';
+
+export interface LifecycleEvent {
+  id: string;
+  type: LifecycleEventType;
+  // Effective date of the event
+  date: string;
+  // When the event was recorded (ISO timestamp)
+  recordedAt: string;
+  description: string;
+  // Partial unwinds: share of the outstanding notional taken off, as a decimal
+  unwindFraction?: number;
+  // Unwind and termination fees, received (+) or paid (-)
+  fee?: number;
+  feeCurrency?: string;
+  // Novations
+  fromCounterparty?: string;
+  toCounterparty?: string;
+  // Amendments: human-readable list of changed terms
+  changes?: string[];
+}
+
+export interface DealRecord {
+  deal: SwapDeal;
+  // Last pricing of the deal, if it has been priced
+  result?: PricingResult;
+  // Append-only lifecycle history, oldest first
+  events?: LifecycleEvent[];
+  updatedAt: string;
+}
+
 export interface PricingResult {
   npvTotal: number;
-  npvTotalFormatted: string;
+  reportingCurrency: string;
+  // Par spread in bps of the floating leg (off-market spread of the fixed rate for fixed/fixed deals)
   spread: number;
+  parRate: number;
+  parRateLeg: 1 | 2;
+  // PV of the principal exchanges in the reporting currency
   principal: number;
+  // Leg PVs in their own currency and converted at spot into the reporting currency
   leg1Npv: number;
   leg2Npv: number;
+  leg1NpvReporting: number;
+  leg2NpvReporting: number;
   cashflows: CashflowRow[];
+  risk?: RiskMetrics;
+}
+
+// All sensitivities are NPV changes in the reporting currency
+export interface RiskMetrics {
+  // Parallel +1bp shift of every quote on the currency's curve
+  pv01: { currency: string, value: number }[];
+  // +1bp on one curve quote at a time
+  keyRateDv01: { currency: string, instrument: CurveInstrument, tenor: string, value: number }[];
+  // +1bp on the spread of each floating leg
+  basisSpread01: { leg: 1 | 2, currency: string, value: number }[];
+  // +1% move in the currency's value against the reporting currency
+  fxDelta: { currency: string, value: number }[];
 }
 
 export interface CashflowRow {
+  // Payment date, after any payment lag
   date: string;
+  leg: 1 | 2;
+  currency: string;
+  flowType: 'Interest' | 'Principal';
+  // Coupon details; principal flows and runs recorded before they were added leave them out
+  accrualStart?: string;
+  accrualEnd?: string;
+  // Floating coupons: the last fixing the rate depends on
+  fixingDate?: string;
+  notional?: number;
+  // Coupon rate in %, including the spread on floating legs
+  rate?: number;
   leg1Flow: number;
   leg2Flow: number;
+  accrualFraction: number;
   discountFactor: number;
   presentValue: number;
 }
+
+export type CurveInstrument = 'Deposit' | 'FRA' | 'Future' | 'Swap';
+
+export type InterpolationMethod = 'LinearZero' | 'LogLinearDiscount';
+
+export interface CurveQuote {
+  type: CurveInstrument;
+  // '3M' / '5Y' for deposits and swaps, 'AxB' in months for FRAs and futures (e.g. '6x9')
+  tenor: string;
+  // Rate in % (futures are quoted as price, 100 - rate)
+  quote: number;
+}
+
+export interface CurveDefinition {
+  currency: string;
+  interpolation: InterpolationMethod;
+  swapFrequency: string;
+  quotes: CurveQuote[];
+}
+
+export interface CurvePillar {
+  date: string;
+  t: number;
+  zeroRate: number;
+  discountFactor: number;
+}
+
+export interface YieldCurve {
+  currency: string;
+  pillars: CurvePillar[];
+  // t is measured in years (Act/365F) from the valuation date
+  discount: (t: number) => number;
+  zeroRate: (t: number) => number;
+  forwardRate: (t1: number, t2: number) => number;
+}
+
+export interface MarketData {
+  asOf: string;
+  curves: Record<string, CurveDefinition>;
+  // Historical index fixings in %, keyed by index code then date; each fixing holds until the next one
+  fixings: Record<string, Record<string, number>>;
+  // Spot FX quoted as USD per one unit of currency
+  fxSpots: Record<string, number>;
+  // Optional forward points per currency and tenor, in pips (1e-4) of the USD-per-unit quote.
+  // Currencies without points use forwards implied by the two discount curves.
+  fxForwardPoints: Record<string, Record<string, number>>;
+}
+
+// Curve shocks are in bp of the quoted rate, FX shocks in % of the currency's USD value.
+// A currency of '*' applies the shock to every curve (or every non-USD spot) in the market.
+export type ScenarioShock =
+  | { type: 'Parallel', currency: string, bp: number }
+  | { type: 'Tenor', currency: string, tenor: string, bp: number }
+  // Moves the short end (2Y and in) and the long end (10Y and out) separately, linear in between
+  | { type: 'Twist', currency: string, shortBp: number, longBp: number }
+  // Added to the spread of every floating leg in the currency
+  | { type: 'Basis', currency: string, bp: number }
+  | { type: 'FxSpot', currency: string, pct: number };
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description?: string;
+  // Shipped with the app rather than defined by the user
+  builtIn?: boolean;
+  shocks: ScenarioShock[];
+}
+
+// One pricing exactly as it ran: the inputs it saw and everything it produced. Never changed once recorded.
+export interface PricingRun {
+  id: string;
+  // ISO timestamp
+  pricedAt: string;
+  engineVersion: string;
+  deal: SwapDeal;
+  // Stored snapshot the market came from; empty when priced on the working market
+  marketSnapshotId: string;
+  market: MarketData;
+  result: PricingResult;
+}
+
+export interface MarketSnapshot {
+  id: string;
+  name: string;
+  // Same as market.asOf, kept alongside for listing without unpacking the market
+  asOf: string;
+  market: MarketData;
+  savedAt: string;
+}
+
+// Today, the business day before today on the valuation calendar, or a pinned date
+export type ValuationDateRule = 'Today' | 'PreviousBusinessDay' | 'Fixed';
+
+// 'openai-compatible' covers OpenAI itself and local servers such as Ollama; 'mock' answers offline
+export type AiProvider = 'gemini' | 'openai-compatible' | 'mock';
+
+export type RiskFlagSeverity = 'low' | 'medium' | 'high';
+
+// Structured reply to a deal analysis request
+export interface DealAnalysis {
+  rationale: string;
+  riskFlags: { title: string, severity: RiskFlagSeverity, detail: string }[];
+  rateDifferential: string;
+}
+
+export interface NumberFormat {
+  // BCP 47 tag for separators; empty follows the browser
+  locale: string;
+  decimals: number;
+}
+
+export interface AppSettings {
+  reportingCurrency: string;
+  valuationDateRule: ValuationDateRule;
+  fixedValuationDate: string;
+  valuationCalendar: string;
+  // Snapshot id per currency whose curve replaces the default one in the working market
+  defaultCurves: Record<string, string>;
+  // Calendar per currency for new legs; a missing entry keeps the currency default
+  legCalendars: Record<string, string>;
+  defaultTemplateId: string;
+  numberFormat: NumberFormat;
+  ai: {
+    provider: AiProvider;
+    model: string;
+    // Empty falls back to the key the app was built with (Gemini only)
+    apiKey: string;
+    // OpenAI-compatible endpoints, e.g. 'http://localhost:11434/v1' for Ollama
+    baseUrl: string;
+  };
+}